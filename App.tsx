@@ -1,13 +1,16 @@
 import React from 'react';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AppNavigator } from './src/navigation';
+import { ThemeProvider } from './src/theme';
 import { enableScreens } from 'react-native-screens';
 enableScreens(true);
 
 export default function App(): React.JSX.Element {
   return (
     <SafeAreaProvider>
-      <AppNavigator />
+      <ThemeProvider>
+        <AppNavigator />
+      </ThemeProvider>
     </SafeAreaProvider>
   );
 }
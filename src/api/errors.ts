@@ -0,0 +1,130 @@
+/**
+ * Typed API errors.
+ * Classifies axios failures once so callers can branch on `kind`
+ * instead of inspecting status codes and error codes.
+ */
+
+import axios from 'axios';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'not-found'
+  | 'rate-limited'
+  | 'server'
+  | 'cancelled'
+  | 'unknown';
+
+interface ApiErrorOptions {
+  status?: number;
+  url?: string;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * Parses a Retry-After header (delta seconds or HTTP date) into milliseconds
+ * Example: "120" -> 120000
+ */
+export const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+};
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly url?: string;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = options.status;
+    this.url = options.url;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  /**
+   * Whether repeating the same request might succeed
+   */
+  get isRetryable(): boolean {
+    return (
+      this.kind === 'network' ||
+      this.kind === 'timeout' ||
+      this.kind === 'rate-limited' ||
+      this.kind === 'server'
+    );
+  }
+}
+
+/**
+ * Converts any thrown value into an ApiError
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const url = error.config?.url;
+    const status = error.response?.status;
+
+    if (axios.isCancel(error)) {
+      return new ApiError('cancelled', 'Request was cancelled', { url, cause: error });
+    }
+
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new ApiError('timeout', error.message, { url, cause: error });
+    }
+
+    if (!error.response) {
+      return new ApiError('network', error.message, { url, cause: error });
+    }
+
+    const retryAfterMs = parseRetryAfter(error.response.headers?.['retry-after']);
+
+    if (status === 404) {
+      return new ApiError('not-found', error.message, { status, url, cause: error });
+    }
+    if (status === 429) {
+      return new ApiError('rate-limited', error.message, {
+        status,
+        url,
+        retryAfterMs,
+        cause: error,
+      });
+    }
+    if (status !== undefined && status >= 500) {
+      return new ApiError('server', error.message, {
+        status,
+        url,
+        retryAfterMs: status === 503 ? retryAfterMs : undefined,
+        cause: error,
+      });
+    }
+
+    return new ApiError('unknown', error.message, { status, url, cause: error });
+  }
+
+  if (error instanceof Error) {
+    return new ApiError('unknown', error.message, { cause: error });
+  }
+
+  return new ApiError('unknown', 'An unknown error occurred', { cause: error });
+};
@@ -1,3 +1,3 @@
 export * from './pokemonApi';
+export * from './errors';
 export { default as apiClient } from './pokemonApi';
-
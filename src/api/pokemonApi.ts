@@ -1,6 +1,8 @@
 /**
  * API layer for fetching Pokémon data from the public Pokémon API.
  * Handles list and detail endpoints and normalizes responses.
+ * Responses are served through a persistent cache for offline use.
+ * Transient failures are retried and surfaced as typed ApiErrors.
  */
 
 import axios, { AxiosInstance, AxiosError } from 'axios';
@@ -9,11 +11,38 @@ import {
   PokemonDetail,
   Pokemon,
   PaginationConfig,
+  TypeDetail,
+  PokemonSpecies,
+  EvolutionChain,
+  ChainLink,
+  EvolutionNode,
+  PokemonStatSummary,
+  GenerationDetail,
+  GenerationSection,
+  MoveDetail,
+  AbilityDetail,
+  Ability,
+  LocalizedNames,
 } from '../types';
-
+import { POKEMON_TYPES } from '../utils/typeFilter';
+import { formatEvolutionTriggers } from '../utils/evolution';
+import { buildTypeChart, TypeChart } from '../utils/typeMatchup';
+import { cleanFlavorText, findLocalizedEntry } from '../utils/localization';
+import { formatName } from '../utils/formatters';
+import { t } from '../i18n';
+import {
+  buildCacheKey,
+  cachedRequest,
+  CachedRequestOptions,
+} from './responseCache';
+import { ApiError, toApiError } from './errors';
+import { attachRetryInterceptor, RetryOptions } from './retryPolicy';
 
 const API_BASE_URL = 'https://pokeapi.co/api/v2';
+const GRAPHQL_URL = 'https://beta.pokeapi.co/graphql/v1beta';
 const REQUEST_TIMEOUT = 10000;
+const SPECIES_INDEX_LIMIT = 2000;
+const GENERATION_COUNT = 9;
 
 const apiClient: AxiosInstance = axios.create({
   baseURL: API_BASE_URL,
@@ -23,25 +52,88 @@ const apiClient: AxiosInstance = axios.create({
   },
 });
 
+// Retries run first so only the final failure is logged and converted
+attachRetryInterceptor(apiClient);
+
 apiClient.interceptors.response.use(
   (response) => response,
-  (error: AxiosError) => {
+  (error: AxiosError | ApiError) => {
+    // Already converted by a nested retry attempt
+    if (error instanceof ApiError) {
+      return Promise.reject(error);
+    }
+
+    const apiError = toApiError(error);
+    if (apiError.kind === 'cancelled') {
+      return Promise.reject(apiError);
+    }
+
     console.error('API Error:', {
-      url: error.config?.url,
-      status: error.response?.status,
-      message: error.message,
+      url: apiError.url,
+      kind: apiError.kind,
+      status: apiError.status,
+      message: apiError.message,
     });
 
-    return Promise.reject(error);
+    return Promise.reject(apiError);
   }
 );
 
 /**
- * Extracts Pokemon ID from its URL
+ * Per-request options: cache behavior, cancellation signal, and the retry
+ * budget (pass `retry: false` to opt out of automatic retries)
+ */
+export interface RequestOptions extends CachedRequestOptions {
+  retry?: Partial<RetryOptions> | false;
+}
+
+/**
+ * Performs a GET request through the persistent response cache
+ */
+const cachedGet = <T>(
+  url: string,
+  params?: Record<string, string | number>,
+  options?: RequestOptions
+): Promise<T> => {
+  return cachedRequest(
+    buildCacheKey(url, params),
+    async (signal) => {
+      const response = await apiClient.get<T>(url, {
+        params,
+        signal,
+        retry: options?.retry,
+      });
+      return response?.data;
+    },
+    options
+  );
+};
+
+/**
+ * Extracts Pokemon ID from its URL (Pokemon or species resource)
  * Example: "https://pokeapi.co/api/v2/pokemon/25/" -> 25
+ * Example: "https://pokeapi.co/api/v2/pokemon-species/25/" -> 25
  */
 const extractPokemonId = (url: string): number => {
-  const matches = url.match(/\/pokemon\/(\d+)\//);
+  const matches = url.match(/\/pokemon(?:-species)?\/(\d+)\//);
+  return matches ? parseInt(matches[1], 10) : 0;
+};
+
+/**
+ * Extracts the evolution chain ID from its URL
+ * Example: "https://pokeapi.co/api/v2/evolution-chain/1/" -> 1
+ */
+const extractEvolutionChainId = (url: string): number => {
+  const matches = url.match(/\/evolution-chain\/(\d+)\//);
+  return matches ? parseInt(matches[1], 10) : 0;
+};
+
+/**
+ * Extracts the generation number from its URL
+ * Example: "https://pokeapi.co/api/v2/generation/3/" -> 3
+ */
+const extractGenerationId = (url: string): number => {
+  const matches = url.match(/\/generation\/(\d+)\//);
   return matches ? parseInt(matches[1], 10) : 0;
 };
 
@@ -64,7 +156,7 @@ const transformPokemonListItem = (
     name: item.name,
     url: item.url,
     imageUrl: getPokemonImageUrl(id),
-    types: [], // Types are fetched separately on detail screen
+    types: [], // Filled in from the type index (see fetchPokemonTypeIndex)
   };
 };
 
@@ -72,18 +164,21 @@ const transformPokemonListItem = (
  * Fetches paginated list of Pokemon
  * 
  * @param pagination - Configuration object with limit and offset
+ * @param options - Cache, cancellation, and retry options (e.g. forceRefresh for pull-to-refresh)
  * @returns Object containing transformed Pokemon list and hasMore flag
  */
 export const fetchPokemonList = async (
-  pagination: PaginationConfig
+  pagination: PaginationConfig,
+  options?: RequestOptions
 ): Promise<{ pokemon: Pokemon[]; hasMore: boolean }> => {
   const { limit, offset } = pagination;
 
-  const response = await apiClient.get<PokemonListResponse>('/pokemon', {
-    params: { limit, offset },
-  });
+  const data = await cachedGet<PokemonListResponse>(
+    '/pokemon',
+    { limit, offset },
+    options
+  );
 
-  const data = response?.data;
   if (!data || !Array.isArray(data.results)) {
     return {
       pokemon: [],
@@ -104,18 +199,468 @@ export const fetchPokemonList = async (
  * Fetches detailed information for a specific Pokemon
  * 
  * @param idOrName - Pokemon ID or name
+ * @param options - Cache, cancellation, and retry options
  * @returns Detailed Pokemon data
  */
 export const fetchPokemonDetail = async (
-  idOrName: number | string
+  idOrName: number | string,
+  options?: RequestOptions
 ): Promise<PokemonDetail> => {
-  const response = await apiClient.get<PokemonDetail>(`/pokemon/${idOrName}`);
-  
-  if (!response?.data) {
+  const data = await cachedGet<PokemonDetail>(
+    `/pokemon/${idOrName}`,
+    undefined,
+    options
+  );
+
+  if (!data) {
+    throw new Error('Invalid response from Pokemon API');
+  }
+
+  return data;
+};
+
+/**
+ * Fetches the name list of every Pokemon species for the search index.
+ * The list is small (~1000 entries) and cached for a week.
+ *
+ * @returns All species as list items, ordered by dex number
+ */
+export const fetchPokemonSpeciesIndex = async (): Promise<Pokemon[]> => {
+  const data = await cachedGet<PokemonListResponse>('/pokemon-species', {
+    limit: SPECIES_INDEX_LIMIT,
+  });
+
+  if (!data || !Array.isArray(data.results)) {
+    return [];
+  }
+
+  return data.results
+    .map((item) => {
+      const id = extractPokemonId(item.url);
+      return transformPokemonListItem({
+        name: item.name,
+        url: `${API_BASE_URL}/pokemon/${id}/`,
+      });
+    })
+    .filter((pokemon) => pokemon.id > 0)
+    .sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Fetches a single type resource, including every Pokemon that has it
+ *
+ * @param name - Type name (e.g. "fire")
+ * @returns Type data
+ */
+export const fetchTypeDetail = async (name: string): Promise<TypeDetail> => {
+  const data = await cachedGet<TypeDetail>(`/type/${name}`);
+
+  if (!data) {
+    throw new Error('Invalid response from Pokemon API');
+  }
+
+  return data;
+};
+
+/**
+ * Builds a reverse index of Pokemon ID -> types from the /type endpoints.
+ * PokeAPI list responses don't include types, so this lets list items show
+ * and filter by type without fetching every Pokemon's detail.
+ *
+ * @returns Map of Pokemon ID to its type names in slot order
+ */
+export const fetchPokemonTypeIndex = async (): Promise<Record<number, string[]>> => {
+  const typeDetails = await Promise.all(
+    POKEMON_TYPES.map((type) => fetchTypeDetail(type))
+  );
+
+  const slotsById: Record<number, { slot: number; type: string }[]> = {};
+
+  typeDetails.forEach((typeDetail) => {
+    typeDetail.pokemon.forEach(({ slot, pokemon }) => {
+      const id = extractPokemonId(pokemon.url);
+      if (!id) return;
+      (slotsById[id] = slotsById[id] ?? []).push({ slot, type: typeDetail.name });
+    });
+  });
+
+  const typeIndex: Record<number, string[]> = {};
+  Object.keys(slotsById).forEach((key) => {
+    const id = Number(key);
+    typeIndex[id] = slotsById[id]
+      .sort((a, b) => a.slot - b.slot)
+      .map((entry) => entry.type);
+  });
+
+  return typeIndex;
+};
+
+/**
+ * Builds the type effectiveness chart from every type's damage relations.
+ * Shares cached /type responses with the type index.
+ *
+ * @returns Attacking type -> defending type -> multiplier
+ */
+export const fetchTypeChart = async (): Promise<TypeChart> => {
+  const typeDetails = await Promise.all(
+    POKEMON_TYPES.map((type) => fetchTypeDetail(type))
+  );
+
+  return buildTypeChart(typeDetails);
+};
+
+/**
+ * Fetches a generation resource
+ *
+ * @param id - Generation number (1-9)
+ * @returns Generation data with its species
+ */
+export const fetchGeneration = async (id: number): Promise<GenerationDetail> => {
+  const data = await cachedGet<GenerationDetail>(`/generation/${id}`);
+
+  if (!data) {
+    throw new Error('Invalid response from Pokemon API');
+  }
+
+  return data;
+};
+
+/**
+ * Fetches every generation and groups its species into list items
+ *
+ * @returns One section per generation, with Pokemon in dex order
+ */
+export const fetchGenerationSections = async (): Promise<GenerationSection[]> => {
+  const generations = await Promise.all(
+    Array.from({ length: GENERATION_COUNT }, (_, index) => fetchGeneration(index + 1))
+  );
+
+  return generations
+    .map((generation) => ({
+      id: generation.id,
+      name: generation.name,
+      region: generation.main_region?.name ?? '',
+      pokemon: generation.pokemon_species
+        .map((species) => {
+          const id = extractPokemonId(species.url);
+          return transformPokemonListItem({
+            name: species.name,
+            url: `${API_BASE_URL}/pokemon/${id}/`,
+          });
+        })
+        .filter((pokemon) => pokemon.id > 0)
+        .sort((a, b) => a.id - b.id),
+    }))
+    .sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Fetches a move's details (power, accuracy, PP, type, effect text)
+ *
+ * @param name - Move name (e.g. "thunderbolt")
+ * @returns Move data
+ */
+export const fetchMoveDetail = async (name: string): Promise<MoveDetail> => {
+  const data = await cachedGet<MoveDetail>(`/move/${name}`);
+
+  if (!data) {
+    throw new Error('Invalid response from Pokemon API');
+  }
+
+  return data;
+};
+
+/**
+ * Fetches an ability's details (effect text, generation, Pokemon with it)
+ *
+ * @param name - Ability name (e.g. "lightning-rod")
+ * @returns Ability data
+ */
+export const fetchAbilityDetail = async (name: string): Promise<AbilityDetail> => {
+  const data = await cachedGet<AbilityDetail>(`/ability/${name}`);
+
+  if (!data) {
     throw new Error('Invalid response from Pokemon API');
   }
-  
-  return response.data;
+
+  return data;
+};
+
+/**
+ * Transforms an ability to UI-friendly format with text in one language.
+ * Abilities without effect text (newer games) fall back to flavor text.
+ *
+ * @param detail - Ability data from the API
+ * @param language - PokeAPI language code (defaults to the device language)
+ */
+export const transformAbilityDetail = (detail: AbilityDetail, language?: string): Ability => {
+  const name = findLocalizedEntry(detail.names, language);
+  const effect = findLocalizedEntry(detail.effect_entries, language);
+  const flavorText = findLocalizedEntry(detail.flavor_text_entries, language);
+  const fallbackText = flavorText ? cleanFlavorText(flavorText.flavor_text) : '';
+
+  return {
+    id: detail.id,
+    name: detail.name,
+    displayName: name?.name ?? formatName(detail.name),
+    shortEffect: effect ? cleanFlavorText(effect.short_effect) : fallbackText,
+    effect: effect ? effect.effect.trim() : '',
+    generation: extractGenerationId(detail.generation.url),
+    holders: detail.pokemon
+      .map((entry) => ({
+        pokemon: transformPokemonListItem(entry.pokemon),
+        isHidden: entry.is_hidden,
+      }))
+      .filter((holder) => holder.pokemon.id > 0)
+      .sort((a, b) => a.pokemon.id - b.pokemon.id),
+  };
+};
+
+/**
+ * Fetches species data (evolution chain reference, generation, localized names)
+ *
+ * @param idOrName - Species ID or name
+ * @returns Species data
+ */
+export const fetchPokemonSpecies = async (
+  idOrName: number | string
+): Promise<PokemonSpecies> => {
+  const data = await cachedGet<PokemonSpecies>(`/pokemon-species/${idOrName}`);
+
+  if (!data) {
+    throw new Error('Invalid response from Pokemon API');
+  }
+
+  return data;
+};
+
+/**
+ * Fetches an evolution chain
+ *
+ * @param id - Evolution chain ID
+ * @returns Raw evolution chain data
+ */
+export const fetchEvolutionChain = async (id: number): Promise<EvolutionChain> => {
+  const data = await cachedGet<EvolutionChain>(`/evolution-chain/${id}`);
+
+  if (!data) {
+    throw new Error('Invalid response from Pokemon API');
+  }
+
+  return data;
+};
+
+/**
+ * Transforms a chain link (and its branches) into an evolution tree
+ */
+export const transformEvolutionChain = (link: ChainLink): EvolutionNode => {
+  const id = extractPokemonId(link.species.url);
+
+  return {
+    id,
+    name: link.species.name,
+    imageUrl: getPokemonImageUrl(id),
+    triggers: formatEvolutionTriggers(link.evolution_details),
+    evolvesTo: link.evolves_to.map(transformEvolutionChain),
+  };
+};
+
+/**
+ * Fetches the evolution tree a Pokemon belongs to
+ *
+ * @param speciesIdOrName - Species ID or name (alternate forms share their species)
+ * @returns Root of the evolution tree, or null when the species has no chain
+ */
+export const fetchEvolutionTree = async (
+  speciesIdOrName: number | string
+): Promise<EvolutionNode | null> => {
+  const species = await fetchPokemonSpecies(speciesIdOrName);
+  const chainId = species.evolution_chain
+    ? extractEvolutionChainId(species.evolution_chain.url)
+    : 0;
+
+  if (!chainId) {
+    return null;
+  }
+
+  const evolutionChain = await fetchEvolutionChain(chainId);
+  return transformEvolutionChain(evolutionChain.chain);
+};
+
+const STAT_SUMMARY_QUERY = `
+  query StatSummaries {
+    pokemon: pokemon_v2_pokemon(where: { is_default: { _eq: true } }) {
+      id
+      height
+      weight
+      stats: pokemon_v2_pokemonstats {
+        base_stat
+        stat: pokemon_v2_stat {
+          name
+        }
+      }
+      abilities: pokemon_v2_pokemonabilities {
+        ability: pokemon_v2_ability {
+          name
+        }
+      }
+      species: pokemon_v2_pokemonspecy {
+        generation_id
+        is_legendary
+        is_mythical
+      }
+    }
+  }
+`;
+
+interface StatSummaryQueryResponse {
+  data?: {
+    pokemon: {
+      id: number;
+      height: number;
+      weight: number;
+      stats: { base_stat: number; stat: { name: string } }[];
+      abilities: { ability: { name: string } | null }[];
+      species: { generation_id: number; is_legendary: boolean; is_mythical: boolean } | null;
+    }[];
+  };
+  errors?: { message: string }[];
+}
+
+/**
+ * Fetches base stats, size, abilities, and species flags for every default
+ * Pokemon in a single GraphQL request, so the list can be sorted and queried
+ * without per-card calls. The compact result is cached for a week.
+ *
+ * @returns Stat summaries by Pokemon ID
+ */
+export const fetchStatSummaries = async (): Promise<Record<number, PokemonStatSummary>> => {
+  const cacheKey = buildCacheKey('/graphql/stat-summaries', { version: 2 });
+
+  return cachedRequest(cacheKey, async (signal) => {
+    const response = await apiClient.post<StatSummaryQueryResponse>(
+      GRAPHQL_URL,
+      { query: STAT_SUMMARY_QUERY },
+      { signal }
+    );
+
+    const pokemon = response?.data?.data?.pokemon;
+    if (!Array.isArray(pokemon)) {
+      throw new Error(response?.data?.errors?.[0]?.message ?? 'Invalid response from Pokemon API');
+    }
+
+    const summaries: Record<number, PokemonStatSummary> = {};
+    pokemon.forEach((entry) => {
+      const stats: Record<string, number> = {};
+      entry.stats.forEach(({ base_stat, stat }) => {
+        stats[stat.name] = base_stat;
+      });
+
+      summaries[entry.id] = {
+        id: entry.id,
+        height: entry.height,
+        weight: entry.weight,
+        total: Object.values(stats).reduce((sum, value) => sum + value, 0),
+        stats,
+        abilities: entry.abilities
+          .map(({ ability }) => ability?.name)
+          .filter((name): name is string => !!name),
+        generation: entry.species?.generation_id ?? 0,
+        isLegendary: !!entry.species?.is_legendary,
+        isMythical: !!entry.species?.is_mythical,
+      };
+    });
+
+    return summaries;
+  });
+};
+
+const LOCALIZED_NAMES_QUERY = `
+  query LocalizedNames($language: String!) {
+    species: pokemon_v2_pokemonspeciesname(
+      where: { pokemon_v2_language: { name: { _eq: $language } } }
+    ) {
+      name
+      pokemon_species_id
+    }
+    abilities: pokemon_v2_abilityname(
+      where: { pokemon_v2_language: { name: { _eq: $language } } }
+    ) {
+      name
+      ability: pokemon_v2_ability {
+        name
+      }
+    }
+    moves: pokemon_v2_movename(
+      where: { pokemon_v2_language: { name: { _eq: $language } } }
+    ) {
+      name
+      move: pokemon_v2_move {
+        name
+      }
+    }
+  }
+`;
+
+interface LocalizedNamesQueryResponse {
+  data?: {
+    species: { name: string; pokemon_species_id: number | null }[];
+    abilities: { name: string; ability: { name: string } | null }[];
+    moves: { name: string; move: { name: string } | null }[];
+  };
+  errors?: { message: string }[];
+}
+
+/**
+ * Fetches Pokemon, ability, and move names in one language with a single
+ * GraphQL request, so lists and search can use them without per-item calls.
+ * Cached for a week per language.
+ *
+ * @param language - PokeAPI language code (e.g. "de", "ja-Hrkt")
+ * @returns Display names keyed by species ID and by ability and move name
+ */
+export const fetchLocalizedNames = async (language: string): Promise<LocalizedNames> => {
+  const cacheKey = buildCacheKey('/graphql/localized-names', { language });
+
+  return cachedRequest(cacheKey, async (signal) => {
+    const response = await apiClient.post<LocalizedNamesQueryResponse>(
+      GRAPHQL_URL,
+      { query: LOCALIZED_NAMES_QUERY, variables: { language } },
+      { signal }
+    );
+
+    const data = response?.data?.data;
+    if (!data || !Array.isArray(data.species)) {
+      throw new Error(response?.data?.errors?.[0]?.message ?? 'Invalid response from Pokemon API');
+    }
+
+    const names: LocalizedNames = { language, pokemon: {}, abilities: {}, moves: {} };
+
+    data.species.forEach((entry) => {
+      if (entry.pokemon_species_id) names.pokemon[entry.pokemon_species_id] = entry.name;
+    });
+    data.abilities.forEach((entry) => {
+      if (entry.ability) names.abilities[entry.ability.name] = entry.name;
+    });
+    data.moves.forEach((entry) => {
+      if (entry.move) names.moves[entry.move.name] = entry.name;
+    });
+
+    return names;
+  });
+};
+
+/**
+ * Converts a detail payload into a list item
+ */
+export const transformPokemonDetail = (detail: PokemonDetail): Pokemon => {
+  return {
+    id: detail.id,
+    name: detail.name,
+    url: `${API_BASE_URL}/pokemon/${detail.id}/`,
+    imageUrl: getPokemonImageUrl(detail.id),
+    types: detail.types.map((typeInfo) => typeInfo.type.name),
+  };
 };
 
 /**
@@ -130,48 +675,60 @@ export const searchPokemonByName = async (
   name: string
 ): Promise<PokemonDetail | null> => {
   try {
-    const response = await apiClient.get<PokemonDetail>(
-      `/pokemon/${name.toLowerCase()}`
-    );
-    return response.data;
+    // Lookups run on every keystroke miss; a failed guess isn't worth retrying
+    return await cachedGet<PokemonDetail>(`/pokemon/${name.toLowerCase()}`, undefined, {
+      retry: false,
+    });
   } catch (error) {
-    if (axios.isAxiosError(error) && error.response?.status === 404) {
+    if (isNotFoundError(error)) {
       return null;
     }
     throw error;
   }
 };
 
+/**
+ * Checks whether a request failed because the resource doesn't exist
+ */
+export const isNotFoundError = (error: unknown): boolean => {
+  return toApiError(error).kind === 'not-found';
+};
+
+/**
+ * Checks whether a request was cancelled by its caller
+ */
+export const isCancelledError = (error: unknown): boolean => {
+  return toApiError(error).kind === 'cancelled';
+};
+
 /**
  * Formats error messages for user display
  */
 export const getErrorMessage = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    if (error.code === 'ECONNABORTED') {
-      return 'Request timed out. Please check your connection and try again.';
-    }
-    if (!error.response) {
-      return 'Network error. Please check your internet connection.';
-    }
-    switch (error.response.status) {
-      case 404:
-        return 'Pokemon not found.';
-      case 429:
-        return 'Too many requests. Please wait a moment and try again.';
-      case 500:
-      case 502:
-      case 503:
-        return 'Server error. Please try again later.';
-      default:
-        return 'An unexpected error occurred. Please try again.';
-    }
-  }
+  const apiError = toApiError(error);
 
-  if (error instanceof Error) {
-    return error.message;
+  switch (apiError.kind) {
+    case 'timeout':
+      return t('errors.timeout');
+    case 'network':
+      return t('errors.network');
+    case 'not-found':
+      return t('errors.notFound');
+    case 'rate-limited':
+      return apiError.retryAfterMs
+        ? t('errors.rateLimitedWait', { seconds: Math.ceil(apiError.retryAfterMs / 1000) })
+        : t('errors.rateLimited');
+    case 'server':
+      return t('errors.server');
+    case 'cancelled':
+      return t('errors.cancelled');
+    default:
+      // Plain errors (e.g. invalid responses) carry a readable message
+      if (apiError.status === undefined && error instanceof Error && !(error instanceof ApiError)) {
+        return error.message;
+      }
+      return t('errors.unexpected');
   }
-
-  return 'An unknown error occurred. Please try again.';
 };
 
 export default apiClient;
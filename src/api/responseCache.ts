@@ -0,0 +1,385 @@
+/**
+ * Persistent response cache for PokeAPI requests.
+ * Entries live in AsyncStorage with per-endpoint TTLs, stale entries are served
+ * immediately while being revalidated, and the cache is kept under a size cap
+ * with least-recently-used eviction.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiError } from './errors';
+
+const STORAGE_PREFIX = '@pokemon-explorer/cache:';
+const INDEX_KEY = '@pokemon-explorer/cache-index';
+const MAX_CACHE_SIZE = 5 * 1024 * 1024; // ~5 MB of serialized JSON
+const INDEX_PERSIST_DELAY = 1000;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * TTL policies per endpoint, first match wins.
+ * PokeAPI data is effectively static, so detail payloads can live for a week.
+ */
+const TTL_POLICIES: { pattern: RegExp; ttl: number }[] = [
+  { pattern: /^\/pokemon\/[^/?]+$/, ttl: 7 * DAY },
+  { pattern: /^\/pokemon-species(\/[^/?]+)?(\?|$)/, ttl: 7 * DAY },
+  { pattern: /^\/evolution-chain\/[^/?]+$/, ttl: 7 * DAY },
+  { pattern: /^\/type\/[^/?]+$/, ttl: 7 * DAY },
+  { pattern: /^\/generation\/[^/?]+$/, ttl: 7 * DAY },
+  { pattern: /^\/move\/[^/?]+$/, ttl: 7 * DAY },
+  { pattern: /^\/ability\/[^/?]+$/, ttl: 7 * DAY },
+  { pattern: /^\/graphql\//, ttl: 7 * DAY },
+  { pattern: /^\/pokemon(\?|$)/, ttl: DAY },
+];
+
+const DEFAULT_TTL = HOUR;
+
+interface CacheEntry<T> {
+  data: T;
+  storedAt: number;
+}
+
+interface CacheIndexEntry {
+  size: number;
+  storedAt: number;
+  lastAccessed: number;
+}
+
+type CacheIndex = Record<string, CacheIndexEntry>;
+
+export interface CachedRequestOptions {
+  /** Overrides the endpoint TTL in milliseconds */
+  ttl?: number;
+  /** Skips fresh entries and goes to the network, falling back to cache when offline */
+  forceRefresh?: boolean;
+  /** Cancels this caller's wait; the network request is aborted once no caller needs it */
+  signal?: AbortSignal;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers waiting with an abort signal */
+  cancellableSubscribers: number;
+  /** Set once a caller without a signal waits; the request then always completes */
+  pinned: boolean;
+}
+
+interface MemoryCacheEntry {
+  entry: CacheEntry<unknown>;
+  size: number;
+}
+
+/**
+ * Decoded entries, least recently used first (Map keeps insertion order)
+ */
+const memoryCache = new Map<string, MemoryCacheEntry>();
+let memoryCacheSize = 0;
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+let cacheIndex: CacheIndex | null = null;
+let indexLoadPromise: Promise<CacheIndex> | null = null;
+let indexPersistTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Bumped by clearResponseCache; writes that started before a clear are dropped
+ */
+let cacheGeneration = 0;
+
+/**
+ * Builds a stable cache key from an endpoint path and its query params
+ * Example: ("/pokemon", { offset: 0, limit: 20 }) -> "/pokemon?limit=20&offset=0"
+ */
+export const buildCacheKey = (
+  url: string,
+  params?: Record<string, string | number | undefined>
+): string => {
+  if (!params) return url;
+
+  const query = Object.keys(params)
+    .filter((key) => params[key] !== undefined)
+    .sort()
+    .map((key) => `${key}=${encodeURIComponent(String(params[key]))}`)
+    .join('&');
+
+  return query ? `${url}?${query}` : url;
+};
+
+/**
+ * Resolves the TTL for a cache key from the endpoint policies
+ */
+export const getTtlForKey = (key: string): number => {
+  const policy = TTL_POLICIES.find(({ pattern }) => pattern.test(key));
+  return policy ? policy.ttl : DEFAULT_TTL;
+};
+
+const loadIndex = (): Promise<CacheIndex> => {
+  if (cacheIndex) return Promise.resolve(cacheIndex);
+
+  if (!indexLoadPromise) {
+    indexLoadPromise = AsyncStorage.getItem(INDEX_KEY)
+      .then((raw) => (raw ? (JSON.parse(raw) as CacheIndex) : {}))
+      .catch(() => ({}))
+      .then((index) => {
+        cacheIndex = index;
+        return index;
+      });
+  }
+
+  return indexLoadPromise;
+};
+
+const schedulePersistIndex = () => {
+  if (indexPersistTimer) return;
+
+  indexPersistTimer = setTimeout(() => {
+    indexPersistTimer = null;
+    if (cacheIndex) {
+      AsyncStorage.setItem(INDEX_KEY, JSON.stringify(cacheIndex)).catch(() => {});
+    }
+  }, INDEX_PERSIST_DELAY);
+};
+
+const forgetMemoryEntry = (key: string) => {
+  const cached = memoryCache.get(key);
+  if (!cached) return;
+
+  memoryCacheSize -= cached.size;
+  memoryCache.delete(key);
+};
+
+/**
+ * Keeps a decoded entry in memory as the most recently used one, dropping
+ * the least recently used ones beyond the same size cap as storage
+ */
+const rememberEntry = (key: string, entry: CacheEntry<unknown>, size: number) => {
+  forgetMemoryEntry(key);
+  memoryCache.set(key, { entry, size });
+  memoryCacheSize += size;
+
+  for (const oldestKey of memoryCache.keys()) {
+    if (memoryCacheSize <= MAX_CACHE_SIZE || oldestKey === key) break;
+    forgetMemoryEntry(oldestKey);
+  }
+};
+
+/**
+ * Removes least-recently-used entries until the cache fits under its size cap
+ */
+const evictIfNeeded = async (index: CacheIndex): Promise<void> => {
+  let totalSize = Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+  if (totalSize <= MAX_CACHE_SIZE) return;
+
+  const byLastAccess = Object.keys(index).sort(
+    (a, b) => index[a].lastAccessed - index[b].lastAccessed
+  );
+
+  const evicted: string[] = [];
+  for (const key of byLastAccess) {
+    if (totalSize <= MAX_CACHE_SIZE) break;
+    totalSize -= index[key].size;
+    delete index[key];
+    forgetMemoryEntry(key);
+    evicted.push(key);
+  }
+
+  if (evicted.length > 0) {
+    await AsyncStorage.multiRemove(evicted.map((key) => STORAGE_PREFIX + key));
+  }
+};
+
+const readEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const index = await loadIndex();
+  const indexEntry = index[key];
+  if (!indexEntry) return null;
+
+  const cached = memoryCache.get(key);
+  let entry = cached?.entry as CacheEntry<T> | undefined;
+
+  if (cached) {
+    rememberEntry(key, cached.entry, cached.size);
+  } else {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+      if (!raw) {
+        delete index[key];
+        schedulePersistIndex();
+        return null;
+      }
+      entry = JSON.parse(raw) as CacheEntry<T>;
+      rememberEntry(key, entry, raw.length);
+    } catch {
+      return null;
+    }
+  }
+
+  indexEntry.lastAccessed = Date.now();
+  schedulePersistIndex();
+
+  return entry;
+};
+
+const writeEntry = async <T>(key: string, data: T): Promise<void> => {
+  const generation = cacheGeneration;
+  const entry: CacheEntry<T> = { data, storedAt: Date.now() };
+
+  try {
+    const serialized = JSON.stringify(entry);
+    rememberEntry(key, entry, serialized.length);
+
+    const index = await loadIndex();
+    if (generation !== cacheGeneration) return;
+
+    index[key] = {
+      size: serialized.length,
+      storedAt: entry.storedAt,
+      lastAccessed: entry.storedAt,
+    };
+
+    await AsyncStorage.setItem(STORAGE_PREFIX + key, serialized);
+    if (generation !== cacheGeneration) {
+      // Cleared mid-write; don't leave behind an entry the new index doesn't list
+      await AsyncStorage.removeItem(STORAGE_PREFIX + key);
+      return;
+    }
+
+    await evictIfNeeded(index);
+    schedulePersistIndex();
+  } catch (error) {
+    console.warn('Failed to persist cache entry:', key, error);
+  }
+};
+
+const createCancelledError = (key: string): ApiError => {
+  return new ApiError('cancelled', 'Request was cancelled', { url: key });
+};
+
+/**
+ * Runs the fetcher once per key at a time and stores its result.
+ * Concurrent callers share the request; it is only aborted after every
+ * caller waiting on it has cancelled.
+ */
+const fetchAndStore = <T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (signal?.aborted) {
+    return Promise.reject(createCancelledError(key));
+  }
+
+  let inFlight = inFlightRequests.get(key);
+
+  if (!inFlight) {
+    const controller = new AbortController();
+    const generation = cacheGeneration;
+    const promise: Promise<T> = fetcher(controller.signal)
+      .then(async (data) => {
+        // Responses that started before a clear still reach their callers but aren't stored
+        if (data !== undefined && data !== null && generation === cacheGeneration) {
+          await writeEntry(key, data);
+        }
+        return data;
+      })
+      .finally(() => {
+        if (inFlightRequests.get(key)?.promise === promise) {
+          inFlightRequests.delete(key);
+        }
+      });
+
+    inFlight = {
+      promise,
+      controller,
+      cancellableSubscribers: 0,
+      pinned: !!false,
+    };
+    inFlightRequests.set(key, inFlight);
+  }
+
+  const request = inFlight;
+  const shared = request.promise as Promise<T>;
+
+  if (!signal) {
+    request.pinned = !!true;
+    return shared;
+  }
+
+  request.cancellableSubscribers += 1;
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      request.cancellableSubscribers -= 1;
+      if (request.cancellableSubscribers === 0 && !request.pinned) {
+        request.controller.abort();
+      }
+      reject(createCancelledError(key));
+    };
+
+    signal.addEventListener('abort', handleAbort);
+
+    shared.then(resolve, reject).finally(() => {
+      signal.removeEventListener('abort', handleAbort);
+    });
+  });
+};
+
+/**
+ * Returns cached data for a key, fetching it when missing
+ *
+ * - Fresh entries are returned without touching the network
+ * - Stale entries are returned immediately and revalidated in the background
+ * - When the network fails, any stored entry is used as an offline fallback
+ *
+ * @param key - Cache key, usually from buildCacheKey
+ * @param fetcher - Performs the network request, honoring the given abort signal
+ * @param options - TTL override, refresh behavior, and cancellation signal
+ */
+export const cachedRequest = async <T>(
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  options: CachedRequestOptions = {}
+): Promise<T> => {
+  const ttl = options.ttl ?? getTtlForKey(key);
+  const entry = await readEntry<T>(key);
+
+  if (entry && !options.forceRefresh) {
+    const isStale = Date.now() - entry.storedAt >= ttl;
+
+    if (isStale) {
+      fetchAndStore(key, fetcher).catch(() => {
+        // Keep serving the stale entry; the next read will try again
+      });
+    }
+
+    return entry.data;
+  }
+
+  try {
+    return await fetchAndStore(key, fetcher, options.signal);
+  } catch (error) {
+    if (entry && !options.signal?.aborted) {
+      return entry.data;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Removes every cached response from memory and device storage.
+ * Requests already in flight finish for their callers but aren't stored,
+ * and later callers start fresh requests instead of joining them.
+ */
+export const clearResponseCache = async (): Promise<void> => {
+  cacheGeneration += 1;
+  inFlightRequests.clear();
+
+  const index = await loadIndex();
+  const keys = Object.keys(index).map((key) => STORAGE_PREFIX + key);
+
+  memoryCache.clear();
+  memoryCacheSize = 0;
+  cacheIndex = {};
+
+  await AsyncStorage.multiRemove([...keys, INDEX_KEY]);
+};
@@ -0,0 +1,115 @@
+/**
+ * Automatic retry policy for idempotent requests.
+ * Retries transient failures with exponential backoff and full jitter,
+ * honoring Retry-After on 429/503 responses.
+ */
+
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { ApiError, toApiError } from './errors';
+
+export interface RetryOptions {
+  /** Maximum retries after the first attempt */
+  retries: number;
+  /** Backoff base; attempt n waits up to baseDelayMs * 2^n */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Give up instead of waiting when Retry-After asks for longer than this */
+  maxRetryAfterMs: number;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Per-request retry budget, or false to opt out */
+    retry?: Partial<RetryOptions> | false;
+    /** Retries already performed for this request (internal) */
+    retryCount?: number;
+  }
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Full-jitter exponential backoff delay for a retry attempt (0-based)
+ */
+export const getBackoffDelay = (attempt: number, options: RetryOptions): number => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * Waits for a delay, rejecting early if the request is aborted
+ */
+const wait = (delayMs: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request was cancelled'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', handleAbort);
+      resolve();
+    }, delayMs);
+
+    function handleAbort() {
+      clearTimeout(timer);
+      reject(new Error('Request was cancelled'));
+    }
+
+    signal?.addEventListener?.('abort', handleAbort);
+  });
+};
+
+/**
+ * Registers the retry interceptor on an axios instance.
+ * Must be registered before interceptors that transform errors.
+ */
+export const attachRetryInterceptor = (client: AxiosInstance): void => {
+  client.interceptors.response.use(
+    (response) => response,
+    async (error: AxiosError) => {
+      const config = error.config as InternalAxiosRequestConfig | undefined;
+
+      if (!config || config.retry === false) {
+        return Promise.reject(error);
+      }
+
+      const method = (config.method ?? 'get').toLowerCase();
+      if (!IDEMPOTENT_METHODS.includes(method)) {
+        return Promise.reject(error);
+      }
+
+      const options: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...config.retry };
+      const attempt = config.retryCount ?? 0;
+      const apiError = toApiError(error);
+
+      if (!apiError.isRetryable || attempt >= options.retries) {
+        return Promise.reject(error);
+      }
+
+      const delay = apiError.retryAfterMs ?? getBackoffDelay(attempt, options);
+      if (delay > options.maxRetryAfterMs) {
+        return Promise.reject(error);
+      }
+
+      try {
+        await wait(delay, config.signal as AbortSignal | undefined);
+      } catch {
+        return Promise.reject(
+          new ApiError('cancelled', 'Request was cancelled', { url: config.url })
+        );
+      }
+
+      config.retryCount = attempt + 1;
+      return client.request(config);
+    }
+  );
+};
@@ -0,0 +1,198 @@
+/**
+ * Evolution tree component for the detail screen.
+ * Renders linear chains left to right and stacks branches (e.g. Eevee) vertically.
+ */
+
+import React, { memo } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { usePokemonStore, selectPokemonName } from '../store/pokemonStore';
+import { EvolutionNode } from '../types';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface EvolutionTreeProps {
+  root: EvolutionNode;
+  currentPokemonId: number;
+  onSelect: (node: EvolutionNode) => void;
+}
+
+interface EvolutionStageProps {
+  node: EvolutionNode;
+  currentPokemonId: number;
+  onSelect: (node: EvolutionNode) => void;
+}
+
+/**
+ * EvolutionStage - A node followed by every branch it evolves into
+ */
+const EvolutionStage: React.FC<EvolutionStageProps> = ({
+  node,
+  currentPokemonId,
+  onSelect,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  const isCurrent = node.id === currentPokemonId;
+  const displayName = usePokemonStore(selectPokemonName(node.id, node.name));
+
+  return (
+    <View style={styles.stage}>
+      <TouchableOpacity
+        style={[styles.node, isCurrent && styles.nodeCurrent]}
+        onPress={() => onSelect(node)}
+        disabled={isCurrent}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={displayName}
+        accessibilityHint={isCurrent ? undefined : t('a11y.openDetails')}
+        accessibilityState={{ selected: isCurrent, disabled: isCurrent }}
+      >
+        <Image
+          source={{ uri: node.imageUrl }}
+          style={styles.nodeImage}
+          resizeMode="contain"
+        />
+        <Text style={styles.nodeName} numberOfLines={1}>
+          {displayName}
+        </Text>
+      </TouchableOpacity>
+
+      {node.evolvesTo.length > 0 && (
+        <View style={styles.branches}>
+          {node.evolvesTo.map((child) => (
+            <View key={child.id} style={styles.branch}>
+              <View style={styles.arrowContainer}>
+                <Text style={styles.arrow}>→</Text>
+                {child.triggers.map((trigger) => (
+                  <Text key={trigger} style={styles.trigger}>
+                    {trigger}
+                  </Text>
+                ))}
+              </View>
+              <EvolutionStage
+                node={child}
+                currentPokemonId={currentPokemonId}
+                onSelect={onSelect}
+              />
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+/**
+ * EvolutionTree - Scrollable evolution chain with trigger labels
+ *
+ * @param root - Root of the evolution tree (the base form)
+ * @param currentPokemonId - Highlighted Pokemon (not tappable)
+ * @param onSelect - Callback when another Pokemon in the chain is tapped
+ */
+const EvolutionTree: React.FC<EvolutionTreeProps> = ({
+  root,
+  currentPokemonId,
+  onSelect,
+}) => {
+  const styles = useThemedStyles(createStyles);
+
+  if (root.evolvesTo.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>{t('evolution.none')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={!!false}
+      contentContainerStyle={styles.container}
+    >
+      <EvolutionStage
+        node={root}
+        currentPokemonId={currentPokemonId}
+        onSelect={onSelect}
+      />
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      flexGrow: 1,
+    },
+    stage: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    branches: {
+      justifyContent: 'center',
+    },
+    branch: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginVertical: 4,
+    },
+    node: {
+      width: 84,
+      alignItems: 'center',
+      padding: 8,
+      borderRadius: 14,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.background,
+    },
+    nodeCurrent: {
+      borderColor: colors.accent,
+    },
+    nodeImage: {
+      width: 56,
+      height: 56,
+    },
+    nodeName: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textPrimary,
+      marginTop: 4,
+    },
+    arrowContainer: {
+      width: 76,
+      alignItems: 'center',
+      paddingHorizontal: 4,
+    },
+    arrow: {
+      fontSize: 18,
+      color: colors.textMuted,
+    },
+    trigger: {
+      fontSize: 10,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginTop: 2,
+    },
+    emptyContainer: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      alignItems: 'center',
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+  });
+
+export default memo(EvolutionTree);
@@ -0,0 +1,75 @@
+/**
+ * Heart toggle for adding or removing a Pokemon from favorites.
+ */
+
+import React, { memo } from 'react';
+import { Text, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface FavoriteButtonProps {
+  isFavorite: boolean;
+  onToggle: () => void;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * FavoriteButton - Filled heart when favorited, outline otherwise
+ *
+ * @param isFavorite - Current favorite state
+ * @param onToggle - Callback when tapped
+ * @param size - Heart glyph size (default: 18)
+ * @param style - Container style override (position, background)
+ */
+const FavoriteButton: React.FC<FavoriteButtonProps> = ({
+  isFavorite,
+  onToggle,
+  size = 18,
+  style,
+}) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={onToggle}
+      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityLabel={isFavorite ? t('a11y.removeFavorite') : t('a11y.addFavorite')}
+      accessibilityState={{ selected: isFavorite }}
+    >
+      <Text
+        maxFontSizeMultiplier={1}
+        style={[
+          styles.heart,
+          { fontSize: size, lineHeight: size * 1.2 },
+          isFavorite ? styles.heartActive : styles.heartInactive,
+        ]}
+      >
+        {isFavorite ? '♥' : '♡'}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    button: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    heart: {
+      fontWeight: '700',
+    },
+    heartActive: {
+      color: colors.primary,
+    },
+    heartInactive: {
+      color: colors.textMuted,
+    },
+  });
+
+export default memo(FavoriteButton);
@@ -5,7 +5,9 @@
 
 import React, { memo } from 'react';
 import { View, ActivityIndicator, Text, StyleSheet } from 'react-native';
-import Colors from '../utils/colors';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
 
 interface LoadingFooterProps {
   isLoading: boolean;
@@ -25,11 +27,14 @@ const LoadingFooter: React.FC<LoadingFooterProps> = ({
   hasMore,
   itemCount,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
   if (!!isLoading) {
     return (
       <View style={styles.container}>
-        <ActivityIndicator size="small" color={Colors.primary} animating={!!true} />
-        <Text style={styles.loadingText}>Loading more Pokémon...</Text>
+        <ActivityIndicator size="small" color={colors.primary} animating={!!true} />
+        <Text style={styles.loadingText}>{t('common.loadingMore')}</Text>
       </View>
     );
   }
@@ -38,7 +43,7 @@ const LoadingFooter: React.FC<LoadingFooterProps> = ({
     return (
       <View style={styles.container}>
         <View style={styles.endLine} />
-        <Text style={styles.endText}>You've caught 'em all! 🎉</Text>
+        <Text style={styles.endText}>{t('common.endOfList')}</Text>
         <View style={styles.endLine} />
       </View>
     );
@@ -47,33 +52,34 @@ const LoadingFooter: React.FC<LoadingFooterProps> = ({
   return <View style={styles.spacer} />;
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flexDirection: 'row',
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingVertical: 20,
-    paddingHorizontal: 16,
-  },
-  loadingText: {
-    fontSize: 14,
-    color: Colors.textSecondary,
-    marginLeft: 8,
-  },
-  endLine: {
-    flex: 1,
-    height: 1,
-    backgroundColor: Colors.border,
-  },
-  endText: {
-    fontSize: 14,
-    color: Colors.textMuted,
-    paddingHorizontal: 16,
-  },
-  spacer: {
-    height: 20,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingVertical: 20,
+      paddingHorizontal: 16,
+    },
+    loadingText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginLeft: 8,
+    },
+    endLine: {
+      flex: 1,
+      height: 1,
+      backgroundColor: colors.border,
+    },
+    endText: {
+      fontSize: 14,
+      color: colors.textMuted,
+      paddingHorizontal: 16,
+    },
+    spacer: {
+      height: 20,
+    },
+  });
 
 export default memo(LoadingFooter);
 
@@ -0,0 +1,188 @@
+/**
+ * Bottom sheet showing a move's power, accuracy, PP, type, and effect.
+ */
+
+import React, { memo } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Pressable,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import TypeBadge from './TypeBadge';
+import { useMoveDetail } from '../hooks/useMoveDetail';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { usePokemonStore, selectMoveName } from '../store/pokemonStore';
+import { getMoveEffectText } from '../utils/moves';
+import { formatName } from '../utils/formatters';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface MoveDetailSheetProps {
+  moveName: string | null;
+  onClose: () => void;
+}
+
+/**
+ * Formats a nullable move value (e.g. status moves have no power)
+ */
+const formatValue = (value: number | null, suffix = ''): string =>
+  value === null ? '—' : `${value}${suffix}`;
+
+/**
+ * MoveDetailSheet - Fetches and shows a move when one is selected
+ *
+ * @param moveName - Move to show; the sheet is hidden when null
+ * @param onClose - Callback when the sheet is dismissed
+ */
+const MoveDetailSheet: React.FC<MoveDetailSheetProps> = ({ moveName, onClose }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
+  const { move, isLoading, error, retry } = useMoveDetail(moveName);
+  const displayName = usePokemonStore(selectMoveName(moveName ?? ''));
+
+  return (
+    <Modal
+      visible={moveName !== null}
+      transparent
+      animationType={animationsEnabled ? 'slide' : 'none'}
+      onRequestClose={onClose}
+    >
+      {/* Not focusable, so screen readers reach the sheet; the escape gesture closes it */}
+      <Pressable style={styles.backdrop} onPress={onClose} accessible={!!false}>
+        <Pressable
+          style={[styles.sheet, { paddingBottom: insets.bottom + 24 }]}
+          accessible={!!false}
+        >
+          <View style={styles.handle} />
+
+          <Text style={styles.title}>{moveName ? displayName : ''}</Text>
+
+          {isLoading && !move ? (
+            <ActivityIndicator color={colors.primary} style={styles.loader} />
+          ) : error ? (
+            <TouchableOpacity onPress={retry} activeOpacity={0.8} accessibilityRole="button">
+              <Text style={styles.error}>{t('common.tapToRetry', { error })}</Text>
+            </TouchableOpacity>
+          ) : move ? (
+            <>
+              <View style={styles.tags}>
+                <TypeBadge type={move.type.name} size="small" />
+                <Text style={styles.damageClass}>{formatName(move.damage_class.name)}</Text>
+              </View>
+
+              <View style={styles.statsGrid}>
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>{formatValue(move.power)}</Text>
+                  <Text style={styles.statLabel}>{t('moves.power')}</Text>
+                </View>
+                <View style={styles.statDivider} />
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>{formatValue(move.accuracy, '%')}</Text>
+                  <Text style={styles.statLabel}>{t('moves.accuracy')}</Text>
+                </View>
+                <View style={styles.statDivider} />
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>{formatValue(move.pp)}</Text>
+                  <Text style={styles.statLabel}>{t('moves.pp')}</Text>
+                </View>
+              </View>
+
+              <Text style={styles.effect}>
+                {getMoveEffectText(move) || t('common.noDescription')}
+              </Text>
+            </>
+          ) : null}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    },
+    sheet: {
+      backgroundColor: colors.background,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      paddingHorizontal: 24,
+      paddingTop: 12,
+    },
+    handle: {
+      alignSelf: 'center',
+      width: 40,
+      height: 4,
+      borderRadius: 2,
+      backgroundColor: colors.border,
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      marginBottom: 12,
+    },
+    loader: {
+      marginVertical: 32,
+    },
+    error: {
+      fontSize: 14,
+      color: colors.error,
+      marginVertical: 16,
+    },
+    tags: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    damageClass: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: colors.textSecondary,
+      marginLeft: 12,
+    },
+    statsGrid: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      paddingVertical: 16,
+      marginBottom: 16,
+    },
+    statItem: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    statDivider: {
+      width: 1,
+      backgroundColor: colors.border,
+    },
+    statValue: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    statLabel: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    effect: {
+      fontSize: 15,
+      lineHeight: 22,
+      color: colors.textSecondary,
+    },
+  });
+
+export default memo(MoveDetailSheet);
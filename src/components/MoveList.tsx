@@ -0,0 +1,226 @@
+/**
+ * Learnset list grouped by learn method, with a version group selector.
+ */
+
+import React, { memo, useEffect, useMemo, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import { usePokemonStore, selectLocalizedNames } from '../store/pokemonStore';
+import { PokemonMove } from '../types';
+import { getVersionGroups, groupMovesByMethod } from '../utils/moves';
+import { formatName } from '../utils/formatters';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+/**
+ * Rows shown per group before "Show all"
+ */
+const COLLAPSED_MOVE_COUNT = 12;
+
+interface MoveListProps {
+  moves: PokemonMove[];
+  onSelectMove: (moveName: string) => void;
+}
+
+/**
+ * Formats the level column; level 0 means the move is learned on evolution
+ */
+const formatLevel = (level: number): string =>
+  level > 0 ? t('moves.level', { level }) : t('moves.evolution');
+
+/**
+ * MoveList - Moves a Pokemon learns in the selected game
+ *
+ * @param moves - Learnset from the Pokemon detail
+ * @param onSelectMove - Callback with the move name when a row is tapped
+ */
+const MoveList: React.FC<MoveListProps> = ({ moves, onSelectMove }) => {
+  const styles = useThemedStyles(createStyles);
+  const versionGroups = useMemo(() => getVersionGroups(moves), [moves]);
+  const [versionGroup, setVersionGroup] = useState<string | null>(null);
+  const [expandedMethods, setExpandedMethods] = useState<string[]>([]);
+  const localizedNames = usePokemonStore(selectLocalizedNames);
+
+  // Default to the newest game whenever the learnset changes
+  useEffect(() => {
+    setVersionGroup(versionGroups[0]?.name ?? null);
+    setExpandedMethods([]);
+  }, [versionGroups]);
+
+  const groups = useMemo(
+    () => (versionGroup ? groupMovesByMethod(moves, versionGroup) : []),
+    [moves, versionGroup]
+  );
+
+  const toggleExpanded = (method: string) => {
+    setExpandedMethods((current) =>
+      current.includes(method)
+        ? current.filter((entry) => entry !== method)
+        : [...current, method]
+    );
+  };
+
+  if (versionGroups.length === 0) {
+    return <Text style={styles.emptyText}>{t('moves.none')}</Text>;
+  }
+
+  return (
+    <View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={!!false}
+        contentContainerStyle={styles.versions}
+      >
+        {versionGroups.map((group) => {
+          const isSelected = group.name === versionGroup;
+          return (
+            <TouchableOpacity
+              key={group.name}
+              style={[styles.versionChip, isSelected && styles.versionChipSelected]}
+              onPress={() => setVersionGroup(group.name)}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Text style={[styles.versionText, isSelected && styles.versionTextSelected]}>
+                {formatName(group.name)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {groups.map((group) => {
+        const isExpanded = expandedMethods.includes(group.method);
+        const visibleMoves = isExpanded
+          ? group.moves
+          : group.moves.slice(0, COLLAPSED_MOVE_COUNT);
+
+        return (
+          <View key={group.method} style={styles.group}>
+            <Text style={styles.groupTitle}>
+              {group.label} <Text style={styles.groupCount}>({group.moves.length})</Text>
+            </Text>
+
+            {visibleMoves.map((move) => {
+              const moveName = localizedNames.moves[move.name] ?? formatName(move.name);
+              const isLevelUp = group.method === 'level-up';
+
+              return (
+                <TouchableOpacity
+                  key={`${group.method}-${move.name}-${move.level}`}
+                  style={styles.moveRow}
+                  onPress={() => onSelectMove(move.name)}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel={
+                    isLevelUp ? `${formatLevel(move.level)}, ${moveName}` : moveName
+                  }
+                  accessibilityHint={t('a11y.openDetails')}
+                >
+                  {isLevelUp && <Text style={styles.moveLevel}>{formatLevel(move.level)}</Text>}
+                  <Text style={styles.moveName}>{moveName}</Text>
+                  <Text style={styles.moveChevron}>›</Text>
+                </TouchableOpacity>
+              );
+            })}
+
+            {group.moves.length > COLLAPSED_MOVE_COUNT && (
+              <TouchableOpacity
+                onPress={() => toggleExpanded(group.method)}
+                activeOpacity={0.8}
+                accessibilityRole="button"
+                accessibilityState={{ expanded: isExpanded }}
+              >
+                <Text style={styles.showMore}>
+                  {isExpanded
+                    ? t('moves.showLess')
+                    : t('moves.showAll', { count: group.moves.length })}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    versions: {
+      paddingBottom: 12,
+    },
+    versionChip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginRight: 8,
+    },
+    versionChipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    versionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    versionTextSelected: {
+      color: colors.white,
+    },
+    group: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      marginBottom: 12,
+    },
+    groupTitle: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 8,
+    },
+    groupCount: {
+      fontWeight: '500',
+      color: colors.textMuted,
+    },
+    moveRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderTopWidth: StyleSheet.hairlineWidth,
+      borderTopColor: colors.border,
+    },
+    moveLevel: {
+      width: 52,
+      fontSize: 13,
+      fontWeight: '700',
+      color: colors.textMuted,
+    },
+    moveName: {
+      flex: 1,
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    moveChevron: {
+      fontSize: 20,
+      color: colors.textMuted,
+    },
+    showMore: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.primary,
+      paddingTop: 10,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+  });
+
+export default memo(MoveList);
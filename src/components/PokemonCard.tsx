@@ -10,65 +10,166 @@ import {
   Image,
   StyleSheet,
   TouchableOpacity,
-  Dimensions,
+  AccessibilityActionEvent,
 } from 'react-native';
+import TypeBadge from './TypeBadge';
+import FavoriteButton from './FavoriteButton';
+import { usePokemonStore, selectPokemonName } from '../store/pokemonStore';
 import { Pokemon } from '../types';
-import Colors from '../utils/colors';
+import { formatPokemonAccessibilityLabel } from '../utils/formatters';
+import { CARD_ASPECT_RATIO, CARD_MARGIN, CARD_SPACING } from '../utils/layout';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
 
-const { width } = Dimensions.get('window');
-const CARD_MARGIN = 8;
-const CARD_WIDTH = (width - 48 - CARD_MARGIN) / 2;
+/**
+ * Cards have a fixed size for the grid, so large accessibility text sizes
+ * are capped rather than pushing the name and types out of the card
+ */
+const MAX_FONT_SCALE = 1.3;
 
 interface PokemonCardProps {
   pokemon: Pokemon;
+  width: number;
   onPress: (pokemon: Pokemon) => void;
+  isFavorite?: boolean;
+  onToggleFavorite?: (pokemon: Pokemon) => void;
+  tag?: string;
+  isSelected?: boolean;
 }
 
 /**
  * PokemonCard - Renders a single Pokemon item in the list
+ *
+ * Screen readers hear the whole card as one button; favoriting is offered
+ * as a custom action since the heart can't be reached inside it.
  * 
  * @param pokemon - Pokemon data to display
+ * @param width - Card width from the grid layout (height follows the aspect ratio)
  * @param onPress - Callback when card is pressed
+ * @param isFavorite - Shows a filled heart when true
+ * @param onToggleFavorite - Callback for the heart button and long-press
+ * @param tag - Short label shown in the top-left corner (e.g. "Hidden")
+ * @param isSelected - Outlines the card whose detail is open in split view
  */
-const PokemonCard: React.FC<PokemonCardProps> = ({ pokemon, onPress }) => {
-  if (!pokemon) {
-    return null;
-  }
+const PokemonCard: React.FC<PokemonCardProps> = ({
+  pokemon,
+  width,
+  onPress,
+  isFavorite = !!false,
+  onToggleFavorite,
+  tag,
+  isSelected = !!false,
+}) => {
+  const styles = useThemedStyles(createStyles);
 
   const handlePress = useCallback(() => {
     onPress(pokemon);
   }, [pokemon, onPress]);
 
+  const handleToggleFavorite = useCallback(() => {
+    onToggleFavorite?.(pokemon);
+  }, [pokemon, onToggleFavorite]);
+
+  const formattedName = usePokemonStore(selectPokemonName(pokemon.id, pokemon.name));
+
   const formattedId = `#${String(pokemon?.id ?? 0).padStart(3, '0')}`;
-  const formattedName =
-    (pokemon?.name ?? 'Unknown').charAt(0).toUpperCase() + (pokemon?.name ?? 'Unknown').slice(1);
+
+  const accessibilityLabel = [
+    formatPokemonAccessibilityLabel(pokemon.id, formattedName, pokemon.types),
+    tag,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  const handleAccessibilityAction = useCallback(
+    (event: AccessibilityActionEvent) => {
+      if (event.nativeEvent.actionName === 'toggleFavorite') {
+        handleToggleFavorite();
+      }
+    },
+    [handleToggleFavorite]
+  );
 
   return (
     <TouchableOpacity
-      style={styles.card}
+      style={[
+        styles.card,
+        { width, height: width * CARD_ASPECT_RATIO },
+        isSelected && styles.cardSelected,
+      ]}
       onPress={handlePress}
+      onLongPress={onToggleFavorite ? handleToggleFavorite : undefined}
       activeOpacity={0.85}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityHint={t('a11y.openDetails')}
+      accessibilityState={onToggleFavorite ? { selected: isFavorite } : undefined}
+      accessibilityActions={
+        onToggleFavorite
+          ? [
+              {
+                name: 'toggleFavorite',
+                label: isFavorite ? t('a11y.removeFavorite') : t('a11y.addFavorite'),
+              },
+            ]
+          : undefined
+      }
+      onAccessibilityAction={onToggleFavorite ? handleAccessibilityAction : undefined}
     >
       <View style={styles.gradientOverlay} />
+
+      {onToggleFavorite && (
+        <FavoriteButton
+          isFavorite={isFavorite}
+          onToggle={handleToggleFavorite}
+          style={styles.favoriteButton}
+        />
+      )}
+
+      {tag && (
+        <View style={[styles.tag, onToggleFavorite && styles.tagBelowFavorite]}>
+          <Text style={styles.tagText} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+            {tag}
+          </Text>
+        </View>
+      )}
       
       <View style={styles.idBadge}>
-        <Text style={styles.idText}>{formattedId}</Text>
+        <Text style={styles.idText} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+          {formattedId}
+        </Text>
       </View>
 
       <View style={styles.imageContainer}>
         {pokemon?.imageUrl ? (
           <Image
             source={{ uri: pokemon.imageUrl }}
-            style={styles.image}
+            style={{ width: width * 0.7, height: width * 0.7 }}
             resizeMode="contain"
           />
         ) : null}
       </View>
 
       <View style={styles.nameContainer}>
-        <Text style={styles.name} numberOfLines={1}>
+        <Text
+          style={styles.name}
+          numberOfLines={1}
+          adjustsFontSizeToFit={!!true}
+          minimumFontScale={0.8}
+          maxFontSizeMultiplier={MAX_FONT_SCALE}
+        >
           {formattedName}
         </Text>
+        {pokemon.types.length > 0 && (
+          <View style={styles.typesRow}>
+            {pokemon.types.map((type) => (
+              <View key={type} style={styles.typeBadgeWrapper}>
+                <TypeBadge type={type} size="small" maxFontSizeMultiplier={MAX_FONT_SCALE} />
+              </View>
+            ))}
+          </View>
+        )}
       </View>
 
       <View style={styles.pokeballDecoration}>
@@ -81,101 +182,133 @@ const PokemonCard: React.FC<PokemonCardProps> = ({ pokemon, onPress }) => {
   );
 };
 
-const styles = StyleSheet.create({
-  card: {
-    width: CARD_WIDTH,
-    height: CARD_WIDTH * 1.2,
-    backgroundColor: Colors.surface,
-    borderRadius: 20,
-    marginBottom: 16,
-    marginHorizontal: CARD_MARGIN / 2,
-    overflow: 'hidden',
-    borderWidth: 1,
-    borderColor: Colors.border,
-    shadowColor: Colors.black,
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.2,
-    shadowRadius: 8,
-    elevation: 5,
-  },
-  gradientOverlay: {
-    ...StyleSheet.absoluteFillObject,
-    backgroundColor: Colors.surfaceLight,
-    opacity: 0.3,
-    borderRadius: 20,
-  },
-  idBadge: {
-    position: 'absolute',
-    top: 12,
-    right: 12,
-    backgroundColor: Colors.background,
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-    borderRadius: 8,
-    zIndex: 10,
-  },
-  idText: {
-    fontSize: 12,
-    fontWeight: '700',
-    color: Colors.textMuted,
-    letterSpacing: 0.5,
-  },
-  imageContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingTop: 16,
-    zIndex: 5,
-  },
-  image: {
-    width: CARD_WIDTH * 0.7,
-    height: CARD_WIDTH * 0.7,
-  },
-  nameContainer: {
-    backgroundColor: Colors.background,
-    paddingVertical: 12,
-    paddingHorizontal: 16,
-    borderBottomLeftRadius: 20,
-    borderBottomRightRadius: 20,
-  },
-  name: {
-    fontSize: 15,
-    fontWeight: '700',
-    color: Colors.textPrimary,
-    textAlign: 'center',
-    letterSpacing: 0.3,
-  },
-  pokeballDecoration: {
-    position: 'absolute',
-    top: -20,
-    left: -20,
-    opacity: 0.08,
-    zIndex: 1,
-  },
-  pokeballOuter: {
-    width: 80,
-    height: 80,
-    borderRadius: 40,
-    borderWidth: 6,
-    borderColor: Colors.textPrimary,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  pokeballLine: {
-    position: 'absolute',
-    width: '100%',
-    height: 6,
-    backgroundColor: Colors.textPrimary,
-  },
-  pokeballCenter: {
-    width: 20,
-    height: 20,
-    borderRadius: 10,
-    backgroundColor: Colors.textPrimary,
-    borderWidth: 4,
-    borderColor: Colors.background,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      marginBottom: CARD_SPACING,
+      marginHorizontal: CARD_MARGIN / 2,
+      overflow: 'hidden',
+      borderWidth: 1,
+      borderColor: colors.border,
+      shadowColor: colors.black,
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.2,
+      shadowRadius: 8,
+      elevation: 5,
+    },
+    cardSelected: {
+      borderColor: colors.primary,
+      borderWidth: 2,
+    },
+    gradientOverlay: {
+      ...StyleSheet.absoluteFillObject,
+      backgroundColor: colors.surfaceLight,
+      opacity: 0.3,
+      borderRadius: 20,
+    },
+    idBadge: {
+      position: 'absolute',
+      top: 12,
+      right: 12,
+      backgroundColor: colors.background,
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 8,
+      zIndex: 10,
+    },
+    favoriteButton: {
+      position: 'absolute',
+      top: 10,
+      left: 12,
+      zIndex: 10,
+    },
+    tag: {
+      position: 'absolute',
+      top: 12,
+      left: 12,
+      backgroundColor: colors.accent,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 8,
+      zIndex: 10,
+    },
+    tagBelowFavorite: {
+      top: 48,
+    },
+    tagText: {
+      fontSize: 11,
+      fontWeight: '700',
+      color: colors.background,
+    },
+    idText: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.textMuted,
+      letterSpacing: 0.5,
+    },
+    imageContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingTop: 16,
+      zIndex: 5,
+    },
+    nameContainer: {
+      backgroundColor: colors.background,
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      borderBottomLeftRadius: 20,
+      borderBottomRightRadius: 20,
+    },
+    name: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      textAlign: 'center',
+      letterSpacing: 0.3,
+    },
+    typesRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      marginTop: 6,
+    },
+    typeBadgeWrapper: {
+      marginHorizontal: 2,
+    },
+    pokeballDecoration: {
+      position: 'absolute',
+      top: -20,
+      left: -20,
+      opacity: 0.08,
+      zIndex: 1,
+    },
+    pokeballOuter: {
+      width: 80,
+      height: 80,
+      borderRadius: 40,
+      borderWidth: 6,
+      borderColor: colors.textPrimary,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    pokeballLine: {
+      position: 'absolute',
+      width: '100%',
+      height: 6,
+      backgroundColor: colors.textPrimary,
+    },
+    pokeballCenter: {
+      width: 20,
+      height: 20,
+      borderRadius: 10,
+      backgroundColor: colors.textPrimary,
+      borderWidth: 4,
+      borderColor: colors.background,
+    },
+  });
 
 const areEqual = (
   prevProps: PokemonCardProps,
@@ -188,7 +321,12 @@ const areEqual = (
   return (
     prevProps.pokemon.id === nextProps.pokemon.id &&
     prevProps.pokemon.name === nextProps.pokemon.name &&
-    prevProps.onPress === nextProps.onPress
+    prevProps.pokemon.types.join() === nextProps.pokemon.types.join() &&
+    prevProps.width === nextProps.width &&
+    prevProps.isFavorite === nextProps.isFavorite &&
+    prevProps.isSelected === nextProps.isSelected &&
+    prevProps.onPress === nextProps.onPress &&
+    prevProps.onToggleFavorite === nextProps.onToggleFavorite
   );
 };
 
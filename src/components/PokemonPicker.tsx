@@ -0,0 +1,198 @@
+/**
+ * Modal picker for choosing a Pokemon using the full-dex search.
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  ListRenderItem,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import SearchBar from './SearchBar';
+import { useSearchIndex } from '../hooks/useSearchIndex';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { usePokemonStore, selectLocalizedNames } from '../store/pokemonStore';
+import { Pokemon } from '../types';
+import { searchPokemon } from '../utils/search';
+import { formatName } from '../utils/formatters';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface PokemonPickerProps {
+  visible: boolean;
+  title?: string;
+  excludeIds?: number[];
+  onSelect: (pokemon: Pokemon) => void;
+  onClose: () => void;
+}
+
+/**
+ * PokemonPicker - Searchable full-screen list of every Pokemon
+ *
+ * @param visible - Shows the picker when true
+ * @param title - Header title
+ * @param excludeIds - Pokemon that can't be picked (e.g. already selected)
+ * @param onSelect - Callback with the chosen Pokemon
+ * @param onClose - Callback when the picker is dismissed
+ */
+const PokemonPicker: React.FC<PokemonPickerProps> = ({
+  visible,
+  title = t('picker.title'),
+  excludeIds = [],
+  onSelect,
+  onClose,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
+  const [query, setQuery] = useState('');
+
+  const { searchIndex } = useSearchIndex();
+  const pokemonList = usePokemonStore((state) => state.pokemonList);
+  const localizedNames = usePokemonStore(selectLocalizedNames);
+
+  const results = useMemo(() => {
+    const source = searchIndex.length > 0 ? searchIndex : pokemonList;
+    return searchPokemon(source, query, localizedNames.pokemon).filter(
+      (p) => !excludeIds.includes(p.id)
+    );
+  }, [searchIndex, pokemonList, query, excludeIds, localizedNames]);
+
+  const handleClose = useCallback(() => {
+    setQuery('');
+    onClose();
+  }, [onClose]);
+
+  const handleSelect = useCallback(
+    (pokemon: Pokemon) => {
+      setQuery('');
+      onSelect(pokemon);
+    },
+    [onSelect]
+  );
+
+  const renderItem: ListRenderItem<Pokemon> = useCallback(
+    ({ item }) => {
+      const name = localizedNames.pokemon[item.id] ?? formatName(item.name);
+
+      return (
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => handleSelect(item)}
+          activeOpacity={0.8}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.pokemonCardUntyped', { name, number: item.id })}
+        >
+          <Image source={{ uri: item.imageUrl }} style={styles.rowImage} resizeMode="contain" />
+          <Text style={styles.rowName} numberOfLines={1}>
+            {name}
+          </Text>
+          <Text style={styles.rowId}>#{String(item.id).padStart(3, '0')}</Text>
+        </TouchableOpacity>
+      );
+    },
+    [handleSelect, localizedNames, styles]
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType={animationsEnabled ? 'slide' : 'none'}
+      onRequestClose={handleClose}
+    >
+      <View style={[styles.container, { paddingTop: insets.top + 16 }]}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          <TouchableOpacity onPress={handleClose} activeOpacity={0.8} accessibilityRole="button">
+            <Text style={styles.closeText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <SearchBar
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t('picker.searchPlaceholder')}
+          debounceMs={150}
+        />
+
+        <FlatList
+          data={results}
+          renderItem={renderItem}
+          keyExtractor={(item) => `picker-${item.id}`}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+          initialNumToRender={15}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>{t('common.noPokemonFound')}</Text>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 22,
+      fontWeight: '800',
+      color: colors.textPrimary,
+    },
+    closeText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 8,
+      marginHorizontal: 16,
+      marginBottom: 8,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+    },
+    rowImage: {
+      width: 44,
+      height: 44,
+      marginRight: 12,
+    },
+    rowName: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    rowId: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: colors.textMuted,
+    },
+    emptyText: {
+      fontSize: 15,
+      color: colors.textMuted,
+      textAlign: 'center',
+      marginTop: 32,
+    },
+  });
+
+export default memo(PokemonPicker);
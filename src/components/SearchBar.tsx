@@ -1,39 +1,101 @@
 /**
  * Search bar component with debounced input for filtering Pokemon list.
+ * Can highlight invalid parts of the text as the user types.
  */
 
-import React, { memo, useState, useCallback, useEffect, useRef } from 'react';
+import React, { memo, useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
   View,
+  Text,
   TextInput,
   StyleSheet,
   TouchableOpacity,
   Animated,
+  StyleProp,
+  ViewStyle,
 } from 'react-native';
-import Colors from '../utils/colors';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import {
+  usePreferencesStore,
+  selectSearchDebounceMs,
+} from '../store/preferencesStore';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+export interface SearchBarIssue {
+  start: number;
+  end: number;
+  message: string;
+}
 
 interface SearchBarProps {
   value: string;
   onChangeText: (text: string) => void;
   placeholder?: string;
   debounceMs?: number;
+  style?: StyleProp<ViewStyle>;
+  validate?: (text: string) => SearchBarIssue[];
 }
 
+/**
+ * Splits text into plain and invalid segments for inline highlighting
+ */
+const splitByIssues = (
+  text: string,
+  issues: SearchBarIssue[]
+): { text: string; isInvalid: boolean }[] => {
+  const segments: { text: string; isInvalid: boolean }[] = [];
+  let cursor = 0;
+
+  [...issues]
+    .sort((a, b) => a.start - b.start)
+    .forEach((issue) => {
+      if (issue.start < cursor) return;
+      if (issue.start > cursor) {
+        segments.push({ text: text.slice(cursor, issue.start), isInvalid: !!false });
+      }
+      segments.push({ text: text.slice(issue.start, issue.end), isInvalid: !!true });
+      cursor = issue.end;
+    });
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), isInvalid: !!false });
+  }
+
+  return segments;
+};
+
 /**
  * SearchBar - Input component for filtering Pokemon list
  * 
  * @param value - Current search value
  * @param onChangeText - Callback when search value changes
  * @param placeholder - Input placeholder text
- * @param debounceMs - Debounce delay in milliseconds (default: 300ms)
+ * @param debounceMs - Debounce delay in milliseconds (default: the search delay preference)
+ * @param style - Container style override (e.g. when placed in a row)
+ * @param validate - Returns invalid ranges of the text to highlight, with messages
  */
 const SearchBar: React.FC<SearchBarProps> = ({
   value,
   onChangeText,
-  placeholder = 'Search Pokémon...',
-  debounceMs = 300,
+  placeholder = t('common.searchPlaceholder'),
+  debounceMs,
+  style,
+  validate,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const defaultDebounceMs = usePreferencesStore(selectSearchDebounceMs);
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
+  const debounceDelay = debounceMs ?? defaultDebounceMs;
+  const fadeDuration = animationsEnabled ? 150 : 0;
+
   const [localValue, setLocalValue] = useState(value);
+  const issues = useMemo(
+    () => (validate ? validate(localValue) : []),
+    [validate, localValue]
+  );
   const clearButtonOpacity = useRef(new Animated.Value(value ? 1 : 0)).current;
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -43,7 +105,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
 
       Animated.timing(clearButtonOpacity, {
         toValue: text ? 1 : 0,
-        duration: 150,
+        duration: fadeDuration,
         useNativeDriver: true,
       }).start();
 
@@ -53,9 +115,9 @@ const SearchBar: React.FC<SearchBarProps> = ({
 
       debounceTimerRef.current = setTimeout(() => {
         onChangeText(text);
-      }, debounceMs);
+      }, debounceDelay);
     },
-    [onChangeText, debounceMs, clearButtonOpacity]
+    [onChangeText, debounceDelay, fadeDuration, clearButtonOpacity]
   );
 
   const handleClear = useCallback(() => {
@@ -64,10 +126,10 @@ const SearchBar: React.FC<SearchBarProps> = ({
     
     Animated.timing(clearButtonOpacity, {
       toValue: 0,
-      duration: 150,
+      duration: fadeDuration,
       useNativeDriver: true,
     }).start();
-  }, [onChangeText, clearButtonOpacity]);
+  }, [onChangeText, fadeDuration, clearButtonOpacity]);
 
   useEffect(() => {
     setLocalValue(value);
@@ -82,120 +144,166 @@ const SearchBar: React.FC<SearchBarProps> = ({
   }, []);
 
   return (
-    <View style={styles.container}>
-      <View style={styles.iconContainer}>
-        <SearchIcon />
-      </View>
+    <View style={[styles.wrapper, style]}>
+      <View style={[styles.container, issues.length > 0 && styles.containerInvalid]}>
+        <View style={styles.iconContainer}>
+          <SearchIcon />
+        </View>
 
-      <TextInput
-        style={styles.input}
-        value={localValue}
-        onChangeText={handleChangeText}
-        placeholder={placeholder}
-        placeholderTextColor={Colors.textMuted}
-        autoCapitalize="none"
-        autoCorrect={!!false}
-        editable={!!true}
-        multiline={!!false}
-        autoFocus={!!false}
-        returnKeyType="search"
-        clearButtonMode="never"
-      />
-
-      <Animated.View style={[styles.clearButton, { opacity: clearButtonOpacity }]}>
-        <TouchableOpacity
-          onPress={handleClear}
-          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        <TextInput
+          style={styles.input}
+          // Highlighting needs styled children, which replace the value prop
+          value={issues.length > 0 ? undefined : localValue}
+          onChangeText={handleChangeText}
+          placeholder={placeholder}
+          placeholderTextColor={colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={!!false}
+          editable={!!true}
+          multiline={!!false}
+          autoFocus={!!false}
+          returnKeyType="search"
+          clearButtonMode="never"
         >
-          <ClearIcon />
-        </TouchableOpacity>
-      </Animated.View>
+          {issues.length > 0
+            ? splitByIssues(localValue, issues).map((segment, index) => (
+                <Text
+                  key={`${index}-${segment.text}`}
+                  style={segment.isInvalid ? styles.invalidText : undefined}
+                >
+                  {segment.text}
+                </Text>
+              ))
+            : undefined}
+        </TextInput>
+
+        <Animated.View style={[styles.clearButton, { opacity: clearButtonOpacity }]}>
+          <TouchableOpacity
+            onPress={handleClear}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.clearSearch')}
+          >
+            <ClearIcon />
+          </TouchableOpacity>
+        </Animated.View>
+      </View>
+
+      {issues.length > 0 && (
+        <Text style={styles.issueText} numberOfLines={1}>
+          {issues[0].message}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const SearchIcon: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.searchIcon}>
+      <View style={styles.searchIconCircle} />
+      <View style={styles.searchIconHandle} />
     </View>
   );
 };
 
-const SearchIcon: React.FC = () => (
-  <View style={styles.searchIcon}>
-    <View style={styles.searchIconCircle} />
-    <View style={styles.searchIconHandle} />
-  </View>
-);
-
-const ClearIcon: React.FC = () => (
-  <View style={styles.clearIcon}>
-    <View style={[styles.clearLine, { transform: [{ rotate: '45deg' }] }]} />
-    <View style={[styles.clearLine, { transform: [{ rotate: '-45deg' }] }]} />
-  </View>
-);
-
-const styles = StyleSheet.create({
-  container: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: Colors.surface,
-    borderRadius: 16,
-    paddingHorizontal: 16,
-    height: 52,
-    borderWidth: 1,
-    borderColor: Colors.border,
-    marginHorizontal: 16,
-    marginBottom: 16,
-  },
-  iconContainer: {
-    marginRight: 12,
-  },
-  input: {
-    flex: 1,
-    fontSize: 16,
-    color: Colors.textPrimary,
-    paddingVertical: 0,
-  },
-  clearButton: {
-    marginLeft: 8,
-    padding: 4,
-  },
-  searchIcon: {
-    width: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  searchIconCircle: {
-    width: 14,
-    height: 14,
-    borderRadius: 7,
-    borderWidth: 2,
-    borderColor: Colors.textMuted,
-    position: 'absolute',
-    top: 0,
-    left: 0,
-  },
-  searchIconHandle: {
-    width: 6,
-    height: 2,
-    backgroundColor: Colors.textMuted,
-    borderRadius: 1,
-    position: 'absolute',
-    bottom: 2,
-    right: 1,
-    transform: [{ rotate: '45deg' }],
-  },
-  clearIcon: {
-    width: 18,
-    height: 18,
-    backgroundColor: Colors.textMuted,
-    borderRadius: 9,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  clearLine: {
-    position: 'absolute',
-    width: 10,
-    height: 2,
-    backgroundColor: Colors.surface,
-    borderRadius: 1,
-  },
-});
+const ClearIcon: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.clearIcon}>
+      <View style={[styles.clearLine, { transform: [{ rotate: '45deg' }] }]} />
+      <View style={[styles.clearLine, { transform: [{ rotate: '-45deg' }] }]} />
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    wrapper: {
+      marginHorizontal: 16,
+      marginBottom: 16,
+    },
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      paddingHorizontal: 16,
+      height: 52,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    containerInvalid: {
+      borderColor: colors.error,
+    },
+    iconContainer: {
+      marginRight: 12,
+    },
+    input: {
+      flex: 1,
+      fontSize: 16,
+      color: colors.textPrimary,
+      paddingVertical: 0,
+    },
+    invalidText: {
+      color: colors.error,
+      textDecorationLine: 'underline',
+    },
+    issueText: {
+      fontSize: 12,
+      color: colors.error,
+      marginTop: 6,
+      marginLeft: 4,
+    },
+    clearButton: {
+      marginLeft: 8,
+      padding: 4,
+    },
+    searchIcon: {
+      width: 20,
+      height: 20,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    searchIconCircle: {
+      width: 14,
+      height: 14,
+      borderRadius: 7,
+      borderWidth: 2,
+      borderColor: colors.textMuted,
+      position: 'absolute',
+      top: 0,
+      left: 0,
+    },
+    searchIconHandle: {
+      width: 6,
+      height: 2,
+      backgroundColor: colors.textMuted,
+      borderRadius: 1,
+      position: 'absolute',
+      bottom: 2,
+      right: 1,
+      transform: [{ rotate: '45deg' }],
+    },
+    clearIcon: {
+      width: 18,
+      height: 18,
+      backgroundColor: colors.textMuted,
+      borderRadius: 9,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    clearLine: {
+      position: 'absolute',
+      width: 10,
+      height: 2,
+      backgroundColor: colors.surface,
+      borderRadius: 1,
+    },
+  });
 
 export default memo(SearchBar);
 
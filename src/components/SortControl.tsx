@@ -0,0 +1,197 @@
+/**
+ * Compact sort button that opens a picker of sort options.
+ */
+
+import React, { memo, useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+} from 'react-native';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface SortControlProps<T extends string> {
+  value: T;
+  options: { value: T; label: string; disabled?: boolean }[];
+  onChange: (value: T) => void;
+}
+
+/**
+ * SortControl - Square button next to the search bar with a sort picker
+ *
+ * @param value - Current sort option
+ * @param options - Available options with display labels (disabled ones are shown dimmed)
+ * @param onChange - Callback when an option is chosen
+ */
+const SortControl = <T extends string>({
+  value,
+  options,
+  onChange,
+}: SortControlProps<T>): React.JSX.Element => {
+  const styles = useThemedStyles(createStyles);
+  const [isOpen, setIsOpen] = useState(!!false);
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
+
+  const handleSelect = useCallback(
+    (option: T) => {
+      setIsOpen(!!false);
+      onChange(option);
+    },
+    [onChange]
+  );
+
+  const currentLabel = options.find((option) => option.value === value)?.label;
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={() => setIsOpen(!!true)}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={t('common.sortBy')}
+        accessibilityValue={currentLabel ? { text: currentLabel } : undefined}
+      >
+        <SortIcon />
+      </TouchableOpacity>
+
+      <Modal
+        visible={isOpen}
+        transparent
+        animationType={animationsEnabled ? 'fade' : 'none'}
+        onRequestClose={() => setIsOpen(!!false)}
+      >
+        {/* Not focusable, so screen readers reach the options; the escape gesture closes it */}
+        <Pressable
+          style={styles.backdrop}
+          onPress={() => setIsOpen(!!false)}
+          accessible={!!false}
+        >
+          <Pressable style={styles.sheet} accessible={!!false}>
+            <Text style={styles.sheetTitle}>{t('common.sortBy')}</Text>
+            {currentLabel && <Text style={styles.sheetSubtitle}>{currentLabel}</Text>}
+
+            <ScrollView style={styles.optionList}>
+              {options.map((option) => {
+                const isSelected = option.value === value;
+                const isDisabled = !!option.disabled && !isSelected;
+
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.option, isSelected && styles.optionSelected]}
+                    onPress={() => handleSelect(option.value)}
+                    disabled={isDisabled}
+                    activeOpacity={0.8}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: isSelected, disabled: isDisabled }}
+                  >
+                    <Text
+                      style={[
+                        styles.optionText,
+                        isSelected && styles.optionTextSelected,
+                        isDisabled && styles.optionTextDisabled,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </>
+  );
+};
+
+const SortIcon: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.sortIcon}>
+      <View style={[styles.sortLine, { width: 18 }]} />
+      <View style={[styles.sortLine, { width: 12 }]} />
+      <View style={[styles.sortLine, { width: 6 }]} />
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    button: {
+      width: 52,
+      height: 52,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    sortIcon: {
+      width: 18,
+      height: 14,
+      justifyContent: 'space-between',
+    },
+    sortLine: {
+      height: 2,
+      borderRadius: 1,
+      backgroundColor: colors.textSecondary,
+    },
+    backdrop: {
+      flex: 1,
+      backgroundColor: 'rgba(0, 0, 0, 0.5)',
+      justifyContent: 'center',
+      padding: 32,
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      padding: 20,
+      maxHeight: '80%',
+    },
+    sheetTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    sheetSubtitle: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginTop: 4,
+      marginBottom: 12,
+    },
+    optionList: {
+      flexGrow: 0,
+    },
+    option: {
+      paddingVertical: 12,
+      paddingHorizontal: 12,
+      borderRadius: 10,
+    },
+    optionSelected: {
+      backgroundColor: colors.surfaceLight,
+    },
+    optionText: {
+      fontSize: 15,
+      color: colors.textSecondary,
+    },
+    optionTextSelected: {
+      color: colors.textPrimary,
+      fontWeight: '700',
+    },
+    optionTextDisabled: {
+      color: colors.textMuted,
+    },
+  });
+
+export default memo(SortControl) as typeof SortControl;
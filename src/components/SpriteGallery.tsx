@@ -0,0 +1,217 @@
+/**
+ * Swipeable sprite gallery for the detail header, with shiny and
+ * female/male toggles. Tapping a sprite opens the full-screen viewer.
+ */
+
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  ListRenderItem,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import SpriteViewer from './SpriteViewer';
+import { PokemonSprites } from '../types';
+import {
+  GallerySprite,
+  SpriteVariant,
+  getGallerySprites,
+  getGameSprites,
+  hasFemaleSprites,
+  hasShinySprites,
+} from '../utils/sprites';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface SpriteGalleryProps {
+  sprites: PokemonSprites;
+  size: number;
+}
+
+/**
+ * SpriteGallery - Paged artwork and sprites with variant toggles
+ *
+ * @param sprites - Sprites from the Pokemon detail
+ * @param size - Width and height of each page
+ */
+const SpriteGallery: React.FC<SpriteGalleryProps> = ({ sprites, size }) => {
+  const styles = useThemedStyles(createStyles);
+  const listRef = useRef<FlatList<GallerySprite>>(null);
+  const [variant, setVariant] = useState<SpriteVariant>({ shiny: !!false, female: !!false });
+  const [page, setPage] = useState(0);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  const canToggleShiny = useMemo(() => hasShinySprites(sprites), [sprites]);
+  const canToggleFemale = useMemo(() => hasFemaleSprites(sprites), [sprites]);
+
+  const gallery = useMemo(() => getGallerySprites(sprites, variant), [sprites, variant]);
+  const viewerSprites = useMemo(
+    () => [...gallery, ...getGameSprites(sprites, variant)],
+    [gallery, sprites, variant]
+  );
+
+  // Start over from the artwork for each Pokemon
+  useEffect(() => {
+    setVariant({ shiny: !!false, female: !!false });
+    setPage(0);
+    listRef.current?.scrollToOffset({ offset: 0, animated: !!false });
+  }, [sprites]);
+
+  // Variants can have fewer pages (e.g. no shiny HOME render)
+  useEffect(() => {
+    if (page >= gallery.length && gallery.length > 0) {
+      setPage(gallery.length - 1);
+    }
+  }, [gallery.length, page]);
+
+  const handleMomentumScrollEnd = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      setPage(Math.round(event.nativeEvent.contentOffset.x / size));
+    },
+    [size]
+  );
+
+  const renderItem: ListRenderItem<GallerySprite> = useCallback(
+    ({ item, index }) => (
+      <TouchableOpacity
+        onPress={() => setViewerIndex(index)}
+        activeOpacity={0.9}
+        style={{ width: size, height: size }}
+        accessibilityRole="imagebutton"
+        accessibilityLabel={item.label}
+        accessibilityHint={t('a11y.openViewer')}
+      >
+        <Image source={{ uri: item.uri }} style={styles.image} resizeMode="contain" />
+      </TouchableOpacity>
+    ),
+    [size, styles]
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        ref={listRef}
+        data={gallery}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.key}
+        extraData={variant}
+        horizontal
+        pagingEnabled
+        onMomentumScrollEnd={handleMomentumScrollEnd}
+        showsHorizontalScrollIndicator={!!false}
+        style={{ width: size, height: size }}
+      />
+
+      <View style={styles.controls}>
+        <View style={styles.dots}>
+          {gallery.map((item, index) => (
+            <View key={item.key} style={[styles.dot, index === page && styles.dotActive]} />
+          ))}
+        </View>
+
+        <Text style={styles.pageLabel}>{gallery[page]?.label ?? ''}</Text>
+
+        <View style={styles.toggles}>
+          {canToggleShiny && (
+            <TouchableOpacity
+              style={[styles.toggle, variant.shiny && styles.toggleActive]}
+              onPress={() => setVariant((current) => ({ ...current, shiny: !current.shiny }))}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityState={{ selected: variant.shiny }}
+            >
+              <Text style={[styles.toggleText, variant.shiny && styles.toggleTextActive]}>
+                {t('sprites.shiny')}
+              </Text>
+            </TouchableOpacity>
+          )}
+          {canToggleFemale && (
+            <TouchableOpacity
+              style={[styles.toggle, variant.female && styles.toggleActive]}
+              onPress={() => setVariant((current) => ({ ...current, female: !current.female }))}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityState={{ selected: variant.female }}
+            >
+              <Text style={[styles.toggleText, variant.female && styles.toggleTextActive]}>
+                {variant.female ? t('sprites.female') : t('sprites.male')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <SpriteViewer
+        sprites={viewerSprites}
+        initialIndex={viewerIndex ?? 0}
+        visible={viewerIndex !== null}
+        onClose={() => setViewerIndex(null)}
+      />
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      alignItems: 'center',
+    },
+    image: {
+      width: '100%',
+      height: '100%',
+    },
+    controls: {
+      alignItems: 'center',
+      marginTop: 6,
+    },
+    dots: {
+      flexDirection: 'row',
+    },
+    dot: {
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: 'rgba(255, 255, 255, 0.4)',
+      marginHorizontal: 3,
+    },
+    dotActive: {
+      backgroundColor: colors.white,
+    },
+    pageLabel: {
+      fontSize: 11,
+      fontWeight: '700',
+      color: colors.white,
+      opacity: 0.8,
+      marginTop: 4,
+    },
+    toggles: {
+      flexDirection: 'row',
+      marginTop: 6,
+    },
+    toggle: {
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 12,
+      backgroundColor: 'rgba(0, 0, 0, 0.2)',
+      marginHorizontal: 4,
+    },
+    toggleActive: {
+      backgroundColor: colors.white,
+    },
+    toggleText: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.white,
+    },
+    toggleTextActive: {
+      color: colors.secondary,
+    },
+  });
+
+export default memo(SpriteGallery);
@@ -0,0 +1,197 @@
+/**
+ * Full-screen sprite viewer that pages through sprites with pinch-to-zoom.
+ */
+
+import React, { memo, useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  FlatList,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ListRenderItem,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  useWindowDimensions,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import ZoomableImage from './ZoomableImage';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { GallerySprite } from '../utils/sprites';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface SpriteViewerProps {
+  sprites: GallerySprite[];
+  initialIndex: number;
+  visible: boolean;
+  onClose: () => void;
+}
+
+/**
+ * SpriteViewer - Swipeable, zoomable full-screen sprites
+ *
+ * @param sprites - Pages to show (gallery sprites followed by game sprites)
+ * @param initialIndex - Page to open on
+ * @param visible - Whether the viewer is shown
+ * @param onClose - Callback when the viewer is dismissed
+ */
+const SpriteViewer: React.FC<SpriteViewerProps> = ({
+  sprites,
+  initialIndex,
+  visible,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { width, height } = useWindowDimensions();
+  const imageSize = Math.min(width, height);
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
+  const [index, setIndex] = useState(initialIndex);
+  const [isZoomed, setIsZoomed] = useState(!!false);
+
+  useEffect(() => {
+    if (visible) {
+      setIndex(initialIndex);
+      setIsZoomed(!!false);
+    }
+  }, [visible, initialIndex]);
+
+  const handleMomentumScrollEnd = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      setIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+    },
+    [width]
+  );
+
+  const getItemLayout = useCallback(
+    (_: unknown, itemIndex: number) => ({
+      length: width,
+      offset: width * itemIndex,
+      index: itemIndex,
+    }),
+    [width]
+  );
+
+  const renderItem: ListRenderItem<GallerySprite> = useCallback(
+    ({ item }) => (
+      <View style={[styles.page, { width }]}>
+        <ZoomableImage
+          uri={item.uri}
+          width={imageSize}
+          height={imageSize}
+          onZoomChange={setIsZoomed}
+        />
+      </View>
+    ),
+    [styles, width, imageSize]
+  );
+
+  const current = sprites[index];
+
+  return (
+    <Modal visible={visible} animationType={animationsEnabled ? 'fade' : 'none'} onRequestClose={onClose}>
+      <StatusBar barStyle="light-content" backgroundColor={colors.black} />
+      <View style={styles.container}>
+        <FlatList
+          data={sprites}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.key}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!isZoomed}
+          initialScrollIndex={Math.min(initialIndex, Math.max(sprites.length - 1, 0))}
+          getItemLayout={getItemLayout}
+          onMomentumScrollEnd={handleMomentumScrollEnd}
+          initialNumToRender={3}
+          windowSize={3}
+          showsHorizontalScrollIndicator={!!false}
+        />
+
+        <View style={[styles.topBar, { paddingTop: insets.top + 12 }]}>
+          <View style={styles.caption}>
+            <Text style={styles.label} numberOfLines={1}>
+              {current?.label ?? ''}
+            </Text>
+            <Text style={styles.counter}>
+              {sprites.length > 0 ? `${index + 1} / ${sprites.length}` : ''}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.closeButton}
+            onPress={onClose}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.close')}
+          >
+            <Text style={styles.closeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={[styles.hint, { bottom: insets.bottom + 24 }]}>
+          {t('sprites.zoomHint')}
+        </Text>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.black,
+    },
+    page: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    topBar: {
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      right: 0,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 20,
+    },
+    caption: {
+      flex: 1,
+    },
+    label: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.white,
+    },
+    counter: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: 'rgba(255, 255, 255, 0.15)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    closeText: {
+      fontSize: 18,
+      color: colors.white,
+      fontWeight: '700',
+    },
+    hint: {
+      position: 'absolute',
+      alignSelf: 'center',
+      fontSize: 13,
+      color: colors.textMuted,
+    },
+  });
+
+export default memo(SpriteViewer);
@@ -1,72 +1,125 @@
 /**
  * Animated stat bar component for displaying Pokemon stats.
- * Color-coded based on stat value.
+ * Color-coded based on stat value, with a tier label so the rating
+ * doesn't depend on color alone.
  */
 
 import React, { memo, useEffect, useRef, useState } from 'react';
 import { View, Text, StyleSheet, Animated, LayoutChangeEvent } from 'react-native';
-import Colors from '../utils/colors';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { ThemeColors, StatTier } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t, TranslationKey } from '../i18n';
 
 interface StatBarProps {
   label: string;
   value: number;
   maxValue?: number;
   color?: string;
+  highlighted?: boolean;
 }
 
 /**
- * Gets color based on stat percentage
+ * Gets the rating tier for a stat percentage
  */
-const getStatColor = (percentage: number): string => {
-  if (percentage >= 0.8) return '#2EC4B6'; // Excellent - Teal
-  if (percentage >= 0.6) return '#78C850'; // Good - Green
-  if (percentage >= 0.4) return '#F4A261'; // Average - Orange
-  return '#E63946'; // Low - Red
+const getStatTier = (percentage: number): StatTier => {
+  if (percentage >= 0.8) return 'excellent';
+  if (percentage >= 0.6) return 'good';
+  if (percentage >= 0.4) return 'average';
+  return 'low';
 };
 
+const STAT_TIER_LABELS: Record<StatTier, TranslationKey> = {
+  excellent: 'statTier.excellent',
+  good: 'statTier.good',
+  average: 'statTier.average',
+  low: 'statTier.low',
+};
+
+/**
+ * Abbreviated labels shown next to the bar
+ */
+const SHORT_STAT_NAMES: Record<string, TranslationKey> = {
+  hp: 'statsShort.hp',
+  attack: 'statsShort.attack',
+  defense: 'statsShort.defense',
+  'special-attack': 'statsShort.specialAttack',
+  'special-defense': 'statsShort.specialDefense',
+  speed: 'statsShort.speed',
+};
+
+/**
+ * Full names read by screen readers, since "SP.ATK" is spelled out letter by letter
+ */
+const FULL_STAT_NAMES: Record<string, TranslationKey> = {
+  hp: 'stats.hp',
+  attack: 'stats.attack',
+  defense: 'stats.defense',
+  'special-attack': 'stats.specialAttack',
+  'special-defense': 'stats.specialDefense',
+  speed: 'stats.speed',
+};
+
+/**
+ * Label and value columns have fixed widths, so text scaling is capped
+ */
+const MAX_FONT_SCALE = 1.3;
+
 /**
  * Formats stat name for display
  */
 const formatStatName = (name: string): string => {
-  const statNames: Record<string, string> = {
-    hp: 'HP',
-    attack: 'ATK',
-    defense: 'DEF',
-    'special-attack': 'SP.ATK',
-    'special-defense': 'SP.DEF',
-    speed: 'SPD',
-  };
-  return statNames[name] || name.toUpperCase();
+  return SHORT_STAT_NAMES[name] ? t(SHORT_STAT_NAMES[name]) : name.toUpperCase();
+};
+
+/**
+ * Formats stat name for screen readers
+ */
+const formatStatAccessibilityName = (name: string): string => {
+  return FULL_STAT_NAMES[name] ? t(FULL_STAT_NAMES[name]) : name;
 };
 
 /**
  * StatBar - Animated progress bar for displaying Pokemon stats
+ *
+ * Fills instantly when animations are off or the OS asks for reduced motion.
  * 
  * @param label - Stat name
  * @param value - Current stat value
  * @param maxValue - Maximum possible value (default: 255)
- * @param color - Optional override color
+ * @param color - Optional override color (hides the tier label, e.g. per-Pokemon colors)
+ * @param highlighted - Emphasizes the value (e.g. the winner in a comparison)
  */
 const StatBar: React.FC<StatBarProps> = ({
   label,
   value,
   maxValue = 255,
   color,
+  highlighted = !!false,
 }) => {
+  const { statColors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [containerWidth, setContainerWidth] = useState(0);
   const animatedWidth = useRef(new Animated.Value(0)).current;
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
   const percentage = Math.min(value / maxValue, 1);
-  const barColor = color || getStatColor(percentage);
+  const tier = getStatTier(percentage);
+  const tierLabel = t(STAT_TIER_LABELS[tier]);
+  const barColor = color || statColors[tier];
 
   useEffect(() => {
-    if (containerWidth > 0) {
+    if (containerWidth === 0) return;
+
+    if (animationsEnabled) {
       Animated.timing(animatedWidth, {
         toValue: percentage,
         duration: 800,
         useNativeDriver: false,
       }).start();
+    } else {
+      animatedWidth.setValue(percentage);
     }
-  }, [percentage, animatedWidth, containerWidth]);
+  }, [percentage, animatedWidth, containerWidth, animationsEnabled]);
 
   const handleLayout = (event: LayoutChangeEvent) => {
     const { width } = event.nativeEvent.layout;
@@ -83,13 +136,33 @@ const StatBar: React.FC<StatBarProps> = ({
     : 0;
 
   return (
-    <View style={styles.container}>
+    <View
+      style={styles.container}
+      accessible={!!true}
+      accessibilityRole="progressbar"
+      accessibilityLabel={formatStatAccessibilityName(label)}
+      accessibilityValue={{
+        min: 0,
+        max: maxValue,
+        now: value,
+        text: color
+          ? t('a11y.statValue', { value, max: maxValue })
+          : `${t('a11y.statValue', { value, max: maxValue })}, ${tierLabel}`,
+      }}
+    >
       <View style={styles.labelContainer}>
-        <Text style={styles.label}>{formatStatName(label)}</Text>
+        <Text style={styles.label} numberOfLines={1} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+          {formatStatName(label)}
+        </Text>
       </View>
 
       <View style={styles.valueContainer}>
-        <Text style={styles.value}>{value}</Text>
+        <Text
+          style={[styles.value, highlighted && styles.valueHighlighted]}
+          maxFontSizeMultiplier={MAX_FONT_SCALE}
+        >
+          {value}
+        </Text>
       </View>
 
       <View style={styles.barContainer}>
@@ -108,49 +181,73 @@ const StatBar: React.FC<StatBarProps> = ({
           />
         </View>
       </View>
+
+      {!color && (
+        <View style={styles.tierContainer}>
+          <Text style={styles.tier} numberOfLines={1} maxFontSizeMultiplier={MAX_FONT_SCALE}>
+            {tierLabel}
+          </Text>
+        </View>
+      )}
     </View>
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 12,
-  },
-  labelContainer: {
-    width: 60,
-  },
-  label: {
-    fontSize: 12,
-    fontWeight: '700',
-    color: Colors.textMuted,
-    letterSpacing: 0.5,
-  },
-  valueContainer: {
-    width: 40,
-    alignItems: 'flex-end',
-    marginRight: 12,
-  },
-  value: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: Colors.textPrimary,
-  },
-  barContainer: {
-    flex: 1,
-  },
-  barBackground: {
-    height: 8,
-    backgroundColor: Colors.surface,
-    borderRadius: 4,
-    overflow: 'hidden',
-  },
-  barFill: {
-    height: '100%',
-    borderRadius: 4,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 12,
+    },
+    labelContainer: {
+      width: 60,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.textMuted,
+      letterSpacing: 0.5,
+    },
+    valueContainer: {
+      width: 40,
+      alignItems: 'flex-end',
+      marginRight: 12,
+    },
+    value: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    valueHighlighted: {
+      fontWeight: '800',
+      color: colors.accent,
+    },
+    barContainer: {
+      flex: 1,
+    },
+    barBackground: {
+      height: 8,
+      backgroundColor: colors.surface,
+      borderRadius: 4,
+      overflow: 'hidden',
+    },
+    barFill: {
+      height: '100%',
+      borderRadius: 4,
+    },
+    tierContainer: {
+      width: 64,
+      marginLeft: 10,
+    },
+    tier: {
+      fontSize: 11,
+      fontWeight: '700',
+      color: colors.textSecondary,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+    },
+  });
 
 export default memo(StatBar);
 
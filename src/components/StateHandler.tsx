@@ -12,7 +12,9 @@ import {
   TouchableOpacity,
   Image,
 } from 'react-native';
-import Colors from '../utils/colors';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
 
 interface StateHandlerProps {
   isLoading: boolean;
@@ -40,16 +42,19 @@ const StateHandler: React.FC<StateHandlerProps> = ({
   error,
   isEmpty,
   onRetry,
-  emptyMessage = 'No items found',
-  emptySubMessage = 'Try adjusting your search or pull to refresh',
+  emptyMessage = t('common.emptyTitle'),
+  emptySubMessage = t('common.emptySubtitle'),
   children,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
   if (!!isLoading) {
     return (
       <View style={styles.centerContainer}>
         <View style={styles.loadingWrapper}>
-          <ActivityIndicator size="large" color={Colors.primary} animating={!!isLoading} />
-          <Text style={styles.loadingText}>Loading Pokémon...</Text>
+          <ActivityIndicator size="large" color={colors.primary} animating={!!isLoading} />
+          <Text style={styles.loadingText}>{t('common.loading')}</Text>
           <View style={styles.loadingDots}>
             {[0, 1, 2].map((i) => (
               <View key={i} style={[styles.dot, { opacity: 0.3 + i * 0.3 }]} />
@@ -68,7 +73,7 @@ const StateHandler: React.FC<StateHandlerProps> = ({
             <Text style={styles.errorIcon}>⚠️</Text>
           </View>
           
-          <Text style={styles.errorTitle}>Oops! Something went wrong</Text>
+          <Text style={styles.errorTitle}>{t('common.errorTitle')}</Text>
           <Text style={styles.errorMessage}>{error}</Text>
           
           {onRetry && (
@@ -76,8 +81,9 @@ const StateHandler: React.FC<StateHandlerProps> = ({
               style={styles.retryButton}
               onPress={onRetry}
               activeOpacity={0.8}
+              accessibilityRole="button"
             >
-              <Text style={styles.retryButtonText}>Try Again</Text>
+              <Text style={styles.retryButtonText}>{t('common.tryAgain')}</Text>
             </TouchableOpacity>
           )}
         </View>
@@ -103,110 +109,111 @@ const StateHandler: React.FC<StateHandlerProps> = ({
   return <>{children}</>;
 };
 
-const styles = StyleSheet.create({
-  centerContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: Colors.background,
-    padding: 24,
-  },
-  loadingWrapper: {
-    alignItems: 'center',
-  },
-  loadingText: {
-    marginTop: 16,
-    fontSize: 18,
-    fontWeight: '600',
-    color: Colors.textPrimary,
-  },
-  loadingDots: {
-    flexDirection: 'row',
-    marginTop: 12,
-  },
-  dot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-    backgroundColor: Colors.primary,
-    marginHorizontal: 3,
-  },
-  errorWrapper: {
-    alignItems: 'center',
-    maxWidth: 300,
-  },
-  errorIconContainer: {
-    width: 80,
-    height: 80,
-    borderRadius: 40,
-    backgroundColor: Colors.surface,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  errorIcon: {
-    fontSize: 40,
-  },
-  errorTitle: {
-    fontSize: 20,
-    fontWeight: '700',
-    color: Colors.textPrimary,
-    textAlign: 'center',
-    marginBottom: 8,
-  },
-  errorMessage: {
-    fontSize: 15,
-    color: Colors.textSecondary,
-    textAlign: 'center',
-    lineHeight: 22,
-    marginBottom: 24,
-  },
-  retryButton: {
-    backgroundColor: Colors.primary,
-    paddingVertical: 14,
-    paddingHorizontal: 32,
-    borderRadius: 12,
-    shadowColor: Colors.primary,
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 8,
-    elevation: 4,
-  },
-  retryButtonText: {
-    color: Colors.white,
-    fontSize: 16,
-    fontWeight: '700',
-  },
-  emptyWrapper: {
-    alignItems: 'center',
-    maxWidth: 280,
-  },
-  emptyIconContainer: {
-    width: 100,
-    height: 100,
-    borderRadius: 50,
-    backgroundColor: Colors.surface,
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginBottom: 24,
-  },
-  emptyIcon: {
-    fontSize: 48,
-  },
-  emptyTitle: {
-    fontSize: 20,
-    fontWeight: '700',
-    color: Colors.textPrimary,
-    textAlign: 'center',
-    marginBottom: 8,
-  },
-  emptySubtitle: {
-    fontSize: 15,
-    color: Colors.textMuted,
-    textAlign: 'center',
-    lineHeight: 22,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    centerContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+      padding: 24,
+    },
+    loadingWrapper: {
+      alignItems: 'center',
+    },
+    loadingText: {
+      marginTop: 16,
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    loadingDots: {
+      flexDirection: 'row',
+      marginTop: 12,
+    },
+    dot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.primary,
+      marginHorizontal: 3,
+    },
+    errorWrapper: {
+      alignItems: 'center',
+      maxWidth: 300,
+    },
+    errorIconContainer: {
+      width: 80,
+      height: 80,
+      borderRadius: 40,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginBottom: 20,
+    },
+    errorIcon: {
+      fontSize: 40,
+    },
+    errorTitle: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    errorMessage: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      lineHeight: 22,
+      marginBottom: 24,
+    },
+    retryButton: {
+      backgroundColor: colors.primary,
+      paddingVertical: 14,
+      paddingHorizontal: 32,
+      borderRadius: 12,
+      shadowColor: colors.primary,
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.3,
+      shadowRadius: 8,
+      elevation: 4,
+    },
+    retryButtonText: {
+      color: colors.white,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+    emptyWrapper: {
+      alignItems: 'center',
+      maxWidth: 280,
+    },
+    emptyIconContainer: {
+      width: 100,
+      height: 100,
+      borderRadius: 50,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginBottom: 24,
+    },
+    emptyIcon: {
+      fontSize: 48,
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize: 15,
+      color: colors.textMuted,
+      textAlign: 'center',
+      lineHeight: 22,
+    },
+  });
 
 export default memo(StateHandler);
 
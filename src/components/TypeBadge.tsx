@@ -1,14 +1,20 @@
 /**
  * Badge component for displaying Pokemon types with color coding.
+ * Each type also has a glyph so it can be told apart without color.
  */
 
 import React, { memo } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { getTypeColor } from '../utils/colors';
+import { getTypeGlyph } from '../utils/typeGlyphs';
+import { formatTypeName } from '../utils/formatters';
+import { useTheme } from '../theme';
+import { t } from '../i18n';
 
 interface TypeBadgeProps {
   type: string;
   size?: 'small' | 'medium' | 'large';
+  maxFontSizeMultiplier?: number;
 }
 
 /**
@@ -16,15 +22,27 @@ interface TypeBadgeProps {
  * 
  * @param type - Pokemon type name
  * @param size - Badge size variant
+ * @param maxFontSizeMultiplier - Caps system font scaling inside fixed-size layouts
  */
-const TypeBadge: React.FC<TypeBadgeProps> = ({ type, size = 'medium' }) => {
-  const backgroundColor = getTypeColor(type);
+const TypeBadge: React.FC<TypeBadgeProps> = ({ type, size = 'medium', maxFontSizeMultiplier }) => {
+  const { typeColors } = useTheme();
+  const backgroundColor = getTypeColor(type, typeColors);
   const sizeStyles = getSizeStyles(size);
+  const typeName = formatTypeName(type);
 
   return (
-    <View style={[styles.badge, { backgroundColor }, sizeStyles.container]}>
-      <Text style={[styles.text, sizeStyles.text]}>
-        {type.charAt(0).toUpperCase() + type.slice(1)}
+    <View
+      style={[styles.badge, { backgroundColor }, sizeStyles.container]}
+      accessible={!!true}
+      accessibilityRole="text"
+      accessibilityLabel={t('a11y.type', { type: typeName })}
+    >
+      <Text
+        style={[styles.text, sizeStyles.text]}
+        maxFontSizeMultiplier={maxFontSizeMultiplier}
+        numberOfLines={1}
+      >
+        <Text style={styles.glyph}>{getTypeGlyph(type)}</Text> {typeName}
       </Text>
     </View>
   );
@@ -68,6 +86,10 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 2,
   },
+  glyph: {
+    fontWeight: '400',
+    textTransform: 'none',
+  },
 });
 
 export default memo(TypeBadge);
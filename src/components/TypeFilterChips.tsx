@@ -0,0 +1,161 @@
+/**
+ * Horizontal row of type badges used as multi-select filter chips.
+ */
+
+import React, { memo } from 'react';
+import { View, Text, ScrollView, StyleSheet, TouchableOpacity } from 'react-native';
+import TypeBadge from './TypeBadge';
+import { TypeFilterMode } from '../types';
+import { POKEMON_TYPES } from '../utils/typeFilter';
+import { formatTypeName } from '../utils/formatters';
+import { ThemeColors } from '../utils/colors';
+import { useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+interface TypeFilterChipsProps {
+  selectedTypes: string[];
+  mode: TypeFilterMode;
+  onToggleType: (type: string) => void;
+  onChangeMode: (mode: TypeFilterMode) => void;
+  onClear: () => void;
+}
+
+/**
+ * TypeFilterChips - Tappable type badges for filtering the list
+ *
+ * @param selectedTypes - Currently selected type names
+ * @param mode - How selected types combine ("and" / "or")
+ * @param onToggleType - Callback when a chip is tapped
+ * @param onChangeMode - Callback when the AND/OR toggle is tapped
+ * @param onClear - Callback to deselect all types
+ */
+const TypeFilterChips: React.FC<TypeFilterChipsProps> = ({
+  selectedTypes,
+  mode,
+  onToggleType,
+  onChangeMode,
+  onClear,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  const hasSelection = selectedTypes.length > 0;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={!!false}
+        contentContainerStyle={styles.chipsContent}
+      >
+        {POKEMON_TYPES.map((type) => {
+          const isSelected = selectedTypes.includes(type);
+
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[
+                styles.chip,
+                isSelected && styles.chipSelected,
+                hasSelection && !isSelected && styles.chipDimmed,
+              ]}
+              onPress={() => onToggleType(type)}
+              activeOpacity={0.8}
+              accessibilityRole="checkbox"
+              accessibilityLabel={t('a11y.type', { type: formatTypeName(type) })}
+              accessibilityState={{ checked: isSelected }}
+            >
+              <TypeBadge type={type} size="small" />
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {hasSelection && (
+        <View style={styles.controls}>
+          <View style={styles.modeToggle}>
+            {(['or', 'and'] as TypeFilterMode[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeOption, mode === option && styles.modeOptionActive]}
+                onPress={() => onChangeMode(option)}
+                activeOpacity={0.8}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: mode === option }}
+              >
+                <Text
+                  style={[styles.modeText, mode === option && styles.modeTextActive]}
+                >
+                  {option === 'or' ? t('typeFilter.any') : t('typeFilter.all')}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TouchableOpacity onPress={onClear} activeOpacity={0.8} accessibilityRole="button">
+            <Text style={styles.clearText}>{t('common.clear')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    chipsContent: {
+      paddingHorizontal: 16,
+    },
+    chip: {
+      marginRight: 8,
+      borderRadius: 22,
+      borderWidth: 2,
+      borderColor: colors.transparent,
+      padding: 2,
+    },
+    chipSelected: {
+      borderColor: colors.textPrimary,
+    },
+    chipDimmed: {
+      opacity: 0.45,
+    },
+    controls: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      marginTop: 12,
+    },
+    modeToggle: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      padding: 2,
+    },
+    modeOption: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 10,
+    },
+    modeOptionActive: {
+      backgroundColor: colors.surfaceLight,
+    },
+    modeText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    modeTextActive: {
+      color: colors.textPrimary,
+    },
+    clearText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+  });
+
+export default memo(TypeFilterChips);
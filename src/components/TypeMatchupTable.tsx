@@ -0,0 +1,99 @@
+/**
+ * Defensive type matchup table grouped by damage multiplier.
+ */
+
+import React, { memo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import TypeBadge from './TypeBadge';
+import { MatchupGroup } from '../utils/typeMatchup';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+
+interface TypeMatchupTableProps {
+  matchups: MatchupGroup[];
+}
+
+/**
+ * Gets the label color for a damage multiplier
+ */
+const getMultiplierColor = (multiplier: number, colors: ThemeColors): string => {
+  if (multiplier > 1) return colors.error;
+  if (multiplier === 1) return colors.textMuted;
+  return colors.success;
+};
+
+/**
+ * TypeMatchupTable - Rows of attacking types per damage multiplier
+ *
+ * @param matchups - Groups from groupDefensiveMatchups (empty groups omitted)
+ */
+const TypeMatchupTable: React.FC<TypeMatchupTableProps> = ({ matchups }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.container}>
+      {matchups.map((group, index) => (
+        <View
+          key={group.label}
+          style={[styles.row, index === matchups.length - 1 && styles.lastRow]}
+        >
+          <View style={styles.labelContainer}>
+            <Text style={[styles.label, { color: getMultiplierColor(group.multiplier, colors) }]}>
+              {group.label}
+            </Text>
+          </View>
+
+          <View style={styles.types}>
+            {group.types.map((type) => (
+              <View key={type} style={styles.badgeWrapper}>
+                <TypeBadge type={type} size="small" />
+              </View>
+            ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 16,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      paddingBottom: 12,
+      marginBottom: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    lastRow: {
+      paddingBottom: 0,
+      marginBottom: 0,
+      borderBottomWidth: 0,
+    },
+    labelContainer: {
+      width: 64,
+      paddingTop: 4,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '800',
+    },
+    types: {
+      flex: 1,
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    badgeWrapper: {
+      marginRight: 6,
+      marginBottom: 6,
+    },
+  });
+
+export default memo(TypeMatchupTable);
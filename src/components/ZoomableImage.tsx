@@ -0,0 +1,185 @@
+/**
+ * Image with pinch-to-zoom, drag while zoomed, and double-tap zoom.
+ * Built on PanResponder so it works the same on iOS and Android.
+ */
+
+import React, { memo, useEffect, useMemo, useRef } from 'react';
+import {
+  Animated,
+  GestureResponderEvent,
+  NativeTouchEvent,
+  PanResponder,
+  StyleSheet,
+} from 'react-native';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_DELAY = 300;
+const TAP_SLOP = 8;
+
+interface ZoomableImageProps {
+  uri: string;
+  width: number;
+  height: number;
+  onZoomChange?: (isZoomed: boolean) => void;
+}
+
+const getDistance = ([first, second]: NativeTouchEvent[]): number =>
+  Math.hypot(first.pageX - second.pageX, first.pageY - second.pageY);
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(Math.max(value, min), max);
+
+/**
+ * ZoomableImage - Image that can be pinched, dragged, and double-tapped
+ *
+ * @param uri - Image URL
+ * @param width - Image width
+ * @param height - Image height
+ * @param onZoomChange - Called when the image zooms in or returns to fit,
+ *   so a parent pager can stop scrolling while zoomed
+ */
+const ZoomableImage: React.FC<ZoomableImageProps> = ({
+  uri,
+  width,
+  height,
+  onZoomChange,
+}) => {
+  const scale = useRef(new Animated.Value(MIN_SCALE)).current;
+  const translate = useRef(new Animated.ValueXY()).current;
+
+  const onZoomChangeRef = useRef(onZoomChange);
+  onZoomChangeRef.current = onZoomChange;
+
+  const animationsEnabledRef = useRef(!!true);
+  animationsEnabledRef.current = useReducedMotion().shouldAnimate;
+
+  // Gesture bookkeeping lives in a ref so the responder is created once
+  const gestureRef = useRef({
+    scale: MIN_SCALE,
+    startScale: MIN_SCALE,
+    startDistance: 0,
+    offset: { x: 0, y: 0 },
+    position: { x: 0, y: 0 },
+    lastTapAt: 0,
+  });
+
+  const panResponder = useMemo(() => {
+    const gesture = gestureRef.current;
+
+    const animateTo = (nextScale: number) => {
+      const isZoomed = nextScale > MIN_SCALE;
+      gesture.scale = nextScale;
+
+      if (!isZoomed) {
+        gesture.offset = { x: 0, y: 0 };
+        gesture.position = { x: 0, y: 0 };
+      }
+
+      if (animationsEnabledRef.current) {
+        Animated.parallel([
+          Animated.spring(scale, { toValue: nextScale, useNativeDriver: true }),
+          Animated.spring(translate, { toValue: gesture.offset, useNativeDriver: true }),
+        ]).start();
+      } else {
+        scale.setValue(nextScale);
+        translate.setValue(gesture.offset);
+      }
+      onZoomChangeRef.current?.(isZoomed);
+    };
+
+    const handleTap = () => {
+      const now = Date.now();
+      if (now - gesture.lastTapAt < DOUBLE_TAP_DELAY) {
+        gesture.lastTapAt = 0;
+        animateTo(gesture.scale > MIN_SCALE ? MIN_SCALE : DOUBLE_TAP_SCALE);
+      } else {
+        gesture.lastTapAt = now;
+      }
+    };
+
+    const isPinch = (event: GestureResponderEvent) => event.nativeEvent.touches.length === 2;
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => !!true,
+      onMoveShouldSetPanResponder: (event) => isPinch(event) || gesture.scale > MIN_SCALE,
+      // Let a parent pager take over horizontal swipes unless zoomed or pinching
+      onPanResponderTerminationRequest: () => gesture.scale <= MIN_SCALE,
+      onPanResponderGrant: () => {
+        gesture.startScale = gesture.scale;
+        gesture.startDistance = 0;
+      },
+      onPanResponderMove: (event, { dx, dy }) => {
+        if (isPinch(event)) {
+          const distance = getDistance(event.nativeEvent.touches);
+          if (!gesture.startDistance) {
+            gesture.startDistance = distance;
+            return;
+          }
+
+          gesture.scale = clamp(
+            (gesture.startScale * distance) / gesture.startDistance,
+            MIN_SCALE,
+            MAX_SCALE
+          );
+          scale.setValue(gesture.scale);
+        } else if (gesture.scale > MIN_SCALE) {
+          gesture.position = { x: gesture.offset.x + dx, y: gesture.offset.y + dy };
+          translate.setValue(gesture.position);
+        }
+      },
+      onPanResponderRelease: (_, { dx, dy }) => {
+        if (Math.abs(dx) < TAP_SLOP && Math.abs(dy) < TAP_SLOP && !gesture.startDistance) {
+          handleTap();
+          return;
+        }
+
+        gesture.offset = gesture.position;
+        animateTo(gesture.scale > MIN_SCALE * 1.05 ? gesture.scale : MIN_SCALE);
+      },
+    });
+  }, [scale, translate]);
+
+  // Reset when the image changes
+  useEffect(() => {
+    const gesture = gestureRef.current;
+    gesture.scale = MIN_SCALE;
+    gesture.offset = { x: 0, y: 0 };
+    gesture.position = { x: 0, y: 0 };
+    scale.setValue(MIN_SCALE);
+    translate.setValue({ x: 0, y: 0 });
+  }, [uri, scale, translate]);
+
+  return (
+    <Animated.View
+      style={[styles.container, { width, height }]}
+      {...panResponder.panHandlers}
+    >
+      <Animated.Image
+        source={{ uri }}
+        style={{
+          width,
+          height,
+          transform: [
+            { translateX: translate.x },
+            { translateY: translate.y },
+            { scale },
+          ],
+        }}
+        resizeMode="contain"
+      />
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default memo(ZoomableImage);
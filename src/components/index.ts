@@ -4,4 +4,14 @@ export { default as SearchBar } from './SearchBar';
 export { default as LoadingFooter } from './LoadingFooter';
 export { default as StatBar } from './StatBar';
 export { default as TypeBadge } from './TypeBadge';
-
+export { default as TypeFilterChips } from './TypeFilterChips';
+export { default as EvolutionTree } from './EvolutionTree';
+export { default as TypeMatchupTable } from './TypeMatchupTable';
+export { default as FavoriteButton } from './FavoriteButton';
+export { default as SortControl } from './SortControl';
+export { default as PokemonPicker } from './PokemonPicker';
+export { default as MoveList } from './MoveList';
+export { default as MoveDetailSheet } from './MoveDetailSheet';
+export { default as ZoomableImage } from './ZoomableImage';
+export { default as SpriteViewer } from './SpriteViewer';
+export { default as SpriteGallery } from './SpriteGallery';
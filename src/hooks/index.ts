@@ -1,3 +1,18 @@
 export { useFetchItems } from './useFetchItems';
 export { usePokemonDetail } from './usePokemonDetail';
-
+export { usePokemonSearch } from './usePokemonSearch';
+export { useSearchIndex } from './useSearchIndex';
+export { useTypeIndex } from './useTypeIndex';
+export { useEvolutionChain } from './useEvolutionChain';
+export { useTypeMatchups } from './useTypeMatchups';
+export { useComparePokemon } from './useComparePokemon';
+export { useListUrlParams } from './useListUrlParams';
+export { useViewportPrefetch } from './useViewportPrefetch';
+export { useStatSummaries } from './useStatSummaries';
+export { useGenerations } from './useGenerations';
+export { useMoveDetail } from './useMoveDetail';
+export { useAbilityDetail } from './useAbilityDetail';
+export { useLocalizedNames } from './useLocalizedNames';
+export { usePreferencesHydration } from './usePreferencesHydration';
+export { useReducedMotion } from './useReducedMotion';
+export { useResponsiveLayout } from './useResponsiveLayout';
@@ -0,0 +1,97 @@
+/**
+ * Custom hook for fetching an ability and the Pokemon that have it.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  fetchAbilityDetail,
+  transformAbilityDetail,
+  getErrorMessage,
+} from '../api/pokemonApi';
+import { usePokemonStore } from '../store/pokemonStore';
+import { applyTypeIndex } from '../utils/typeFilter';
+import { Ability, AbilityDetail } from '../types';
+import { useTypeIndex } from './useTypeIndex';
+
+interface UseAbilityDetailReturn {
+  ability: Ability | null;
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the ability screen
+ *
+ * Text is picked in the device language, and each holder's types are
+ * filled in from the type index.
+ *
+ * @param abilityName - Ability name (e.g. "lightning-rod")
+ * @returns Object containing the ability, state flags, and retry action
+ */
+export const useAbilityDetail = (abilityName: string): UseAbilityDetailReturn => {
+  const [detail, setDetail] = useState<AbilityDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(!!false);
+  const [error, setError] = useState<string | null>(null);
+
+  useTypeIndex();
+  const typeIndex = usePokemonStore((state) => state.typeIndex);
+
+  const loadAbility = useCallback(
+    async (isCurrent: () => boolean = () => !!true) => {
+      setDetail(null);
+      setIsLoading(!!true);
+      setError(null);
+
+      try {
+        const result = await fetchAbilityDetail(abilityName);
+        if (isCurrent()) setDetail(result);
+      } catch (err) {
+        if (isCurrent()) setError(getErrorMessage(err));
+      } finally {
+        if (isCurrent()) setIsLoading(!!false);
+      }
+    },
+    [abilityName]
+  );
+
+  const retry = useCallback(async () => {
+    await loadAbility();
+  }, [loadAbility]);
+
+  useEffect(() => {
+    let isCurrent = !!true;
+    loadAbility(() => isCurrent);
+
+    return () => {
+      isCurrent = !!false;
+    };
+  }, [loadAbility]);
+
+  const ability = useMemo(() => {
+    if (!detail) return null;
+
+    const transformed = transformAbilityDetail(detail);
+    const typed = applyTypeIndex(
+      transformed.holders.map((holder) => holder.pokemon),
+      typeIndex
+    );
+
+    return {
+      ...transformed,
+      holders: transformed.holders.map((holder, index) => ({
+        ...holder,
+        pokemon: typed[index],
+      })),
+    };
+  }, [detail, typeIndex]);
+
+  return {
+    ability,
+    isLoading,
+    error,
+    retry,
+  };
+};
+
+export default useAbilityDetail;
@@ -0,0 +1,171 @@
+/**
+ * Custom hook for loading several Pokemon side by side.
+ * Each slot loads on its own, so one failure doesn't blank the others.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import {
+  usePokemonStore,
+  selectPokemonDetail,
+  selectDetailStatus,
+} from '../store/pokemonStore';
+import {
+  fetchPokemonDetail,
+  getErrorMessage,
+  isCancelledError,
+  isNotFoundError,
+} from '../api/pokemonApi';
+import { PokemonDetail } from '../types';
+
+interface UseComparePokemonReturn {
+  pokemon: (PokemonDetail | null)[];
+  errors: (string | null)[];
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+  retrySlot: (slot: number) => Promise<void>;
+}
+
+/**
+ * Custom hook for loading several Pokemon side by side
+ *
+ * Features:
+ * - Reads from the shared per-ID entity cache, so swapping or removing
+ *   an entry only fetches the new ones
+ * - Loads and fails each slot independently
+ * - Cancels requests for ids that leave the comparison or on unmount,
+ *   and only the latest request per id may write to the store
+ * - Keeps the compared entities from being evicted while mounted
+ *
+ * @param pokemonIds - IDs of the Pokemon to compare
+ * @returns Object containing details and errors in the same order as the ids
+ */
+export const useComparePokemon = (pokemonIds: number[]): UseComparePokemonReturn => {
+  const pokemon = usePokemonStore(
+    useShallow((state) => pokemonIds.map((id) => selectPokemonDetail(id)(state)))
+  );
+  const statuses = usePokemonStore(
+    useShallow((state) => pokemonIds.map((id) => selectDetailStatus(id)(state)))
+  );
+
+  const setPokemonDetail = usePokemonStore((state) => state.setPokemonDetail);
+  const setDetailLoading = usePokemonStore((state) => state.setDetailLoading);
+  const setDetailError = usePokemonStore((state) => state.setDetailError);
+  const retainPokemonDetail = usePokemonStore((state) => state.retainPokemonDetail);
+  const releasePokemonDetail = usePokemonStore((state) => state.releasePokemonDetail);
+
+  const controllersRef = useRef(new Map<number, AbortController>());
+  const requestIdsRef = useRef(new Map<number, number>());
+
+  const cancelSlot = useCallback(
+    (id: number) => {
+      const controller = controllersRef.current.get(id);
+      if (!controller) return;
+
+      controller.abort();
+      controllersRef.current.delete(id);
+      requestIdsRef.current.set(id, (requestIdsRef.current.get(id) ?? 0) + 1);
+      setDetailLoading(id, !!false);
+    },
+    [setDetailLoading]
+  );
+
+  const fetchSlot = useCallback(
+    async (id: number) => {
+      cancelSlot(id);
+
+      const controller = new AbortController();
+      const requestId = (requestIdsRef.current.get(id) ?? 0) + 1;
+      requestIdsRef.current.set(id, requestId);
+      controllersRef.current.set(id, controller);
+
+      setDetailLoading(id, !!true);
+
+      try {
+        const detail = await fetchPokemonDetail(id, { signal: controller.signal });
+        if (requestId !== requestIdsRef.current.get(id)) return;
+
+        setPokemonDetail(id, detail);
+      } catch (err) {
+        if (requestId !== requestIdsRef.current.get(id) || isCancelledError(err)) return;
+
+        setDetailError(id, getErrorMessage(err), isNotFoundError(err));
+      } finally {
+        if (requestId === requestIdsRef.current.get(id)) {
+          controllersRef.current.delete(id);
+        }
+      }
+    },
+    [cancelSlot, setPokemonDetail, setDetailLoading, setDetailError]
+  );
+
+  const idsKey = pokemonIds.join(',');
+  // Also re-checks when cached entities disappear (evicted or cache cleared)
+  const loadedKey = pokemon.map((detail) => (detail ? '1' : '0')).join('');
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',').map(Number) : [];
+
+    controllersRef.current.forEach((_, id) => {
+      if (!ids.includes(id)) cancelSlot(id);
+    });
+
+    ids.forEach((id) => {
+      const isCached = !!usePokemonStore.getState().pokemonById[id];
+      if (!isCached && !controllersRef.current.has(id)) {
+        fetchSlot(id);
+      }
+    });
+  }, [idsKey, loadedKey, fetchSlot, cancelSlot]);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+
+    return () => {
+      Array.from(controllers.keys()).forEach(cancelSlot);
+    };
+  }, [cancelSlot]);
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split(',').map(Number) : [];
+
+    ids.forEach(retainPokemonDetail);
+    return () => {
+      ids.forEach(releasePokemonDetail);
+    };
+  }, [idsKey, retainPokemonDetail, releasePokemonDetail]);
+
+  const retrySlot = useCallback(
+    async (slot: number) => {
+      const id = pokemonIds[slot];
+      if (id !== undefined) await fetchSlot(id);
+    },
+    [pokemonIds, fetchSlot]
+  );
+
+  const retry = useCallback(async () => {
+    await Promise.all(
+      pokemonIds
+        .filter((_, slot) => !pokemon[slot] && !statuses[slot].isLoading)
+        .map((id) => fetchSlot(id))
+    );
+  }, [pokemonIds, pokemon, statuses, fetchSlot]);
+
+  const errors = statuses.map((status) => status.error);
+  // Treat "not fetched yet" as loading so the screen never flashes empty
+  const isLoading = statuses.some(
+    (status, slot) => status.isLoading || (!pokemon[slot] && !status.error)
+  );
+
+  return {
+    pokemon,
+    errors,
+    isLoading,
+    error: errors.find((slotError) => slotError !== null) ?? null,
+    retry,
+    retrySlot,
+  };
+};
+
+export default useComparePokemon;
@@ -0,0 +1,72 @@
+/**
+ * Custom hook for fetching the evolution tree of a Pokemon species.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchEvolutionTree, getErrorMessage } from '../api/pokemonApi';
+import { EvolutionNode } from '../types';
+
+interface UseEvolutionChainReturn {
+  evolution: EvolutionNode | null;
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+}
+
+/**
+ * Custom hook for fetching the evolution tree of a Pokemon species
+ *
+ * State is kept local to the screen so stacked detail screens
+ * each show their own chain.
+ *
+ * @param speciesName - Species name from the Pokemon detail (skips fetching when empty)
+ * @returns Object containing the evolution tree, state flags, and retry action
+ */
+export const useEvolutionChain = (
+  speciesName: string | undefined
+): UseEvolutionChainReturn => {
+  const [evolution, setEvolution] = useState<EvolutionNode | null>(null);
+  const [isLoading, setIsLoading] = useState(!!false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvolution = useCallback(
+    async (isCurrent: () => boolean = () => !!true) => {
+      if (!speciesName) return;
+
+      setIsLoading(!!true);
+      setError(null);
+
+      try {
+        const tree = await fetchEvolutionTree(speciesName);
+        if (isCurrent()) setEvolution(tree);
+      } catch (err) {
+        if (isCurrent()) setError(getErrorMessage(err));
+      } finally {
+        if (isCurrent()) setIsLoading(!!false);
+      }
+    },
+    [speciesName]
+  );
+
+  const retry = useCallback(async () => {
+    await loadEvolution();
+  }, [loadEvolution]);
+
+  useEffect(() => {
+    let isCurrent = !!true;
+    loadEvolution(() => isCurrent);
+
+    return () => {
+      isCurrent = !!false;
+    };
+  }, [loadEvolution]);
+
+  return {
+    evolution,
+    isLoading,
+    error,
+    retry,
+  };
+};
+
+export default useEvolutionChain;
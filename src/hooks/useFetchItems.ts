@@ -1,11 +1,17 @@
 /**
  * Custom hook for managing Pokemon list fetching with pagination.
  * Handles initial data loading, infinite scroll, pull-to-refresh, and error handling.
+ * Requests are cancelled on unmount, and a refresh cancels any in-flight page load.
  */
 
 import { useCallback, useEffect, useRef } from 'react';
 import { usePokemonStore } from '../store/pokemonStore';
-import { fetchPokemonList, getErrorMessage } from '../api/pokemonApi';
+import { usePreferencesStore, selectPageSize } from '../store/preferencesStore';
+import {
+  fetchPokemonList,
+  getErrorMessage,
+  isCancelledError,
+} from '../api/pokemonApi';
 
 interface UseFetchItemsReturn {
   // Data
@@ -30,8 +36,9 @@ interface UseFetchItemsReturn {
  * Features:
  * - Initial data loading
  * - Infinite scroll pagination
- * - Pull-to-refresh
+ * - Pull-to-refresh that supersedes in-flight page loads
  * - Error handling with retry capability
+ * - Page size from preferences (changing it reloads from the first page)
  * 
  * @returns Object containing data, state flags, and action functions
  */
@@ -42,6 +49,7 @@ export const useFetchItems = (): UseFetchItemsReturn => {
   const error = usePokemonStore((state) => state.error);
   const hasMore = usePokemonStore((state) => state.hasMore);
   const pagination = usePokemonStore((state) => state.pagination);
+  const pageSize = usePreferencesStore(selectPageSize);
 
   const setPokemonList = usePokemonStore((state) => state.setPokemonList);
   const setLoading = usePokemonStore((state) => state.setLoading);
@@ -49,68 +57,119 @@ export const useFetchItems = (): UseFetchItemsReturn => {
   const setError = usePokemonStore((state) => state.setError);
   const setHasMore = usePokemonStore((state) => state.setHasMore);
   const setPagination = usePokemonStore((state) => state.setPagination);
-  const resetList = usePokemonStore((state) => state.resetList);
+  const resetListData = usePokemonStore((state) => state.resetListData);
 
   const isFetchingRef = useRef(false);
   const isLoadingMoreRef = useRef(false);
 
+  // Each list reset starts a new generation; page loads from an older one are dropped
+  const generationRef = useRef(0);
+  const listControllerRef = useRef<AbortController | null>(null);
+  const pageControllerRef = useRef<AbortController | null>(null);
+
+  /**
+   * Cancels any in-flight page load and invalidates its result
+   */
+  const cancelPageLoad = useCallback(() => {
+    pageControllerRef.current?.abort();
+    pageControllerRef.current = null;
+    isLoadingMoreRef.current = !!false;
+    generationRef.current += 1;
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      listControllerRef.current?.abort();
+      cancelPageLoad();
+    };
+  }, [cancelPageLoad]);
+
   const loadInitialData = useCallback(async () => {
     if (isFetchingRef.current) return;
     
+    cancelPageLoad();
+    const controller = new AbortController();
+    listControllerRef.current = controller;
+
     isFetchingRef.current = !!true;
     setLoading(!!true);
     setError(null);
 
     try {
-      const initialPagination = { limit: 20, offset: 0 };
+      const initialPagination = { limit: pageSize, offset: 0 };
       const { pokemon, hasMore: moreAvailable } = await fetchPokemonList(
-        initialPagination
+        initialPagination,
+        { signal: controller.signal }
       );
 
       const safePokemonList = Array.isArray(pokemon) ? pokemon : [];
       setPokemonList(safePokemonList, !!false);
       setHasMore(!!moreAvailable);
       setPagination({
-        limit: 20,
-        offset: 20,
+        limit: pageSize,
+        offset: pageSize,
       });
     } catch (err) {
-      setError(getErrorMessage(err));
+      if (!isCancelledError(err)) {
+        setError(getErrorMessage(err));
+      }
     } finally {
+      listControllerRef.current = null;
       setLoading(!!false);
       isFetchingRef.current = !!false;
     }
-  }, [setPokemonList, setLoading, setError, setHasMore, setPagination]);
+  }, [
+    cancelPageLoad,
+    pageSize,
+    setPokemonList,
+    setLoading,
+    setError,
+    setHasMore,
+    setPagination,
+  ]);
 
   const loadMoreData = useCallback(async () => {
     if (isLoadingMoreRef.current || !hasMore || isLoading || isRefreshing) {
       return;
     }
 
+    const controller = new AbortController();
+    const generation = generationRef.current;
+    pageControllerRef.current = controller;
     isLoadingMoreRef.current = !!true;
 
+    const nextPage = { limit: pageSize, offset: pagination.offset };
+
     try {
       const { pokemon, hasMore: moreAvailable } = await fetchPokemonList(
-        pagination
+        nextPage,
+        { signal: controller.signal }
       );
+      if (generation !== generationRef.current) return;
 
       const safePokemonList = Array.isArray(pokemon) ? pokemon : [];
       setPokemonList(safePokemonList, !!true);
       setHasMore(!!moreAvailable);
       setPagination({
-        ...pagination,
-        offset: pagination.offset + pagination.limit,
+        ...nextPage,
+        offset: nextPage.offset + nextPage.limit,
       });
     } catch (err) {
-      console.error('Error loading more Pokemon:', err);
+      if (generation === generationRef.current && !isCancelledError(err)) {
+        console.error('Error loading more Pokemon:', err);
+      }
     } finally {
-      isLoadingMoreRef.current = !!false;
+      if (generation === generationRef.current) {
+        pageControllerRef.current = null;
+        isLoadingMoreRef.current = !!false;
+      }
     }
   }, [
     hasMore,
     isLoading,
     isRefreshing,
     pagination,
+    pageSize,
     setPokemonList,
     setHasMore,
     setPagination,
@@ -119,34 +178,45 @@ export const useFetchItems = (): UseFetchItemsReturn => {
   const refreshData = useCallback(async () => {
     if (isFetchingRef.current || isLoading) return;
 
+    // The refreshed first page replaces the list, so a pending page is obsolete
+    cancelPageLoad();
+    const controller = new AbortController();
+    listControllerRef.current = controller;
+
     isFetchingRef.current = !!true;
     setRefreshing(!!true);
     setError(null);
 
     try {
-      const initialPagination = { limit: 20, offset: 0 };
+      const initialPagination = { limit: pageSize, offset: 0 };
       const { pokemon, hasMore: moreAvailable } = await fetchPokemonList(
-        initialPagination
+        initialPagination,
+        { forceRefresh: !!true, signal: controller.signal }
       );
 
-      resetList();
+      resetListData();
       
       const safePokemonList = Array.isArray(pokemon) ? pokemon : [];
       setPokemonList(safePokemonList, !!false);
       setHasMore(!!moreAvailable);
       setPagination({
-        limit: 20,
-        offset: 20,
+        limit: pageSize,
+        offset: pageSize,
       });
     } catch (err) {
-      setError(getErrorMessage(err));
+      if (!isCancelledError(err)) {
+        setError(getErrorMessage(err));
+      }
     } finally {
+      listControllerRef.current = null;
       setRefreshing(!!false);
       isFetchingRef.current = !!false;
     }
   }, [
+    cancelPageLoad,
     isLoading,
-    resetList,
+    pageSize,
+    resetListData,
     setPokemonList,
     setRefreshing,
     setError,
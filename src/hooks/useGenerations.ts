@@ -0,0 +1,82 @@
+/**
+ * Custom hook for fetching the dex grouped by generation.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { fetchGenerationSections, getErrorMessage } from '../api/pokemonApi';
+import { usePokemonStore } from '../store/pokemonStore';
+import { applyTypeIndex } from '../utils/typeFilter';
+import { GenerationSection } from '../types';
+import { useTypeIndex } from './useTypeIndex';
+
+interface UseGenerationsReturn {
+  generations: GenerationSection[];
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+}
+
+/**
+ * Custom hook for browsing by generation
+ *
+ * Fetches all nine /generation resources (served from cache afterwards)
+ * and fills in each Pokemon's types from the type index.
+ *
+ * @returns Object containing generation sections, state flags, and retry action
+ */
+export const useGenerations = (): UseGenerationsReturn => {
+  const [sections, setSections] = useState<GenerationSection[]>([]);
+  const [isLoading, setIsLoading] = useState(!!false);
+  const [error, setError] = useState<string | null>(null);
+
+  useTypeIndex();
+  const typeIndex = usePokemonStore((state) => state.typeIndex);
+
+  const loadGenerations = useCallback(
+    async (isCurrent: () => boolean = () => !!true) => {
+      setIsLoading(!!true);
+      setError(null);
+
+      try {
+        const result = await fetchGenerationSections();
+        if (isCurrent()) setSections(result);
+      } catch (err) {
+        if (isCurrent()) setError(getErrorMessage(err));
+      } finally {
+        if (isCurrent()) setIsLoading(!!false);
+      }
+    },
+    []
+  );
+
+  const retry = useCallback(async () => {
+    await loadGenerations();
+  }, [loadGenerations]);
+
+  useEffect(() => {
+    let isCurrent = !!true;
+    loadGenerations(() => isCurrent);
+
+    return () => {
+      isCurrent = !!false;
+    };
+  }, [loadGenerations]);
+
+  const generations = useMemo(
+    () =>
+      sections.map((section) => ({
+        ...section,
+        pokemon: applyTypeIndex(section.pokemon, typeIndex),
+      })),
+    [sections, typeIndex]
+  );
+
+  return {
+    generations,
+    isLoading,
+    error,
+    retry,
+  };
+};
+
+export default useGenerations;
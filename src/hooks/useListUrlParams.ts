@@ -0,0 +1,82 @@
+/**
+ * Custom hook that keeps the list search and type filters in the URL.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { usePokemonStore } from '../store/pokemonStore';
+import { RootStackParamList } from '../types';
+import { POKEMON_TYPES } from '../utils/typeFilter';
+
+type ListRouteProp = RouteProp<RootStackParamList, 'PokemonList'>;
+type ListNavigationProp = NativeStackNavigationProp<RootStackParamList, 'PokemonList'>;
+
+/**
+ * Parses the comma-separated types param, dropping unknown types
+ */
+const parseTypesParam = (value: string | undefined): string[] => {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((type) => type.trim().toLowerCase())
+    .filter((type) => (POKEMON_TYPES as readonly string[]).includes(type));
+};
+
+/**
+ * Custom hook that syncs list filters with route params
+ *
+ * - Route params -> store when the screen opens from a link
+ * - Store -> route params as the user searches or filters, so the URL
+ *   (e.g. "/?q=char&types=fire,flying&mode=and") can be shared
+ */
+export const useListUrlParams = (): void => {
+  const route = useRoute<ListRouteProp>();
+  const navigation = useNavigation<ListNavigationProp>();
+
+  const searchQuery = usePokemonStore((state) => state.searchQuery);
+  const selectedTypes = usePokemonStore((state) => state.selectedTypes);
+  const typeFilterMode = usePokemonStore((state) => state.typeFilterMode);
+
+  const setSearchQuery = usePokemonStore((state) => state.setSearchQuery);
+  const setSelectedTypes = usePokemonStore((state) => state.setSelectedTypes);
+  const setTypeFilterMode = usePokemonStore((state) => state.setTypeFilterMode);
+
+  const isFirstSyncRef = useRef(!!true);
+
+  const paramQuery = route.params?.q ?? '';
+  const paramTypes = route.params?.types ?? '';
+  const paramMode = route.params?.mode ?? 'or';
+
+  useEffect(() => {
+    const state = usePokemonStore.getState();
+    const types = parseTypesParam(paramTypes);
+
+    if (state.searchQuery !== paramQuery) setSearchQuery(paramQuery);
+    if (state.selectedTypes.join(',') !== types.join(',')) setSelectedTypes(types);
+    if (state.typeFilterMode !== paramMode) setTypeFilterMode(paramMode);
+  }, [paramQuery, paramTypes, paramMode, setSearchQuery, setSelectedTypes, setTypeFilterMode]);
+
+  useEffect(() => {
+    // The first run would overwrite incoming link params with the initial store state
+    if (isFirstSyncRef.current) {
+      isFirstSyncRef.current = !!false;
+      return;
+    }
+
+    const types = selectedTypes.join(',');
+    const mode = types && typeFilterMode === 'and' ? 'and' : undefined;
+
+    if (searchQuery === paramQuery && types === paramTypes && (mode ?? 'or') === paramMode) {
+      return;
+    }
+
+    navigation.setParams({
+      q: searchQuery || undefined,
+      types: types || undefined,
+      mode,
+    });
+  }, [searchQuery, selectedTypes, typeFilterMode, paramQuery, paramTypes, paramMode, navigation]);
+};
+
+export default useListUrlParams;
@@ -0,0 +1,55 @@
+/**
+ * Custom hook that loads Pokemon, ability, and move names in the device language.
+ */
+
+import { useEffect } from 'react';
+import { usePokemonStore } from '../store/pokemonStore';
+import { fetchLocalizedNames } from '../api/pokemonApi';
+import { getApiLanguage } from '../i18n';
+
+interface UseLocalizedNamesReturn {
+  isLocalizedNamesReady: boolean;
+}
+
+/**
+ * Custom hook for localized display names
+ *
+ * Fetches every species, ability, and move name in the device language in
+ * one batched request (served from cache afterwards). English devices skip
+ * the request since the formatted API names are already English.
+ *
+ * @returns Object containing whether the localized names are loaded
+ */
+export const useLocalizedNames = (): UseLocalizedNamesReturn => {
+  const language = getApiLanguage();
+  const isLocalizedNamesReady = usePokemonStore(
+    (state) => state.localizedNames.language === language
+  );
+  const setLocalizedNames = usePokemonStore((state) => state.setLocalizedNames);
+
+  useEffect(() => {
+    if (isLocalizedNamesReady || language === 'en') return;
+
+    let isCurrent = !!true;
+
+    fetchLocalizedNames(language)
+      .then((names) => {
+        if (isCurrent) {
+          setLocalizedNames(names);
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading localized names:', err);
+      });
+
+    return () => {
+      isCurrent = !!false;
+    };
+  }, [language, isLocalizedNamesReady, setLocalizedNames]);
+
+  return {
+    isLocalizedNamesReady,
+  };
+};
+
+export default useLocalizedNames;
@@ -0,0 +1,68 @@
+/**
+ * Custom hook for fetching a single move's details.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { fetchMoveDetail, getErrorMessage } from '../api/pokemonApi';
+import { MoveDetail } from '../types';
+
+interface UseMoveDetailReturn {
+  move: MoveDetail | null;
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+}
+
+/**
+ * Custom hook for fetching a move when it's selected
+ *
+ * @param moveName - Move name (skips fetching when null)
+ * @returns Object containing the move, state flags, and retry action
+ */
+export const useMoveDetail = (moveName: string | null): UseMoveDetailReturn => {
+  const [move, setMove] = useState<MoveDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(!!false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMove = useCallback(
+    async (isCurrent: () => boolean = () => !!true) => {
+      setMove(null);
+      if (!moveName) return;
+
+      setIsLoading(!!true);
+      setError(null);
+
+      try {
+        const result = await fetchMoveDetail(moveName);
+        if (isCurrent()) setMove(result);
+      } catch (err) {
+        if (isCurrent()) setError(getErrorMessage(err));
+      } finally {
+        if (isCurrent()) setIsLoading(!!false);
+      }
+    },
+    [moveName]
+  );
+
+  const retry = useCallback(async () => {
+    await loadMove();
+  }, [loadMove]);
+
+  useEffect(() => {
+    let isCurrent = !!true;
+    loadMove(() => isCurrent);
+
+    return () => {
+      isCurrent = !!false;
+    };
+  }, [loadMove]);
+
+  return {
+    move,
+    isLoading,
+    error,
+    retry,
+  };
+};
+
+export default useMoveDetail;
@@ -1,16 +1,27 @@
 /**
  * Custom hook for fetching and managing Pokemon detail state.
+ * Each fetch is cancellable and only the latest one may write to the store.
  */
 
-import { useCallback, useEffect } from 'react';
-import { usePokemonStore } from '../store/pokemonStore';
-import { fetchPokemonDetail, getErrorMessage } from '../api/pokemonApi';
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  usePokemonStore,
+  selectPokemonDetail,
+  selectDetailStatus,
+} from '../store/pokemonStore';
+import {
+  fetchPokemonDetail,
+  getErrorMessage,
+  isCancelledError,
+  isNotFoundError,
+} from '../api/pokemonApi';
 import { PokemonDetail } from '../types';
 
 interface UsePokemonDetailReturn {
   pokemon: PokemonDetail | null;
   isLoading: boolean;
   error: string | null;
+  isNotFound: boolean;
   fetchDetail: (idOrName: number | string) => Promise<void>;
   retry: () => Promise<void>;
   cleanup: () => void;
@@ -18,37 +29,72 @@ interface UsePokemonDetailReturn {
 
 /**
  * Custom hook for fetching and managing Pokemon detail state
- * 
- * @param pokemonId - The ID of the Pokemon to fetch
+ *
+ * Features:
+ * - Reads from the shared per-ID entity cache, so revisits don't refetch
+ * - Keeps the shown entity from being evicted while mounted
+ * - Cancels the request on unmount or ID change
+ *
+ * @param pokemonId - The ID (or name) of the Pokemon to fetch
  * @returns Object containing Pokemon data, state flags, and action functions
  */
 export const usePokemonDetail = (
   pokemonId: number | string
 ): UsePokemonDetailReturn => {
-  const pokemon = usePokemonStore((state) => state.selectedPokemon);
-  const isLoading = usePokemonStore((state) => state.detailLoading);
-  const error = usePokemonStore((state) => state.detailError);
+  const pokemon = usePokemonStore(selectPokemonDetail(pokemonId));
+  const status = usePokemonStore(selectDetailStatus(pokemonId));
 
-  const setSelectedPokemon = usePokemonStore((state) => state.setSelectedPokemon);
+  const setPokemonDetail = usePokemonStore((state) => state.setPokemonDetail);
   const setDetailLoading = usePokemonStore((state) => state.setDetailLoading);
   const setDetailError = usePokemonStore((state) => state.setDetailError);
-  const resetDetail = usePokemonStore((state) => state.resetDetail);
+  const retainPokemonDetail = usePokemonStore((state) => state.retainPokemonDetail);
+  const releasePokemonDetail = usePokemonStore((state) => state.releasePokemonDetail);
+
+  const controllerRef = useRef<AbortController | null>(null);
+  const pendingKeyRef = useRef<number | string | null>(null);
+  const requestIdRef = useRef(0);
+
+  const cancelPending = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    requestIdRef.current += 1;
+
+    if (pendingKeyRef.current !== null) {
+      setDetailLoading(pendingKeyRef.current, !!false);
+      pendingKeyRef.current = null;
+    }
+  }, [setDetailLoading]);
 
   const fetchDetail = useCallback(
     async (idOrName: number | string) => {
-      setDetailLoading(!!true);
-      setDetailError(null);
+      cancelPending();
+
+      const controller = new AbortController();
+      const requestId = requestIdRef.current;
+      controllerRef.current = controller;
+      pendingKeyRef.current = idOrName;
+
+      setDetailLoading(idOrName, !!true);
 
       try {
-        const pokemonData = await fetchPokemonDetail(idOrName);
-        setSelectedPokemon(pokemonData);
+        const pokemonData = await fetchPokemonDetail(idOrName, {
+          signal: controller.signal,
+        });
+        if (requestId !== requestIdRef.current) return;
+
+        setPokemonDetail(idOrName, pokemonData);
       } catch (err) {
-        setDetailError(getErrorMessage(err));
+        if (requestId !== requestIdRef.current || isCancelledError(err)) return;
+
+        setDetailError(idOrName, getErrorMessage(err), isNotFoundError(err));
       } finally {
-        setDetailLoading(!!false);
+        if (requestId === requestIdRef.current) {
+          controllerRef.current = null;
+          pendingKeyRef.current = null;
+        }
       }
     },
-    [setSelectedPokemon, setDetailLoading, setDetailError]
+    [cancelPending, setPokemonDetail, setDetailLoading, setDetailError]
   );
 
   const retry = useCallback(async () => {
@@ -56,23 +102,37 @@ export const usePokemonDetail = (
   }, [fetchDetail, pokemonId]);
 
   const cleanup = useCallback(() => {
-    resetDetail();
-  }, [resetDetail]);
+    cancelPending();
+  }, [cancelPending]);
+
+  const hasEntity = pokemon !== null;
+  const resolvedId = pokemon?.id ?? null;
 
   useEffect(() => {
-    if (pokemonId) {
+    if (pokemonId && !hasEntity) {
       fetchDetail(pokemonId);
     }
 
     return () => {
-      resetDetail();
+      cancelPending();
     };
-  }, [pokemonId, fetchDetail, resetDetail]);
+  }, [pokemonId, hasEntity, fetchDetail, cancelPending]);
+
+  useEffect(() => {
+    if (resolvedId === null) return;
+
+    retainPokemonDetail(resolvedId);
+    return () => {
+      releasePokemonDetail(resolvedId);
+    };
+  }, [resolvedId, retainPokemonDetail, releasePokemonDetail]);
 
   return {
     pokemon,
-    isLoading,
-    error,
+    // Treat "not fetched yet" as loading so screens never render an empty frame
+    isLoading: !!(status.isLoading || (!pokemon && !status.error)),
+    error: status.error,
+    isNotFound: status.isNotFound,
     fetchDetail,
     retry,
     cleanup,
@@ -80,4 +140,3 @@ export const usePokemonDetail = (
 };
 
 export default usePokemonDetail;
-
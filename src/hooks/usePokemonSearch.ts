@@ -0,0 +1,62 @@
+/**
+ * Custom hook for full-dex search.
+ * Loads the species search index once and falls back to an exact API lookup.
+ */
+
+import { useEffect } from 'react';
+import { usePokemonStore } from '../store/pokemonStore';
+import { searchPokemonByName, transformPokemonDetail } from '../api/pokemonApi';
+import { parseDexNumber } from '../utils/search';
+import { useSearchIndex } from './useSearchIndex';
+
+interface UsePokemonSearchReturn {
+  isIndexReady: boolean;
+}
+
+/**
+ * Custom hook for full-dex search
+ *
+ * Features:
+ * - Fetches the species name index once (served from cache afterwards)
+ * - Looks up exact names with the API when the index has no match
+ *   (e.g. alternate forms like "pikachu-rock-star"); structured queries skip this
+ *
+ * @returns Object containing whether the index is loaded
+ */
+export const usePokemonSearch = (): UsePokemonSearchReturn => {
+  const searchQuery = usePokemonStore((state) => state.searchQuery);
+  const isStructuredQuery = usePokemonStore((state) => state.parsedQuery.isStructured);
+  const filteredCount = usePokemonStore((state) => state.filteredList.length);
+  const setSearchFallback = usePokemonStore((state) => state.setSearchFallback);
+
+  const { isIndexReady } = useSearchIndex();
+
+  useEffect(() => {
+    const query = searchQuery.trim().toLowerCase().replace(/\s+/g, '-');
+    if (!query || isStructuredQuery || filteredCount > 0 || parseDexNumber(query) !== null) {
+      return;
+    }
+
+    let isCurrent = !!true;
+
+    searchPokemonByName(query)
+      .then((detail) => {
+        if (isCurrent && detail) {
+          setSearchFallback(transformPokemonDetail(detail));
+        }
+      })
+      .catch(() => {
+        // No exact hit either; the empty state stays visible
+      });
+
+    return () => {
+      isCurrent = !!false;
+    };
+  }, [searchQuery, isStructuredQuery, filteredCount, setSearchFallback]);
+
+  return {
+    isIndexReady,
+  };
+};
+
+export default usePokemonSearch;
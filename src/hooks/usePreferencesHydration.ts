@@ -0,0 +1,35 @@
+/**
+ * Custom hook that waits for persisted preferences and applies the startup ones.
+ */
+
+import { useEffect } from 'react';
+import { usePokemonStore } from '../store/pokemonStore';
+import { usePreferencesStore, selectHasHydrated } from '../store/preferencesStore';
+
+interface UsePreferencesHydrationReturn {
+  isHydrated: boolean;
+}
+
+/**
+ * Custom hook for the app's preferences gate
+ *
+ * Reports when preferences have been read from device storage, then
+ * applies the default sort to the list once per launch.
+ *
+ * @returns Object containing whether preferences are loaded
+ */
+export const usePreferencesHydration = (): UsePreferencesHydrationReturn => {
+  const isHydrated = usePreferencesStore(selectHasHydrated);
+  const setSortOption = usePokemonStore((state) => state.setSortOption);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    setSortOption(usePreferencesStore.getState().defaultSortOption);
+  }, [isHydrated, setSortOption]);
+
+  return {
+    isHydrated,
+  };
+};
+
+export default usePreferencesHydration;
@@ -0,0 +1,57 @@
+/**
+ * Custom hook that combines the animations preference with the OS reduce-motion setting.
+ */
+
+import { useEffect, useState } from 'react';
+import { AccessibilityInfo } from 'react-native';
+import { usePreferencesStore, selectAnimationsEnabled } from '../store/preferencesStore';
+
+interface UseReducedMotionReturn {
+  isReduceMotionEnabled: boolean;
+  shouldAnimate: boolean;
+}
+
+/**
+ * Custom hook for deciding whether to animate
+ *
+ * Reads the system reduce-motion setting and follows changes made while
+ * the app is open. Animations run only when the user left them on in
+ * settings and the OS is not asking for reduced motion.
+ *
+ * @returns Object containing the OS setting and whether to animate
+ */
+export const useReducedMotion = (): UseReducedMotionReturn => {
+  const animationsEnabled = usePreferencesStore(selectAnimationsEnabled);
+  const [isReduceMotionEnabled, setIsReduceMotionEnabled] = useState(!!false);
+
+  useEffect(() => {
+    let isCurrent = !!true;
+
+    AccessibilityInfo.isReduceMotionEnabled()
+      .then((isEnabled) => {
+        if (isCurrent) {
+          setIsReduceMotionEnabled(!!isEnabled);
+        }
+      })
+      .catch(() => {
+        // Platforms without the setting keep animating
+      });
+
+    const subscription = AccessibilityInfo.addEventListener(
+      'reduceMotionChanged',
+      (isEnabled) => setIsReduceMotionEnabled(!!isEnabled)
+    );
+
+    return () => {
+      isCurrent = !!false;
+      subscription.remove();
+    };
+  }, []);
+
+  return {
+    isReduceMotionEnabled,
+    shouldAnimate: animationsEnabled && !isReduceMotionEnabled,
+  };
+};
+
+export default useReducedMotion;
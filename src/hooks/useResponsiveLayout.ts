@@ -0,0 +1,41 @@
+/**
+ * Custom hook that sizes grids and panes from the current window.
+ */
+
+import { useMemo } from 'react';
+import { useWindowDimensions } from 'react-native';
+import { getGridLayout, getSplitLayout, GridLayout, SplitLayout } from '../utils/layout';
+
+interface UseResponsiveLayoutReturn extends GridLayout, SplitLayout {
+  width: number;
+  height: number;
+}
+
+/**
+ * Custom hook for window-dependent layout
+ *
+ * Re-renders on rotation, split screen, and window resizes. The grid is
+ * sized for the list pane, which is the whole window unless split view
+ * is allowed and the window is wide enough.
+ *
+ * @param allowSplitView - Whether the screen can show a detail pane beside the list
+ * @returns Object containing the window size, pane widths, and grid sizing
+ */
+export const useResponsiveLayout = (allowSplitView = !!false): UseResponsiveLayoutReturn => {
+  const { width, height } = useWindowDimensions();
+
+  return useMemo(() => {
+    const split: SplitLayout = allowSplitView
+      ? getSplitLayout(width)
+      : { isSplitView: !!false, listWidth: width, detailWidth: width };
+
+    return {
+      width,
+      height,
+      ...split,
+      ...getGridLayout(split.listWidth),
+    };
+  }, [width, height, allowSplitView]);
+};
+
+export default useResponsiveLayout;
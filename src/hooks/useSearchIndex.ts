@@ -0,0 +1,48 @@
+/**
+ * Custom hook that loads the full-dex species index into the store.
+ */
+
+import { useEffect } from 'react';
+import { usePokemonStore } from '../store/pokemonStore';
+import { fetchPokemonSpeciesIndex } from '../api/pokemonApi';
+import { Pokemon } from '../types';
+
+interface UseSearchIndexReturn {
+  searchIndex: Pokemon[];
+  isIndexReady: boolean;
+}
+
+/**
+ * Custom hook that loads the species search index
+ *
+ * Fetches once per session (served from cache afterwards) and shares the
+ * result through the store, so any screen can search the whole dex.
+ *
+ * @returns Object containing the index and whether it is loaded
+ */
+export const useSearchIndex = (): UseSearchIndexReturn => {
+  const searchIndex = usePokemonStore((state) => state.searchIndex);
+  const setSearchIndex = usePokemonStore((state) => state.setSearchIndex);
+  const isIndexReady = searchIndex.length > 0;
+
+  useEffect(() => {
+    if (isIndexReady) return;
+
+    fetchPokemonSpeciesIndex()
+      .then((index) => {
+        if (index.length > 0) {
+          setSearchIndex(index);
+        }
+      })
+      .catch((err) => {
+        console.error('Error loading search index:', err);
+      });
+  }, [isIndexReady, setSearchIndex]);
+
+  return {
+    searchIndex,
+    isIndexReady,
+  };
+};
+
+export default useSearchIndex;
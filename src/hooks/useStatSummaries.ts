@@ -0,0 +1,69 @@
+/**
+ * Custom hook that loads stat summaries for the whole dex when a sort needs them.
+ */
+
+import { useCallback, useEffect } from 'react';
+import {
+  usePokemonStore,
+  selectHasStatSummaries,
+  selectIsStatSummariesLoading,
+  selectStatSummariesError,
+} from '../store/pokemonStore';
+import { fetchStatSummaries, getErrorMessage } from '../api/pokemonApi';
+
+interface UseStatSummariesReturn {
+  isStatSummariesReady: boolean;
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+}
+
+/**
+ * Custom hook for sorting by stats, height, or weight
+ *
+ * Fetches every Pokemon's stat summary in one batched request (served from
+ * cache afterwards) the first time it is enabled. Loading and failure are
+ * kept in the store, and a failed load waits for retry() rather than
+ * refetching on every render that needs the data.
+ *
+ * @param enabled - Whether the current sort or query needs stat data
+ * @returns Object containing whether the summaries are loaded, state flags, and retry action
+ */
+export const useStatSummaries = (enabled: boolean): UseStatSummariesReturn => {
+  const isStatSummariesReady = usePokemonStore(selectHasStatSummaries);
+  const isLoading = usePokemonStore(selectIsStatSummariesLoading);
+  const error = usePokemonStore(selectStatSummariesError);
+  const setStatSummaries = usePokemonStore((state) => state.setStatSummaries);
+  const setStatSummariesLoading = usePokemonStore((state) => state.setStatSummariesLoading);
+  const setStatSummariesError = usePokemonStore((state) => state.setStatSummariesError);
+
+  // Results go to the shared store, so a load that outlives the screen still counts
+  const loadSummaries = useCallback(async () => {
+    setStatSummariesLoading(!!true);
+
+    try {
+      setStatSummaries(await fetchStatSummaries());
+    } catch (err) {
+      setStatSummariesError(getErrorMessage(err));
+    }
+  }, [setStatSummaries, setStatSummariesLoading, setStatSummariesError]);
+
+  useEffect(() => {
+    if (!enabled || isStatSummariesReady || isLoading || error) return;
+
+    loadSummaries();
+  }, [enabled, isStatSummariesReady, isLoading, error, loadSummaries]);
+
+  const retry = useCallback(async () => {
+    await loadSummaries();
+  }, [loadSummaries]);
+
+  return {
+    isStatSummariesReady,
+    isLoading,
+    error,
+    retry,
+  };
+};
+
+export default useStatSummaries;
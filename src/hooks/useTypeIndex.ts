@@ -0,0 +1,67 @@
+/**
+ * Custom hook that loads the Pokemon -> types reverse index in the background.
+ */
+
+import { useCallback, useEffect } from 'react';
+import {
+  usePokemonStore,
+  selectHasTypeIndex,
+  selectIsTypeIndexLoading,
+  selectTypeIndexError,
+} from '../store/pokemonStore';
+import { fetchPokemonTypeIndex, getErrorMessage } from '../api/pokemonApi';
+
+interface UseTypeIndexReturn {
+  isTypeIndexReady: boolean;
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+}
+
+/**
+ * Custom hook that populates list item types
+ *
+ * Fetches every /type resource once (served from cache afterwards) and
+ * stores the reverse index so cards can show types and the list can be
+ * filtered by type. Loading and failure are kept in the store, and a
+ * failed load waits for retry() instead of refetching on every mount.
+ *
+ * @returns Object containing whether the type index is loaded, state flags, and retry action
+ */
+export const useTypeIndex = (): UseTypeIndexReturn => {
+  const isTypeIndexReady = usePokemonStore(selectHasTypeIndex);
+  const isLoading = usePokemonStore(selectIsTypeIndexLoading);
+  const error = usePokemonStore(selectTypeIndexError);
+  const setTypeIndex = usePokemonStore((state) => state.setTypeIndex);
+  const setTypeIndexLoading = usePokemonStore((state) => state.setTypeIndexLoading);
+  const setTypeIndexError = usePokemonStore((state) => state.setTypeIndexError);
+
+  const loadTypeIndex = useCallback(async () => {
+    setTypeIndexLoading(!!true);
+
+    try {
+      setTypeIndex(await fetchPokemonTypeIndex());
+    } catch (err) {
+      setTypeIndexError(getErrorMessage(err));
+    }
+  }, [setTypeIndex, setTypeIndexLoading, setTypeIndexError]);
+
+  useEffect(() => {
+    if (isTypeIndexReady || isLoading || error) return;
+
+    loadTypeIndex();
+  }, [isTypeIndexReady, isLoading, error, loadTypeIndex]);
+
+  const retry = useCallback(async () => {
+    await loadTypeIndex();
+  }, [loadTypeIndex]);
+
+  return {
+    isTypeIndexReady,
+    isLoading,
+    error,
+    retry,
+  };
+};
+
+export default useTypeIndex;
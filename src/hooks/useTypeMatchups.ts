@@ -0,0 +1,59 @@
+/**
+ * Custom hook for computing defensive type matchups of a Pokemon.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { fetchTypeChart, getErrorMessage } from '../api/pokemonApi';
+import { groupDefensiveMatchups, MatchupGroup, TypeChart } from '../utils/typeMatchup';
+
+interface UseTypeMatchupsReturn {
+  matchups: MatchupGroup[];
+  isLoading: boolean;
+  error: string | null;
+  retry: () => Promise<void>;
+}
+
+/**
+ * Custom hook for computing defensive type matchups
+ *
+ * @param types - Defending types of the Pokemon (e.g. ["fire", "flying"])
+ * @returns Object containing matchup groups (4x ... immune), state flags, and retry action
+ */
+export const useTypeMatchups = (types: string[]): UseTypeMatchupsReturn => {
+  const [typeChart, setTypeChart] = useState<TypeChart | null>(null);
+  const [isLoading, setIsLoading] = useState(!!false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTypeChart = useCallback(async () => {
+    setIsLoading(!!true);
+    setError(null);
+
+    try {
+      setTypeChart(await fetchTypeChart());
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsLoading(!!false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTypeChart();
+  }, [loadTypeChart]);
+
+  const typesKey = types.join(',');
+
+  const matchups = useMemo(() => {
+    if (!typeChart || !typesKey) return [];
+    return groupDefensiveMatchups(typeChart, typesKey.split(','));
+  }, [typeChart, typesKey]);
+
+  return {
+    matchups,
+    isLoading,
+    error,
+    retry: loadTypeChart,
+  };
+};
+
+export default useTypeMatchups;
@@ -0,0 +1,120 @@
+/**
+ * Custom hook that prefetches detail data and artwork for visible list items.
+ * Lets most card taps open the detail screen without a loading spinner.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { Image, ViewToken } from 'react-native';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { usePokemonStore } from '../store/pokemonStore';
+import { fetchPokemonDetail } from '../api/pokemonApi';
+import { createPrefetchQueue, PrefetchQueue } from '../utils/prefetchQueue';
+import { Pokemon } from '../types';
+
+const PREFETCH_CONCURRENCY = 2;
+
+/**
+ * Items must stay mostly visible for a moment before they're prefetched,
+ * so flinging through the list doesn't queue everything it passes
+ */
+const VIEWABILITY_CONFIG = {
+  itemVisiblePercentThreshold: 50,
+  minimumViewTime: 250,
+};
+
+interface UseViewportPrefetchReturn {
+  onViewableItemsChanged: (info: { viewableItems: ViewToken<Pokemon>[] }) => void;
+  viewabilityConfig: typeof VIEWABILITY_CONFIG;
+}
+
+/**
+ * Prefetching is skipped offline and on connections the OS reports as metered
+ */
+const canPrefetch = (state: NetInfoState): boolean => {
+  if (state.isConnected === false || state.isInternetReachable === false) {
+    return !!false;
+  }
+  return !state.details?.isConnectionExpensive;
+};
+
+/**
+ * Custom hook for viewport-driven prefetching
+ *
+ * Features:
+ * - Fetches detail payloads for visible items into the entity cache
+ * - Warms the image cache with each item's official artwork
+ * - Runs a limited number of requests at once, at low priority (no retries)
+ * - Cancels work for items that scroll away
+ * - Pauses on metered or offline connections
+ *
+ * @returns FlatList props to spread onto the list
+ */
+export const useViewportPrefetch = (): UseViewportPrefetchReturn => {
+  const setPokemonDetail = usePokemonStore((state) => state.setPokemonDetail);
+
+  const isEnabledRef = useRef(!!false);
+  const visibleItemsRef = useRef<Pokemon[]>([]);
+  const queueRef = useRef<PrefetchQueue<Pokemon> | null>(null);
+
+  if (!queueRef.current) {
+    queueRef.current = createPrefetchQueue<Pokemon>({
+      concurrency: PREFETCH_CONCURRENCY,
+      getKey: (pokemon) => pokemon.id,
+      run: async (pokemon, signal) => {
+        let artworkUrl = pokemon.imageUrl;
+
+        if (!usePokemonStore.getState().pokemonById[pokemon.id]) {
+          const detail = await fetchPokemonDetail(pokemon.id, { signal, retry: false });
+          if (signal.aborted) return;
+
+          setPokemonDetail(pokemon.id, detail);
+          artworkUrl = detail.sprites.other?.['official-artwork']?.front_default || artworkUrl;
+        }
+
+        if (artworkUrl && !signal.aborted) {
+          await Image.prefetch(artworkUrl);
+        }
+      },
+    });
+  }
+
+  useEffect(() => {
+    const queue = queueRef.current;
+
+    const unsubscribe = NetInfo.addEventListener((state) => {
+      isEnabledRef.current = canPrefetch(state);
+
+      if (isEnabledRef.current) {
+        queue?.sync(visibleItemsRef.current);
+      } else {
+        queue?.clear();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      queue?.clear();
+    };
+  }, []);
+
+  // FlatList doesn't allow changing this callback, so it must stay stable
+  const onViewableItemsChanged = useCallback(
+    ({ viewableItems }: { viewableItems: ViewToken<Pokemon>[] }) => {
+      visibleItemsRef.current = viewableItems
+        .filter((token) => token.isViewable && token.item)
+        .map((token) => token.item);
+
+      if (isEnabledRef.current) {
+        queueRef.current?.sync(visibleItemsRef.current);
+      }
+    },
+    []
+  );
+
+  return {
+    onViewableItemsChanged,
+    viewabilityConfig: VIEWABILITY_CONFIG,
+  };
+};
+
+export default useViewportPrefetch;
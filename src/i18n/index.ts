@@ -0,0 +1,107 @@
+/**
+ * Translation layer: string catalogs, device locale detection, and t().
+ * The language is resolved once at startup from the device locale.
+ */
+
+import { getLocales, Locale } from 'expo-localization';
+import en from './locales/en';
+import es from './locales/es';
+import fr from './locales/fr';
+import de from './locales/de';
+import ja from './locales/ja';
+import { Catalog, TranslationKey, TranslationParams } from './types';
+
+export type { Catalog, TranslationKey, TranslationParams };
+
+const CATALOGS = { en, es, fr, de, ja } satisfies Record<string, Catalog>;
+
+export type Language = keyof typeof CATALOGS;
+
+export const SUPPORTED_LANGUAGES = Object.keys(CATALOGS) as Language[];
+
+const DEFAULT_LANGUAGE: Language = 'en';
+
+/**
+ * Languages PokeAPI has names and descriptions in, which is a wider
+ * set than the UI catalogs (e.g. Korean, Italian, Chinese)
+ */
+const API_LANGUAGES = ['en', 'es', 'fr', 'de', 'it', 'ko', 'ja', 'ja-Hrkt', 'zh-Hans', 'zh-Hant'];
+
+const TRADITIONAL_CHINESE_REGIONS = ['TW', 'HK', 'MO'];
+
+const getDeviceLocale = (): Locale | undefined => {
+  try {
+    return getLocales()[0];
+  } catch {
+    return undefined;
+  }
+};
+
+const resolveLanguage = (locale: Locale | undefined): Language => {
+  const code = locale?.languageCode;
+  return code && code in CATALOGS ? (code as Language) : DEFAULT_LANGUAGE;
+};
+
+/**
+ * Maps a locale to the PokeAPI language used for names and descriptions.
+ * Chinese picks the traditional or simplified script; Japanese uses the
+ * kana names shown in the games.
+ */
+const resolveApiLanguage = (locale: Locale | undefined): string => {
+  const code = locale?.languageCode ?? DEFAULT_LANGUAGE;
+
+  if (code === 'zh') {
+    const isTraditional =
+      locale?.languageScriptCode === 'Hant' ||
+      TRADITIONAL_CHINESE_REGIONS.includes(locale?.regionCode ?? '');
+    return isTraditional ? 'zh-Hant' : 'zh-Hans';
+  }
+  if (code === 'ja') return 'ja-Hrkt';
+
+  return API_LANGUAGES.includes(code) ? code : DEFAULT_LANGUAGE;
+};
+
+const deviceLocale = getDeviceLocale();
+const language = resolveLanguage(deviceLocale);
+const apiLanguage = resolveApiLanguage(deviceLocale);
+
+/**
+ * UI language (one of the bundled catalogs)
+ */
+export const getLanguage = (): Language => language;
+
+/**
+ * PokeAPI language code for names and descriptions (e.g. "de", "zh-Hant")
+ */
+export const getApiLanguage = (): string => apiLanguage;
+
+/**
+ * BCP 47 tag of the device locale, for number formatting (e.g. "de-DE")
+ */
+export const getLocaleTag = (): string => deviceLocale?.languageTag ?? DEFAULT_LANGUAGE;
+
+/**
+ * Whether the device region measures in feet and pounds
+ */
+export const usesImperialUnits = (): boolean => deviceLocale?.measurementSystem === 'us';
+
+const interpolate = (template: string, params?: TranslationParams): string => {
+  if (!params) return template;
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+};
+
+/**
+ * Translates a key into the UI language, falling back to English
+ *
+ * @param key - Catalog key (e.g. "detail.baseStats")
+ * @param params - Values for "{name}" placeholders
+ */
+export const t = (key: TranslationKey, params?: TranslationParams): string => {
+  const catalog: Catalog = CATALOGS[language];
+  return interpolate(catalog[key] ?? en[key], params);
+};
+
+export default t;
@@ -0,0 +1,275 @@
+/**
+ * German strings.
+ */
+
+import { Catalog } from '../types';
+
+const de: Catalog = {
+  // Shared
+  'common.loading': 'Pokémon werden geladen...',
+  'common.loadingMore': 'Weitere Pokémon werden geladen...',
+  'common.endOfList': 'Du hast sie alle! 🎉',
+  'common.errorTitle': 'Hoppla! Etwas ist schiefgelaufen',
+  'common.tryAgain': 'Erneut versuchen',
+  'common.tapToRetry': '{error} Zum Wiederholen tippen.',
+  'common.emptyTitle': 'Keine Einträge gefunden',
+  'common.emptySubtitle': 'Passe deine Suche an oder ziehe zum Aktualisieren',
+  'common.noDescription': 'Keine Beschreibung verfügbar.',
+  'common.noPokemonFound': 'Keine Pokémon gefunden',
+  'common.cancel': 'Abbrechen',
+  'common.clear': 'Zurücksetzen',
+  'common.hidden': 'Versteckt',
+  'common.unknown': 'Unbekannt',
+  'common.sortBy': 'Sortieren nach',
+  'common.searchPlaceholder': 'Pokémon suchen...',
+
+  // Navigation
+  'app.title': 'Pokémon Explorer',
+  'app.documentTitle': '{title} · Pokémon Explorer',
+  'screen.list': 'Pokédex',
+  'screen.detail': 'Pokémon-Details',
+  'screen.favorites': 'Favoriten',
+  'screen.compare': 'Vergleichen',
+  'screen.generations': 'Generationen',
+  'screen.ability': 'Fähigkeit',
+  'screen.settings': 'Einstellungen',
+  'screen.notFound': 'Nicht gefunden',
+
+  // List
+  'list.subtitle': 'Entdecke und erkunde Pokémon',
+  'list.searchPlaceholder': 'Name, Nummer oder type:fire...',
+  'list.noResults': 'Keine Ergebnisse für „{query}“. Versuche eine andere Suche.',
+  'list.noTypeMatches': 'Kein Pokémon passt zu den gewählten Typen.',
+  'list.emptySubtitle': 'Nach unten ziehen, um Pokémon zu laden.',
+  'list.selectPrompt': 'Wähle ein Pokémon, um seine Details zu sehen.',
+  'list.statsLoading': 'Werte werden geladen…',
+  'list.statsUnavailable': 'Sortieren und Filtern nach Werten ist nicht verfügbar.',
+  'list.typesLoading': 'Typen werden geladen…',
+  'list.typesUnavailable': 'Typfilter sind nicht verfügbar.',
+  'typeFilter.any': 'Einer der Typen',
+  'typeFilter.all': 'Alle Typen',
+
+  // Sorting
+  'sort.dexAsc': 'Nummer (aufsteigend)',
+  'sort.dexDesc': 'Nummer (absteigend)',
+  'sort.nameAsc': 'Name (A → Z)',
+  'sort.nameDesc': 'Name (Z → A)',
+  'sort.total': 'Basiswertsumme',
+  'sort.height': 'Größe (größte zuerst)',
+  'sort.weight': 'Gewicht (schwerste zuerst)',
+
+  // Stats
+  'stats.hp': 'KP',
+  'stats.attack': 'Angriff',
+  'stats.defense': 'Verteidigung',
+  'stats.specialAttack': 'Sp.-Angriff',
+  'stats.specialDefense': 'Sp.-Verteidigung',
+  'stats.speed': 'Initiative',
+  'statTier.excellent': 'Top',
+  'statTier.good': 'Gut',
+  'statTier.average': 'Mittel',
+  'statTier.low': 'Niedrig',
+  'statsShort.hp': 'KP',
+  'statsShort.attack': 'ANG',
+  'statsShort.defense': 'VER',
+  'statsShort.specialAttack': 'SP.ANG',
+  'statsShort.specialDefense': 'SP.VER',
+  'statsShort.speed': 'INIT',
+
+  // Detail
+  'detail.compareWith': 'Vergleichen mit…',
+  'detail.physicalInfo': 'Körperdaten',
+  'detail.height': 'Größe',
+  'detail.weight': 'Gewicht',
+  'detail.baseXp': 'Basis-EP',
+  'detail.baseStats': 'Basiswerte',
+  'detail.matchups': 'Schwächen & Resistenzen',
+  'detail.abilities': 'Fähigkeiten',
+  'detail.evolution': 'Entwicklung',
+  'detail.moves': 'Attacken',
+  'matchup.immune': 'Immun',
+
+  // Types
+  'types.normal': 'Normal',
+  'types.fighting': 'Kampf',
+  'types.flying': 'Flug',
+  'types.poison': 'Gift',
+  'types.ground': 'Boden',
+  'types.rock': 'Gestein',
+  'types.bug': 'Käfer',
+  'types.ghost': 'Geist',
+  'types.steel': 'Stahl',
+  'types.fire': 'Feuer',
+  'types.water': 'Wasser',
+  'types.grass': 'Pflanze',
+  'types.electric': 'Elektro',
+  'types.psychic': 'Psycho',
+  'types.ice': 'Eis',
+  'types.dragon': 'Drache',
+  'types.dark': 'Unlicht',
+  'types.fairy': 'Fee',
+
+  // Units
+  'units.metric': 'Metrisch',
+  'units.imperial': 'Imperial',
+  'units.locale': 'Geräteeinstellung',
+
+  // Theme
+  'theme.system': 'Wie System',
+  'theme.light': 'Hell',
+  'theme.dark': 'Dunkel',
+
+  // Color-blind modes
+  'colorBlind.off': 'Aus',
+  'colorBlind.protanopia': 'Protanopie',
+  'colorBlind.deuteranopia': 'Deuteranopie',
+  'colorBlind.tritanopia': 'Tritanopie',
+
+  // Evolution
+  'evolution.none': 'Dieses Pokémon entwickelt sich nicht.',
+  'evolution.level': 'Lv. {level}',
+  'evolution.levelUp': 'Levelaufstieg',
+  'evolution.levelUpWith': 'Levelaufstieg mit',
+  'evolution.useItem': '{item} verwenden',
+  'evolution.useAnyItem': 'Item verwenden',
+  'evolution.trade': 'Tausch',
+  'evolution.tradeFor': 'Tausch gegen {species}',
+  'evolution.highFriendship': 'hoher Freundschaft',
+  'evolution.highAffection': 'hoher Zuneigung',
+  'evolution.highBeauty': 'hoher Schönheit',
+  'evolution.holding': 'mit {item}',
+  'evolution.knowing': 'mit {move}',
+  'evolution.knowingType': 'mit einer {type}-Attacke',
+  'evolution.at': 'bei {location}',
+  'evolution.day': 'tagsüber',
+  'evolution.night': 'nachts',
+  'evolution.dusk': 'in der Dämmerung',
+  'evolution.female': '(weiblich)',
+  'evolution.male': '(männlich)',
+  'evolution.raining': 'bei Regen',
+  'evolution.upsideDown': 'Gerät auf dem Kopf',
+
+  // Moves
+  'moves.level': 'Lv {level}',
+  'moves.evolution': 'Entw.',
+  'moves.none': 'Keine Attackendaten verfügbar.',
+  'moves.showLess': 'Weniger anzeigen',
+  'moves.showAll': 'Alle {count} anzeigen',
+  'moves.power': 'Stärke',
+  'moves.accuracy': 'Genauigkeit',
+  'moves.pp': 'AP',
+  'moves.method.levelUp': 'Levelaufstieg',
+  'moves.method.machine': 'TM / VM',
+  'moves.method.egg': 'Ei-Attacken',
+  'moves.method.tutor': 'Attacken-Lehrer',
+
+  // Sprites
+  'sprites.artwork': 'Artwork',
+  'sprites.home': 'HOME',
+  'sprites.front': 'Vorne',
+  'sprites.back': 'Hinten',
+  'sprites.shiny': '✦ Schillernd',
+  'sprites.female': '♀ Weiblich',
+  'sprites.male': '♂ Männlich',
+  'sprites.zoomHint': 'Zum Zoomen auseinanderziehen oder doppelt tippen',
+  'sprites.gameLabel': '{game} · Gen. {generation}',
+
+  // Abilities
+  'ability.pokemonWith': 'Pokémon mit {name}',
+  'ability.introduced': 'Eingeführt in {generation}',
+
+  // Generations
+  'generations.name': 'Generation {numeral}',
+  'generations.subtitle': '{count} Pokémon in {generations} Generationen',
+  'generations.empty': 'Keine Generationen gefunden',
+  'generations.emptySubtitle': 'Prüfe deine Verbindung und versuche es erneut.',
+
+  // Favorites
+  'favorites.subtitle': '{count} Pokémon gespeichert',
+  'favorites.searchPlaceholder': 'Favoriten durchsuchen...',
+  'favorites.emptyTitle': 'Noch keine Favoriten',
+  'favorites.emptySubtitle':
+    'Tippe auf das Herz eines Pokémon oder halte seine Karte gedrückt, um es hier zu speichern.',
+  'favorites.noMatches': 'Keine Favoriten passen zu „{query}“.',
+
+  // Compare
+  'compare.empty': 'Nichts zu vergleichen',
+  'compare.emptySubtitle': 'Öffne ein Pokémon und tippe auf „Vergleichen mit…“.',
+  'compare.swap': 'Tauschen',
+  'compare.remove': 'Entfernen',
+  'compare.add': 'Hinzufügen',
+  'compare.baseStatTotal': 'Basiswertsumme',
+  'compare.total': 'Summe',
+  'compare.swapPokemon': 'Pokémon tauschen',
+  'compare.addPokemon': 'Pokémon hinzufügen',
+  'compare.addPrompt': 'Füge ein weiteres Pokémon hinzu, um die Werte zu vergleichen.',
+
+  // Settings
+  'settings.units': 'Einheiten',
+  'settings.appearance': 'Darstellung',
+  'settings.colorBlind': 'Farbenblind-Modus',
+  'settings.colorBlindHint':
+    'Passt die Farben von Werten und Schwächen an. Typsymbole und Bewertungen werden immer angezeigt.',
+  'settings.pageSize': 'Pokémon pro Seite',
+  'settings.pageSizeHint': 'Wie viele Pokémon beim Scrollen auf einmal geladen werden.',
+  'settings.searchDelay': 'Suchverzögerung',
+  'settings.searchDelayHint': 'Wartezeit nach der Eingabe, bevor gesucht wird.',
+  'settings.milliseconds': '{value} ms',
+  'settings.animations': 'Animationen',
+  'settings.animationsHint': 'Statusbalken, Übergänge und Einblendungen.',
+  'settings.defaultSort': 'Standardsortierung',
+  'settings.defaultSortHint': 'Reihenfolge des Pokédex beim Start der App.',
+  'settings.clearCache': 'Zwischenspeicher leeren',
+  'settings.clearCacheHint':
+    'Entfernt gespeicherte API-Antworten. Favoriten und Einstellungen bleiben erhalten.',
+  'settings.clearing': 'Wird geleert…',
+  'settings.cleared': 'Zwischenspeicher geleert',
+
+  // Picker
+  'picker.title': 'Wähle ein Pokémon',
+  'picker.searchPlaceholder': 'Nach Name oder Nummer suchen...',
+
+  // Not found
+  'notFound.title': 'Seite nicht gefunden',
+  'notFound.resource': 'Wir konnten kein Pokémon zu „{resource}“ finden.',
+  'notFound.message': 'Der Link führt nirgendwohin im Pokédex.',
+  'notFound.back': 'Zurück zum Pokédex',
+
+  // Accessibility
+  'a11y.back': 'Zurück',
+  'a11y.clearSearch': 'Suche löschen',
+  'a11y.addFavorite': 'Zu Favoriten hinzufügen',
+  'a11y.removeFavorite': 'Aus Favoriten entfernen',
+  'a11y.pokemonCard': '{name}, Nummer {number}, Typ {types}',
+  'a11y.pokemonCardUntyped': '{name}, Nummer {number}',
+  'a11y.typePair': '{first} und {second}',
+  'a11y.type': 'Typ {type}',
+  'a11y.openDetails': 'Öffnet die Details',
+  'a11y.statValue': '{value} von {max}',
+  'a11y.swapPokemon': '{name} tauschen',
+  'a11y.removePokemon': '{name} entfernen',
+  'a11y.close': 'Schließen',
+  'a11y.openViewer': 'Öffnet die Vollbildansicht',
+
+  // Search query syntax
+  'query.missingValue': 'Fehlender Wert für „{filter}“',
+  'query.typeOperator': '„type:“ mit einem Typnamen verwenden',
+  'query.unknownType': 'Unbekannter Typ „{value}“',
+  'query.abilityOperator': '„ability:“ mit einem Fähigkeitsnamen verwenden',
+  'query.unknownFlag': 'Unbekanntes Merkmal „{value}“',
+  'query.generationRange': 'Generation muss zwischen 1 und {max} liegen',
+  'query.needsNumber': '„{key}“ braucht eine Zahl',
+  'query.unknownFilter': 'Unbekannter Filter „{key}“',
+
+  // Errors
+  'errors.timeout': 'Zeitüberschreitung. Prüfe deine Verbindung und versuche es erneut.',
+  'errors.network': 'Netzwerkfehler. Prüfe deine Internetverbindung.',
+  'errors.notFound': 'Pokémon nicht gefunden.',
+  'errors.rateLimited': 'Zu viele Anfragen. Bitte warte kurz und versuche es erneut.',
+  'errors.rateLimitedWait': 'Zu viele Anfragen. Bitte warte {seconds} s und versuche es erneut.',
+  'errors.server': 'Serverfehler. Bitte versuche es später erneut.',
+  'errors.cancelled': 'Die Anfrage wurde abgebrochen.',
+  'errors.unexpected': 'Ein unerwarteter Fehler ist aufgetreten. Bitte versuche es erneut.',
+};
+
+export default de;
@@ -0,0 +1,274 @@
+/**
+ * English strings. This catalog defines every key; other catalogs
+ * may leave keys out and fall back to English.
+ */
+
+const en = {
+  // Shared
+  'common.loading': 'Loading Pokémon...',
+  'common.loadingMore': 'Loading more Pokémon...',
+  'common.endOfList': "You've caught 'em all! 🎉",
+  'common.errorTitle': 'Oops! Something went wrong',
+  'common.tryAgain': 'Try Again',
+  'common.tapToRetry': '{error} Tap to retry.',
+  'common.emptyTitle': 'No items found',
+  'common.emptySubtitle': 'Try adjusting your search or pull to refresh',
+  'common.noDescription': 'No description available.',
+  'common.noPokemonFound': 'No Pokémon found',
+  'common.cancel': 'Cancel',
+  'common.clear': 'Clear',
+  'common.hidden': 'Hidden',
+  'common.unknown': 'Unknown',
+  'common.sortBy': 'Sort by',
+  'common.searchPlaceholder': 'Search Pokémon...',
+
+  // Navigation
+  'app.title': 'Pokémon Explorer',
+  'app.documentTitle': '{title} · Pokémon Explorer',
+  'screen.list': 'Pokédex',
+  'screen.detail': 'Pokémon Details',
+  'screen.favorites': 'Favorites',
+  'screen.compare': 'Compare',
+  'screen.generations': 'Generations',
+  'screen.ability': 'Ability',
+  'screen.settings': 'Settings',
+  'screen.notFound': 'Not Found',
+
+  // List
+  'list.subtitle': 'Discover and explore Pokémon',
+  'list.searchPlaceholder': 'Search name, number, or type:fire...',
+  'list.noResults': 'No results for "{query}". Try a different search.',
+  'list.noTypeMatches': 'No Pokémon match the selected types.',
+  'list.emptySubtitle': 'Pull down to refresh and load Pokémon.',
+  'list.selectPrompt': 'Select a Pokémon to see its details.',
+  'list.statsLoading': 'Loading stats…',
+  'list.statsUnavailable': 'Stat sorting and filters are unavailable.',
+  'list.typesLoading': 'Loading types…',
+  'list.typesUnavailable': 'Type filters are unavailable.',
+  'typeFilter.any': 'Any type',
+  'typeFilter.all': 'All types',
+
+  // Sorting
+  'sort.dexAsc': 'Number (low → high)',
+  'sort.dexDesc': 'Number (high → low)',
+  'sort.nameAsc': 'Name (A → Z)',
+  'sort.nameDesc': 'Name (Z → A)',
+  'sort.total': 'Base stat total',
+  'sort.height': 'Height (tallest first)',
+  'sort.weight': 'Weight (heaviest first)',
+
+  // Stats
+  'stats.hp': 'HP',
+  'stats.attack': 'Attack',
+  'stats.defense': 'Defense',
+  'stats.specialAttack': 'Sp. Attack',
+  'stats.specialDefense': 'Sp. Defense',
+  'stats.speed': 'Speed',
+  'statTier.excellent': 'Great',
+  'statTier.good': 'Good',
+  'statTier.average': 'Fair',
+  'statTier.low': 'Low',
+  'statsShort.hp': 'HP',
+  'statsShort.attack': 'ATK',
+  'statsShort.defense': 'DEF',
+  'statsShort.specialAttack': 'SP.ATK',
+  'statsShort.specialDefense': 'SP.DEF',
+  'statsShort.speed': 'SPD',
+
+  // Detail
+  'detail.compareWith': 'Compare with…',
+  'detail.physicalInfo': 'Physical Info',
+  'detail.height': 'Height',
+  'detail.weight': 'Weight',
+  'detail.baseXp': 'Base XP',
+  'detail.baseStats': 'Base Stats',
+  'detail.matchups': 'Weaknesses & Resistances',
+  'detail.abilities': 'Abilities',
+  'detail.evolution': 'Evolution',
+  'detail.moves': 'Moves',
+  'matchup.immune': 'Immune',
+
+  // Types
+  'types.normal': 'Normal',
+  'types.fighting': 'Fighting',
+  'types.flying': 'Flying',
+  'types.poison': 'Poison',
+  'types.ground': 'Ground',
+  'types.rock': 'Rock',
+  'types.bug': 'Bug',
+  'types.ghost': 'Ghost',
+  'types.steel': 'Steel',
+  'types.fire': 'Fire',
+  'types.water': 'Water',
+  'types.grass': 'Grass',
+  'types.electric': 'Electric',
+  'types.psychic': 'Psychic',
+  'types.ice': 'Ice',
+  'types.dragon': 'Dragon',
+  'types.dark': 'Dark',
+  'types.fairy': 'Fairy',
+
+  // Units
+  'units.metric': 'Metric',
+  'units.imperial': 'Imperial',
+  'units.locale': 'Device default',
+
+  // Theme
+  'theme.system': 'Match system',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+
+  // Color-blind modes
+  'colorBlind.off': 'Off',
+  'colorBlind.protanopia': 'Protanopia',
+  'colorBlind.deuteranopia': 'Deuteranopia',
+  'colorBlind.tritanopia': 'Tritanopia',
+
+  // Evolution
+  'evolution.none': 'This Pokémon does not evolve.',
+  'evolution.level': 'Lv. {level}',
+  'evolution.levelUp': 'Level up',
+  'evolution.levelUpWith': 'Level up with',
+  'evolution.useItem': 'Use {item}',
+  'evolution.useAnyItem': 'Use item',
+  'evolution.trade': 'Trade',
+  'evolution.tradeFor': 'Trade for {species}',
+  'evolution.highFriendship': 'high friendship',
+  'evolution.highAffection': 'high affection',
+  'evolution.highBeauty': 'high beauty',
+  'evolution.holding': 'holding {item}',
+  'evolution.knowing': 'knowing {move}',
+  'evolution.knowingType': 'knowing a {type} move',
+  'evolution.at': 'at {location}',
+  'evolution.day': 'during the day',
+  'evolution.night': 'at night',
+  'evolution.dusk': 'at dusk',
+  'evolution.female': '(female)',
+  'evolution.male': '(male)',
+  'evolution.raining': 'while raining',
+  'evolution.upsideDown': 'device upside down',
+
+  // Moves
+  'moves.level': 'Lv {level}',
+  'moves.evolution': 'Evo',
+  'moves.none': 'No move data available.',
+  'moves.showLess': 'Show less',
+  'moves.showAll': 'Show all {count}',
+  'moves.power': 'Power',
+  'moves.accuracy': 'Accuracy',
+  'moves.pp': 'PP',
+  'moves.method.levelUp': 'Level Up',
+  'moves.method.machine': 'TM / HM',
+  'moves.method.egg': 'Egg Moves',
+  'moves.method.tutor': 'Move Tutor',
+
+  // Sprites
+  'sprites.artwork': 'Artwork',
+  'sprites.home': 'HOME',
+  'sprites.front': 'Front',
+  'sprites.back': 'Back',
+  'sprites.shiny': '✦ Shiny',
+  'sprites.female': '♀ Female',
+  'sprites.male': '♂ Male',
+  'sprites.zoomHint': 'Pinch or double-tap to zoom',
+  'sprites.gameLabel': '{game} · Gen {generation}',
+
+  // Abilities
+  'ability.pokemonWith': 'Pokémon with {name}',
+  'ability.introduced': 'Introduced in {generation}',
+
+  // Generations
+  'generations.name': 'Generation {numeral}',
+  'generations.subtitle': '{count} Pokémon across {generations} generations',
+  'generations.empty': 'No generations found',
+  'generations.emptySubtitle': 'Check your connection and try again.',
+
+  // Favorites
+  'favorites.subtitle': '{count} Pokémon saved',
+  'favorites.searchPlaceholder': 'Search favorites...',
+  'favorites.emptyTitle': 'No favorites yet',
+  'favorites.emptySubtitle': 'Tap the heart on a Pokémon or long-press its card to save it here.',
+  'favorites.noMatches': 'No favorites match "{query}".',
+
+  // Compare
+  'compare.empty': 'Nothing to compare',
+  'compare.emptySubtitle': 'Open a Pokémon and tap “Compare with…” to start.',
+  'compare.swap': 'Swap',
+  'compare.remove': 'Remove',
+  'compare.add': 'Add',
+  'compare.baseStatTotal': 'Base Stat Total',
+  'compare.total': 'Total',
+  'compare.swapPokemon': 'Swap Pokémon',
+  'compare.addPokemon': 'Add Pokémon',
+  'compare.addPrompt': 'Add another Pokémon to compare their stats.',
+
+  // Settings
+  'settings.units': 'Units',
+  'settings.appearance': 'Appearance',
+  'settings.colorBlind': 'Color-blind mode',
+  'settings.colorBlindHint':
+    'Adjusts stat and matchup colors. Type symbols and stat ratings are always shown.',
+  'settings.pageSize': 'Pokémon per page',
+  'settings.pageSizeHint': 'How many Pokémon load at a time while scrolling.',
+  'settings.searchDelay': 'Search delay',
+  'settings.searchDelayHint': 'How long to wait after typing before searching.',
+  'settings.milliseconds': '{value} ms',
+  'settings.animations': 'Animations',
+  'settings.animationsHint': 'Stat bars, transitions, and sheets.',
+  'settings.defaultSort': 'Default sort',
+  'settings.defaultSortHint': 'Order of the Pokédex when the app starts.',
+  'settings.clearCache': 'Clear cached data',
+  'settings.clearCacheHint': 'Removes saved API responses. Favorites and settings are kept.',
+  'settings.clearing': 'Clearing…',
+  'settings.cleared': 'Cached data cleared',
+
+  // Picker
+  'picker.title': 'Choose a Pokémon',
+  'picker.searchPlaceholder': 'Search by name or number...',
+
+  // Not found
+  'notFound.title': 'Page not found',
+  'notFound.resource': 'We couldn\'t find a Pokémon matching "{resource}".',
+  'notFound.message': "The link you followed doesn't lead anywhere in the Pokédex.",
+  'notFound.back': 'Back to Pokédex',
+
+  // Accessibility
+  'a11y.back': 'Back',
+  'a11y.clearSearch': 'Clear search',
+  'a11y.addFavorite': 'Add to favorites',
+  'a11y.removeFavorite': 'Remove from favorites',
+  'a11y.pokemonCard': '{name}, number {number}, {types} type',
+  'a11y.pokemonCardUntyped': '{name}, number {number}',
+  'a11y.typePair': '{first} and {second}',
+  'a11y.type': '{type} type',
+  'a11y.openDetails': 'Opens details',
+  'a11y.statValue': '{value} of {max}',
+  'a11y.swapPokemon': 'Swap {name}',
+  'a11y.removePokemon': 'Remove {name}',
+  'a11y.close': 'Close',
+  'a11y.openViewer': 'Opens the full-screen viewer',
+
+  // Search query syntax
+  'query.missingValue': 'Missing value for "{filter}"',
+  'query.typeOperator': 'Use "type:" with a type name',
+  'query.unknownType': 'Unknown type "{value}"',
+  'query.abilityOperator': 'Use "ability:" with an ability name',
+  'query.unknownFlag': 'Unknown flag "{value}"',
+  'query.generationRange': 'Generation must be 1-{max}',
+  'query.needsNumber': '"{key}" needs a number',
+  'query.unknownFilter': 'Unknown filter "{key}"',
+
+  // Errors
+  'errors.timeout': 'Request timed out. Please check your connection and try again.',
+  'errors.network': 'Network error. Please check your internet connection.',
+  'errors.notFound': 'Pokemon not found.',
+  'errors.rateLimited': 'Too many requests. Please wait a moment and try again.',
+  'errors.rateLimitedWait': 'Too many requests. Please wait {seconds}s and try again.',
+  'errors.server': 'Server error. Please try again later.',
+  'errors.cancelled': 'Request was cancelled.',
+  'errors.unexpected': 'An unexpected error occurred. Please try again.',
+};
+
+export type TranslationKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,275 @@
+/**
+ * Spanish strings.
+ */
+
+import { Catalog } from '../types';
+
+const es: Catalog = {
+  // Shared
+  'common.loading': 'Cargando Pokémon...',
+  'common.loadingMore': 'Cargando más Pokémon...',
+  'common.endOfList': '¡Los tienes todos! 🎉',
+  'common.errorTitle': '¡Vaya! Algo salió mal',
+  'common.tryAgain': 'Reintentar',
+  'common.tapToRetry': '{error} Toca para reintentar.',
+  'common.emptyTitle': 'No se encontró nada',
+  'common.emptySubtitle': 'Ajusta la búsqueda o desliza hacia abajo para recargar',
+  'common.noDescription': 'No hay descripción disponible.',
+  'common.noPokemonFound': 'No se encontraron Pokémon',
+  'common.cancel': 'Cancelar',
+  'common.clear': 'Borrar',
+  'common.hidden': 'Oculta',
+  'common.unknown': 'Desconocido',
+  'common.sortBy': 'Ordenar por',
+  'common.searchPlaceholder': 'Buscar Pokémon...',
+
+  // Navigation
+  'app.title': 'Pokémon Explorer',
+  'app.documentTitle': '{title} · Pokémon Explorer',
+  'screen.list': 'Pokédex',
+  'screen.detail': 'Detalles del Pokémon',
+  'screen.favorites': 'Favoritos',
+  'screen.compare': 'Comparar',
+  'screen.generations': 'Generaciones',
+  'screen.ability': 'Habilidad',
+  'screen.settings': 'Ajustes',
+  'screen.notFound': 'No encontrado',
+
+  // List
+  'list.subtitle': 'Descubre y explora Pokémon',
+  'list.searchPlaceholder': 'Busca nombre, número o type:fire...',
+  'list.noResults': 'Sin resultados para "{query}". Prueba otra búsqueda.',
+  'list.noTypeMatches': 'Ningún Pokémon coincide con los tipos elegidos.',
+  'list.emptySubtitle': 'Desliza hacia abajo para cargar Pokémon.',
+  'list.selectPrompt': 'Selecciona un Pokémon para ver sus detalles.',
+  'list.statsLoading': 'Cargando estadísticas…',
+  'list.statsUnavailable': 'El orden y los filtros por estadísticas no están disponibles.',
+  'list.typesLoading': 'Cargando tipos…',
+  'list.typesUnavailable': 'Los filtros por tipo no están disponibles.',
+  'typeFilter.any': 'Cualquier tipo',
+  'typeFilter.all': 'Todos los tipos',
+
+  // Sorting
+  'sort.dexAsc': 'Número (menor → mayor)',
+  'sort.dexDesc': 'Número (mayor → menor)',
+  'sort.nameAsc': 'Nombre (A → Z)',
+  'sort.nameDesc': 'Nombre (Z → A)',
+  'sort.total': 'Total de estadísticas',
+  'sort.height': 'Altura (más alto primero)',
+  'sort.weight': 'Peso (más pesado primero)',
+
+  // Stats
+  'stats.hp': 'PS',
+  'stats.attack': 'Ataque',
+  'stats.defense': 'Defensa',
+  'stats.specialAttack': 'At. Esp.',
+  'stats.specialDefense': 'Def. Esp.',
+  'stats.speed': 'Velocidad',
+  'statTier.excellent': 'Excelente',
+  'statTier.good': 'Bueno',
+  'statTier.average': 'Regular',
+  'statTier.low': 'Bajo',
+  'statsShort.hp': 'PS',
+  'statsShort.attack': 'ATQ',
+  'statsShort.defense': 'DEF',
+  'statsShort.specialAttack': 'AT.ESP',
+  'statsShort.specialDefense': 'DEF.ESP',
+  'statsShort.speed': 'VEL',
+
+  // Detail
+  'detail.compareWith': 'Comparar con…',
+  'detail.physicalInfo': 'Datos físicos',
+  'detail.height': 'Altura',
+  'detail.weight': 'Peso',
+  'detail.baseXp': 'Exp. base',
+  'detail.baseStats': 'Estadísticas base',
+  'detail.matchups': 'Debilidades y resistencias',
+  'detail.abilities': 'Habilidades',
+  'detail.evolution': 'Evolución',
+  'detail.moves': 'Movimientos',
+  'matchup.immune': 'Inmune',
+
+  // Types
+  'types.normal': 'Normal',
+  'types.fighting': 'Lucha',
+  'types.flying': 'Volador',
+  'types.poison': 'Veneno',
+  'types.ground': 'Tierra',
+  'types.rock': 'Roca',
+  'types.bug': 'Bicho',
+  'types.ghost': 'Fantasma',
+  'types.steel': 'Acero',
+  'types.fire': 'Fuego',
+  'types.water': 'Agua',
+  'types.grass': 'Planta',
+  'types.electric': 'Eléctrico',
+  'types.psychic': 'Psíquico',
+  'types.ice': 'Hielo',
+  'types.dragon': 'Dragón',
+  'types.dark': 'Siniestro',
+  'types.fairy': 'Hada',
+
+  // Units
+  'units.metric': 'Métrico',
+  'units.imperial': 'Imperial',
+  'units.locale': 'Según el dispositivo',
+
+  // Theme
+  'theme.system': 'Según el sistema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Oscuro',
+
+  // Color-blind modes
+  'colorBlind.off': 'Desactivado',
+  'colorBlind.protanopia': 'Protanopía',
+  'colorBlind.deuteranopia': 'Deuteranopía',
+  'colorBlind.tritanopia': 'Tritanopía',
+
+  // Evolution
+  'evolution.none': 'Este Pokémon no evoluciona.',
+  'evolution.level': 'Nv. {level}',
+  'evolution.levelUp': 'Subir de nivel',
+  'evolution.levelUpWith': 'Subir de nivel con',
+  'evolution.useItem': 'Usar {item}',
+  'evolution.useAnyItem': 'Usar objeto',
+  'evolution.trade': 'Intercambio',
+  'evolution.tradeFor': 'Intercambio por {species}',
+  'evolution.highFriendship': 'amistad alta',
+  'evolution.highAffection': 'afecto alto',
+  'evolution.highBeauty': 'belleza alta',
+  'evolution.holding': 'llevando {item}',
+  'evolution.knowing': 'sabiendo {move}',
+  'evolution.knowingType': 'sabiendo un movimiento de tipo {type}',
+  'evolution.at': 'en {location}',
+  'evolution.day': 'de día',
+  'evolution.night': 'de noche',
+  'evolution.dusk': 'al anochecer',
+  'evolution.female': '(hembra)',
+  'evolution.male': '(macho)',
+  'evolution.raining': 'mientras llueve',
+  'evolution.upsideDown': 'con la consola boca abajo',
+
+  // Moves
+  'moves.level': 'Nv {level}',
+  'moves.evolution': 'Evo',
+  'moves.none': 'No hay datos de movimientos.',
+  'moves.showLess': 'Mostrar menos',
+  'moves.showAll': 'Mostrar los {count}',
+  'moves.power': 'Potencia',
+  'moves.accuracy': 'Precisión',
+  'moves.pp': 'PP',
+  'moves.method.levelUp': 'Por nivel',
+  'moves.method.machine': 'MT / MO',
+  'moves.method.egg': 'Movimientos huevo',
+  'moves.method.tutor': 'Tutor de movimientos',
+
+  // Sprites
+  'sprites.artwork': 'Ilustración',
+  'sprites.home': 'HOME',
+  'sprites.front': 'Frente',
+  'sprites.back': 'Espalda',
+  'sprites.shiny': '✦ Variocolor',
+  'sprites.female': '♀ Hembra',
+  'sprites.male': '♂ Macho',
+  'sprites.zoomHint': 'Pellizca o toca dos veces para ampliar',
+  'sprites.gameLabel': '{game} · Gen {generation}',
+
+  // Abilities
+  'ability.pokemonWith': 'Pokémon con {name}',
+  'ability.introduced': 'Introducida en la {generation}',
+
+  // Generations
+  'generations.name': 'Generación {numeral}',
+  'generations.subtitle': '{count} Pokémon en {generations} generaciones',
+  'generations.empty': 'No se encontraron generaciones',
+  'generations.emptySubtitle': 'Comprueba tu conexión e inténtalo de nuevo.',
+
+  // Favorites
+  'favorites.subtitle': '{count} Pokémon guardados',
+  'favorites.searchPlaceholder': 'Buscar favoritos...',
+  'favorites.emptyTitle': 'Aún no hay favoritos',
+  'favorites.emptySubtitle':
+    'Toca el corazón de un Pokémon o mantén pulsada su tarjeta para guardarlo aquí.',
+  'favorites.noMatches': 'Ningún favorito coincide con "{query}".',
+
+  // Compare
+  'compare.empty': 'Nada que comparar',
+  'compare.emptySubtitle': 'Abre un Pokémon y toca “Comparar con…” para empezar.',
+  'compare.swap': 'Cambiar',
+  'compare.remove': 'Quitar',
+  'compare.add': 'Añadir',
+  'compare.baseStatTotal': 'Total de estadísticas base',
+  'compare.total': 'Total',
+  'compare.swapPokemon': 'Cambiar Pokémon',
+  'compare.addPokemon': 'Añadir Pokémon',
+  'compare.addPrompt': 'Añade otro Pokémon para comparar sus estadísticas.',
+
+  // Settings
+  'settings.units': 'Unidades',
+  'settings.appearance': 'Apariencia',
+  'settings.colorBlind': 'Modo para daltonismo',
+  'settings.colorBlindHint':
+    'Ajusta los colores de estadísticas y eficacias. Los símbolos de tipo y las valoraciones siempre se muestran.',
+  'settings.pageSize': 'Pokémon por página',
+  'settings.pageSizeHint': 'Cuántos Pokémon se cargan a la vez al desplazarte.',
+  'settings.searchDelay': 'Retraso de búsqueda',
+  'settings.searchDelayHint': 'Cuánto esperar tras escribir antes de buscar.',
+  'settings.milliseconds': '{value} ms',
+  'settings.animations': 'Animaciones',
+  'settings.animationsHint': 'Barras de estadísticas, transiciones y paneles.',
+  'settings.defaultSort': 'Orden predeterminado',
+  'settings.defaultSortHint': 'Orden de la Pokédex al abrir la app.',
+  'settings.clearCache': 'Borrar datos en caché',
+  'settings.clearCacheHint':
+    'Elimina las respuestas guardadas de la API. Se conservan favoritos y ajustes.',
+  'settings.clearing': 'Borrando…',
+  'settings.cleared': 'Datos en caché borrados',
+
+  // Picker
+  'picker.title': 'Elige un Pokémon',
+  'picker.searchPlaceholder': 'Buscar por nombre o número...',
+
+  // Not found
+  'notFound.title': 'Página no encontrada',
+  'notFound.resource': 'No encontramos ningún Pokémon que coincida con "{resource}".',
+  'notFound.message': 'El enlace que seguiste no lleva a ninguna parte de la Pokédex.',
+  'notFound.back': 'Volver a la Pokédex',
+
+  // Accessibility
+  'a11y.back': 'Atrás',
+  'a11y.clearSearch': 'Borrar búsqueda',
+  'a11y.addFavorite': 'Añadir a favoritos',
+  'a11y.removeFavorite': 'Quitar de favoritos',
+  'a11y.pokemonCard': '{name}, número {number}, tipo {types}',
+  'a11y.pokemonCardUntyped': '{name}, número {number}',
+  'a11y.typePair': '{first} y {second}',
+  'a11y.type': 'Tipo {type}',
+  'a11y.openDetails': 'Abre los detalles',
+  'a11y.statValue': '{value} de {max}',
+  'a11y.swapPokemon': 'Cambiar a {name}',
+  'a11y.removePokemon': 'Quitar a {name}',
+  'a11y.close': 'Cerrar',
+  'a11y.openViewer': 'Abre el visor a pantalla completa',
+
+  // Search query syntax
+  'query.missingValue': 'Falta un valor para "{filter}"',
+  'query.typeOperator': 'Usa "type:" con un nombre de tipo',
+  'query.unknownType': 'Tipo desconocido "{value}"',
+  'query.abilityOperator': 'Usa "ability:" con un nombre de habilidad',
+  'query.unknownFlag': 'Marcador desconocido "{value}"',
+  'query.generationRange': 'La generación debe estar entre 1 y {max}',
+  'query.needsNumber': '"{key}" necesita un número',
+  'query.unknownFilter': 'Filtro desconocido "{key}"',
+
+  // Errors
+  'errors.timeout': 'La solicitud tardó demasiado. Comprueba tu conexión e inténtalo de nuevo.',
+  'errors.network': 'Error de red. Comprueba tu conexión a internet.',
+  'errors.notFound': 'Pokémon no encontrado.',
+  'errors.rateLimited': 'Demasiadas solicitudes. Espera un momento e inténtalo de nuevo.',
+  'errors.rateLimitedWait': 'Demasiadas solicitudes. Espera {seconds} s e inténtalo de nuevo.',
+  'errors.server': 'Error del servidor. Inténtalo más tarde.',
+  'errors.cancelled': 'La solicitud se canceló.',
+  'errors.unexpected': 'Se produjo un error inesperado. Inténtalo de nuevo.',
+};
+
+export default es;
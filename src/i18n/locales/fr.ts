@@ -0,0 +1,275 @@
+/**
+ * French strings.
+ */
+
+import { Catalog } from '../types';
+
+const fr: Catalog = {
+  // Shared
+  'common.loading': 'Chargement des Pokémon...',
+  'common.loadingMore': 'Chargement de plus de Pokémon...',
+  'common.endOfList': 'Vous les avez tous attrapés ! 🎉',
+  'common.errorTitle': 'Oups ! Une erreur est survenue',
+  'common.tryAgain': 'Réessayer',
+  'common.tapToRetry': '{error} Touchez pour réessayer.',
+  'common.emptyTitle': 'Aucun élément trouvé',
+  'common.emptySubtitle': 'Modifiez votre recherche ou tirez pour actualiser',
+  'common.noDescription': 'Aucune description disponible.',
+  'common.noPokemonFound': 'Aucun Pokémon trouvé',
+  'common.cancel': 'Annuler',
+  'common.clear': 'Effacer',
+  'common.hidden': 'Cachée',
+  'common.unknown': 'Inconnu',
+  'common.sortBy': 'Trier par',
+  'common.searchPlaceholder': 'Rechercher un Pokémon...',
+
+  // Navigation
+  'app.title': 'Pokémon Explorer',
+  'app.documentTitle': '{title} · Pokémon Explorer',
+  'screen.list': 'Pokédex',
+  'screen.detail': 'Détails du Pokémon',
+  'screen.favorites': 'Favoris',
+  'screen.compare': 'Comparer',
+  'screen.generations': 'Générations',
+  'screen.ability': 'Talent',
+  'screen.settings': 'Réglages',
+  'screen.notFound': 'Introuvable',
+
+  // List
+  'list.subtitle': 'Découvrez et explorez les Pokémon',
+  'list.searchPlaceholder': 'Nom, numéro ou type:fire...',
+  'list.noResults': 'Aucun résultat pour « {query} ». Essayez une autre recherche.',
+  'list.noTypeMatches': 'Aucun Pokémon ne correspond aux types choisis.',
+  'list.emptySubtitle': 'Tirez vers le bas pour charger des Pokémon.',
+  'list.selectPrompt': 'Sélectionnez un Pokémon pour voir ses détails.',
+  'list.statsLoading': 'Chargement des statistiques…',
+  'list.statsUnavailable': 'Le tri et les filtres par statistiques sont indisponibles.',
+  'list.typesLoading': 'Chargement des types…',
+  'list.typesUnavailable': 'Les filtres par type sont indisponibles.',
+  'typeFilter.any': 'Un des types',
+  'typeFilter.all': 'Tous les types',
+
+  // Sorting
+  'sort.dexAsc': 'Numéro (croissant)',
+  'sort.dexDesc': 'Numéro (décroissant)',
+  'sort.nameAsc': 'Nom (A → Z)',
+  'sort.nameDesc': 'Nom (Z → A)',
+  'sort.total': 'Total des statistiques',
+  'sort.height': 'Taille (plus grands d’abord)',
+  'sort.weight': 'Poids (plus lourds d’abord)',
+
+  // Stats
+  'stats.hp': 'PV',
+  'stats.attack': 'Attaque',
+  'stats.defense': 'Défense',
+  'stats.specialAttack': 'Att. Spé.',
+  'stats.specialDefense': 'Déf. Spé.',
+  'stats.speed': 'Vitesse',
+  'statTier.excellent': 'Excellent',
+  'statTier.good': 'Bon',
+  'statTier.average': 'Moyen',
+  'statTier.low': 'Faible',
+  'statsShort.hp': 'PV',
+  'statsShort.attack': 'ATQ',
+  'statsShort.defense': 'DÉF',
+  'statsShort.specialAttack': 'ATQ.SP',
+  'statsShort.specialDefense': 'DÉF.SP',
+  'statsShort.speed': 'VIT',
+
+  // Detail
+  'detail.compareWith': 'Comparer avec…',
+  'detail.physicalInfo': 'Caractéristiques',
+  'detail.height': 'Taille',
+  'detail.weight': 'Poids',
+  'detail.baseXp': 'Exp. de base',
+  'detail.baseStats': 'Statistiques de base',
+  'detail.matchups': 'Faiblesses et résistances',
+  'detail.abilities': 'Talents',
+  'detail.evolution': 'Évolution',
+  'detail.moves': 'Capacités',
+  'matchup.immune': 'Immunisé',
+
+  // Types
+  'types.normal': 'Normal',
+  'types.fighting': 'Combat',
+  'types.flying': 'Vol',
+  'types.poison': 'Poison',
+  'types.ground': 'Sol',
+  'types.rock': 'Roche',
+  'types.bug': 'Insecte',
+  'types.ghost': 'Spectre',
+  'types.steel': 'Acier',
+  'types.fire': 'Feu',
+  'types.water': 'Eau',
+  'types.grass': 'Plante',
+  'types.electric': 'Électrik',
+  'types.psychic': 'Psy',
+  'types.ice': 'Glace',
+  'types.dragon': 'Dragon',
+  'types.dark': 'Ténèbres',
+  'types.fairy': 'Fée',
+
+  // Units
+  'units.metric': 'Métrique',
+  'units.imperial': 'Impérial',
+  'units.locale': 'Selon l’appareil',
+
+  // Theme
+  'theme.system': 'Comme le système',
+  'theme.light': 'Clair',
+  'theme.dark': 'Sombre',
+
+  // Color-blind modes
+  'colorBlind.off': 'Désactivé',
+  'colorBlind.protanopia': 'Protanopie',
+  'colorBlind.deuteranopia': 'Deutéranopie',
+  'colorBlind.tritanopia': 'Tritanopie',
+
+  // Evolution
+  'evolution.none': 'Ce Pokémon n’évolue pas.',
+  'evolution.level': 'N. {level}',
+  'evolution.levelUp': 'Monter de niveau',
+  'evolution.levelUpWith': 'Monter de niveau avec',
+  'evolution.useItem': 'Utiliser {item}',
+  'evolution.useAnyItem': 'Utiliser un objet',
+  'evolution.trade': 'Échange',
+  'evolution.tradeFor': 'Échange contre {species}',
+  'evolution.highFriendship': 'beaucoup d’amitié',
+  'evolution.highAffection': 'beaucoup d’affection',
+  'evolution.highBeauty': 'beaucoup de beauté',
+  'evolution.holding': 'en tenant {item}',
+  'evolution.knowing': 'en connaissant {move}',
+  'evolution.knowingType': 'en connaissant une capacité {type}',
+  'evolution.at': 'à {location}',
+  'evolution.day': 'le jour',
+  'evolution.night': 'la nuit',
+  'evolution.dusk': 'au crépuscule',
+  'evolution.female': '(femelle)',
+  'evolution.male': '(mâle)',
+  'evolution.raining': 'sous la pluie',
+  'evolution.upsideDown': 'console à l’envers',
+
+  // Moves
+  'moves.level': 'N. {level}',
+  'moves.evolution': 'Évo',
+  'moves.none': 'Aucune donnée de capacité.',
+  'moves.showLess': 'Afficher moins',
+  'moves.showAll': 'Afficher les {count}',
+  'moves.power': 'Puissance',
+  'moves.accuracy': 'Précision',
+  'moves.pp': 'PP',
+  'moves.method.levelUp': 'Par niveau',
+  'moves.method.machine': 'CT / CS',
+  'moves.method.egg': 'Capacités œuf',
+  'moves.method.tutor': 'Donneur de capacités',
+
+  // Sprites
+  'sprites.artwork': 'Illustration',
+  'sprites.home': 'HOME',
+  'sprites.front': 'Face',
+  'sprites.back': 'Dos',
+  'sprites.shiny': '✦ Chromatique',
+  'sprites.female': '♀ Femelle',
+  'sprites.male': '♂ Mâle',
+  'sprites.zoomHint': 'Pincez ou touchez deux fois pour zoomer',
+  'sprites.gameLabel': '{game} · Gén. {generation}',
+
+  // Abilities
+  'ability.pokemonWith': 'Pokémon avec {name}',
+  'ability.introduced': 'Introduit en {generation}',
+
+  // Generations
+  'generations.name': 'Génération {numeral}',
+  'generations.subtitle': '{count} Pokémon sur {generations} générations',
+  'generations.empty': 'Aucune génération trouvée',
+  'generations.emptySubtitle': 'Vérifiez votre connexion et réessayez.',
+
+  // Favorites
+  'favorites.subtitle': '{count} Pokémon enregistrés',
+  'favorites.searchPlaceholder': 'Rechercher dans les favoris...',
+  'favorites.emptyTitle': 'Pas encore de favoris',
+  'favorites.emptySubtitle':
+    'Touchez le cœur d’un Pokémon ou appuyez longuement sur sa carte pour l’enregistrer ici.',
+  'favorites.noMatches': 'Aucun favori ne correspond à « {query} ».',
+
+  // Compare
+  'compare.empty': 'Rien à comparer',
+  'compare.emptySubtitle': 'Ouvrez un Pokémon et touchez « Comparer avec… » pour commencer.',
+  'compare.swap': 'Changer',
+  'compare.remove': 'Retirer',
+  'compare.add': 'Ajouter',
+  'compare.baseStatTotal': 'Total des statistiques de base',
+  'compare.total': 'Total',
+  'compare.swapPokemon': 'Changer de Pokémon',
+  'compare.addPokemon': 'Ajouter un Pokémon',
+  'compare.addPrompt': 'Ajoutez un autre Pokémon pour comparer leurs statistiques.',
+
+  // Settings
+  'settings.units': 'Unités',
+  'settings.appearance': 'Apparence',
+  'settings.colorBlind': 'Mode daltonien',
+  'settings.colorBlindHint':
+    'Adapte les couleurs des statistiques et des faiblesses. Les symboles de type et les niveaux restent affichés.',
+  'settings.pageSize': 'Pokémon par page',
+  'settings.pageSizeHint': 'Nombre de Pokémon chargés à la fois pendant le défilement.',
+  'settings.searchDelay': 'Délai de recherche',
+  'settings.searchDelayHint': 'Temps d’attente après la saisie avant de chercher.',
+  'settings.milliseconds': '{value} ms',
+  'settings.animations': 'Animations',
+  'settings.animationsHint': 'Barres de statistiques, transitions et panneaux.',
+  'settings.defaultSort': 'Tri par défaut',
+  'settings.defaultSortHint': 'Ordre du Pokédex au lancement de l’app.',
+  'settings.clearCache': 'Vider le cache',
+  'settings.clearCacheHint':
+    'Supprime les réponses d’API enregistrées. Les favoris et réglages sont conservés.',
+  'settings.clearing': 'Suppression…',
+  'settings.cleared': 'Cache vidé',
+
+  // Picker
+  'picker.title': 'Choisissez un Pokémon',
+  'picker.searchPlaceholder': 'Rechercher par nom ou numéro...',
+
+  // Not found
+  'notFound.title': 'Page introuvable',
+  'notFound.resource': 'Aucun Pokémon ne correspond à « {resource} ».',
+  'notFound.message': 'Le lien suivi ne mène nulle part dans le Pokédex.',
+  'notFound.back': 'Retour au Pokédex',
+
+  // Accessibility
+  'a11y.back': 'Retour',
+  'a11y.clearSearch': 'Effacer la recherche',
+  'a11y.addFavorite': 'Ajouter aux favoris',
+  'a11y.removeFavorite': 'Retirer des favoris',
+  'a11y.pokemonCard': '{name}, numéro {number}, type {types}',
+  'a11y.pokemonCardUntyped': '{name}, numéro {number}',
+  'a11y.typePair': '{first} et {second}',
+  'a11y.type': 'Type {type}',
+  'a11y.openDetails': 'Ouvre la fiche',
+  'a11y.statValue': '{value} sur {max}',
+  'a11y.swapPokemon': 'Changer {name}',
+  'a11y.removePokemon': 'Retirer {name}',
+  'a11y.close': 'Fermer',
+  'a11y.openViewer': 'Ouvre la visionneuse en plein écran',
+
+  // Search query syntax
+  'query.missingValue': 'Valeur manquante pour « {filter} »',
+  'query.typeOperator': 'Utilisez « type: » avec un nom de type',
+  'query.unknownType': 'Type inconnu « {value} »',
+  'query.abilityOperator': 'Utilisez « ability: » avec un nom de talent',
+  'query.unknownFlag': 'Option inconnue « {value} »',
+  'query.generationRange': 'La génération doit être comprise entre 1 et {max}',
+  'query.needsNumber': '« {key} » attend un nombre',
+  'query.unknownFilter': 'Filtre inconnu « {key} »',
+
+  // Errors
+  'errors.timeout': 'La requête a expiré. Vérifiez votre connexion et réessayez.',
+  'errors.network': 'Erreur réseau. Vérifiez votre connexion internet.',
+  'errors.notFound': 'Pokémon introuvable.',
+  'errors.rateLimited': 'Trop de requêtes. Patientez un instant et réessayez.',
+  'errors.rateLimitedWait': 'Trop de requêtes. Patientez {seconds} s et réessayez.',
+  'errors.server': 'Erreur du serveur. Réessayez plus tard.',
+  'errors.cancelled': 'La requête a été annulée.',
+  'errors.unexpected': 'Une erreur inattendue est survenue. Réessayez.',
+};
+
+export default fr;
@@ -0,0 +1,272 @@
+/**
+ * Japanese strings.
+ */
+
+import { Catalog } from '../types';
+
+const ja: Catalog = {
+  // Shared
+  'common.loading': 'ポケモンを読み込み中...',
+  'common.loadingMore': 'さらに読み込み中...',
+  'common.endOfList': 'ぜんぶ見つけた! 🎉',
+  'common.errorTitle': 'エラーが発生しました',
+  'common.tryAgain': '再試行',
+  'common.tapToRetry': '{error} タップして再試行。',
+  'common.emptyTitle': '見つかりませんでした',
+  'common.emptySubtitle': '検索条件を変えるか、下に引いて更新してください',
+  'common.noDescription': '説明はありません。',
+  'common.noPokemonFound': 'ポケモンが見つかりません',
+  'common.cancel': 'キャンセル',
+  'common.clear': 'クリア',
+  'common.hidden': '隠れ特性',
+  'common.unknown': '不明',
+  'common.sortBy': '並べ替え',
+  'common.searchPlaceholder': 'ポケモンを検索...',
+
+  // Navigation
+  'app.title': 'Pokémon Explorer',
+  'app.documentTitle': '{title} · Pokémon Explorer',
+  'screen.list': 'ポケモン図鑑',
+  'screen.detail': 'ポケモンの詳細',
+  'screen.favorites': 'お気に入り',
+  'screen.compare': '比較',
+  'screen.generations': '世代',
+  'screen.ability': '特性',
+  'screen.settings': '設定',
+  'screen.notFound': '見つかりません',
+
+  // List
+  'list.subtitle': 'ポケモンを見つけて調べよう',
+  'list.searchPlaceholder': '名前、番号、type:fire など...',
+  'list.noResults': '「{query}」に一致する結果はありません。別の検索を試してください。',
+  'list.noTypeMatches': '選択したタイプに一致するポケモンはいません。',
+  'list.emptySubtitle': '下に引いてポケモンを読み込みます。',
+  'list.selectPrompt': 'ポケモンを選ぶと詳細が表示されます。',
+  'list.statsLoading': 'ステータスを読み込み中…',
+  'list.statsUnavailable': 'ステータスでの並べ替えと絞り込みは利用できません。',
+  'list.typesLoading': 'タイプを読み込み中…',
+  'list.typesUnavailable': 'タイプでの絞り込みは利用できません。',
+  'typeFilter.any': 'いずれかのタイプ',
+  'typeFilter.all': 'すべてのタイプ',
+
+  // Sorting
+  'sort.dexAsc': '番号(小さい順)',
+  'sort.dexDesc': '番号(大きい順)',
+  'sort.nameAsc': '名前(A → Z)',
+  'sort.nameDesc': '名前(Z → A)',
+  'sort.total': '種族値合計',
+  'sort.height': '高さ(高い順)',
+  'sort.weight': '重さ(重い順)',
+
+  // Stats
+  'stats.hp': 'HP',
+  'stats.attack': 'こうげき',
+  'stats.defense': 'ぼうぎょ',
+  'stats.specialAttack': 'とくこう',
+  'stats.specialDefense': 'とくぼう',
+  'stats.speed': 'すばやさ',
+  'statTier.excellent': '最高',
+  'statTier.good': '高い',
+  'statTier.average': '普通',
+  'statTier.low': '低い',
+  'statsShort.hp': 'HP',
+  'statsShort.attack': 'こうげき',
+  'statsShort.defense': 'ぼうぎょ',
+  'statsShort.specialAttack': 'とくこう',
+  'statsShort.specialDefense': 'とくぼう',
+  'statsShort.speed': 'すばやさ',
+
+  // Detail
+  'detail.compareWith': '比較する…',
+  'detail.physicalInfo': 'からだの情報',
+  'detail.height': '高さ',
+  'detail.weight': '重さ',
+  'detail.baseXp': '基礎経験値',
+  'detail.baseStats': '種族値',
+  'detail.matchups': '弱点と耐性',
+  'detail.abilities': '特性',
+  'detail.evolution': '進化',
+  'detail.moves': 'わざ',
+  'matchup.immune': '無効',
+
+  // Types
+  'types.normal': 'ノーマル',
+  'types.fighting': 'かくとう',
+  'types.flying': 'ひこう',
+  'types.poison': 'どく',
+  'types.ground': 'じめん',
+  'types.rock': 'いわ',
+  'types.bug': 'むし',
+  'types.ghost': 'ゴースト',
+  'types.steel': 'はがね',
+  'types.fire': 'ほのお',
+  'types.water': 'みず',
+  'types.grass': 'くさ',
+  'types.electric': 'でんき',
+  'types.psychic': 'エスパー',
+  'types.ice': 'こおり',
+  'types.dragon': 'ドラゴン',
+  'types.dark': 'あく',
+  'types.fairy': 'フェアリー',
+
+  // Units
+  'units.metric': 'メートル法',
+  'units.imperial': 'ヤード・ポンド法',
+  'units.locale': '端末の設定',
+
+  // Theme
+  'theme.system': 'システムに合わせる',
+  'theme.light': 'ライト',
+  'theme.dark': 'ダーク',
+
+  // Color-blind modes
+  'colorBlind.off': 'オフ',
+  'colorBlind.protanopia': '1型色覚',
+  'colorBlind.deuteranopia': '2型色覚',
+  'colorBlind.tritanopia': '3型色覚',
+
+  // Evolution
+  'evolution.none': 'このポケモンは進化しません。',
+  'evolution.level': 'Lv. {level}',
+  'evolution.levelUp': 'レベルアップ',
+  'evolution.levelUpWith': 'レベルアップ:',
+  'evolution.useItem': '{item}を使う',
+  'evolution.useAnyItem': 'どうぐを使う',
+  'evolution.trade': '通信交換',
+  'evolution.tradeFor': '{species}と交換',
+  'evolution.highFriendship': 'なつき度が高い',
+  'evolution.highAffection': 'なかよし度が高い',
+  'evolution.highBeauty': 'うつくしさが高い',
+  'evolution.holding': '{item}を持たせる',
+  'evolution.knowing': '{move}を覚えている',
+  'evolution.knowingType': '{type}タイプのわざを覚えている',
+  'evolution.at': '{location}で',
+  'evolution.day': '昼',
+  'evolution.night': '夜',
+  'evolution.dusk': '夕方',
+  'evolution.female': '(メス)',
+  'evolution.male': '(オス)',
+  'evolution.raining': '雨が降っている',
+  'evolution.upsideDown': '本体を逆さまにする',
+
+  // Moves
+  'moves.level': 'Lv {level}',
+  'moves.evolution': '進化',
+  'moves.none': 'わざのデータはありません。',
+  'moves.showLess': '閉じる',
+  'moves.showAll': '{count}件すべて表示',
+  'moves.power': '威力',
+  'moves.accuracy': '命中',
+  'moves.pp': 'PP',
+  'moves.method.levelUp': 'レベルアップ',
+  'moves.method.machine': 'わざマシン',
+  'moves.method.egg': 'タマゴわざ',
+  'moves.method.tutor': 'わざおしえ',
+
+  // Sprites
+  'sprites.artwork': 'イラスト',
+  'sprites.home': 'HOME',
+  'sprites.front': '正面',
+  'sprites.back': '背面',
+  'sprites.shiny': '✦ 色違い',
+  'sprites.female': '♀ メス',
+  'sprites.male': '♂ オス',
+  'sprites.zoomHint': 'ピンチまたはダブルタップで拡大',
+  'sprites.gameLabel': '{game} · 第{number}世代',
+
+  // Abilities
+  'ability.pokemonWith': '{name}を持つポケモン',
+  'ability.introduced': '{generation}で登場',
+
+  // Generations
+  'generations.name': '第{number}世代',
+  'generations.subtitle': '{generations}世代・{count}匹のポケモン',
+  'generations.empty': '世代が見つかりません',
+  'generations.emptySubtitle': '接続を確認して、もう一度お試しください。',
+
+  // Favorites
+  'favorites.subtitle': '{count}匹を保存済み',
+  'favorites.searchPlaceholder': 'お気に入りを検索...',
+  'favorites.emptyTitle': 'お気に入りはまだありません',
+  'favorites.emptySubtitle': 'ハートをタップするか、カードを長押しするとここに保存されます。',
+  'favorites.noMatches': '「{query}」に一致するお気に入りはありません。',
+
+  // Compare
+  'compare.empty': '比較するポケモンがいません',
+  'compare.emptySubtitle': 'ポケモンを開いて「比較する…」をタップしてください。',
+  'compare.swap': '入れ替え',
+  'compare.remove': '外す',
+  'compare.add': '追加',
+  'compare.baseStatTotal': '種族値合計',
+  'compare.total': '合計',
+  'compare.swapPokemon': 'ポケモンを入れ替え',
+  'compare.addPokemon': 'ポケモンを追加',
+  'compare.addPrompt': 'もう1匹ポケモンを追加してステータスを比べましょう。',
+
+  // Settings
+  'settings.units': '単位',
+  'settings.appearance': '外観',
+  'settings.colorBlind': '色覚サポート',
+  'settings.colorBlindHint': 'ステータスと相性の色を調整します。タイプの記号と評価は常に表示されます。',
+  'settings.pageSize': '1ページのポケモン数',
+  'settings.pageSizeHint': 'スクロール時に一度に読み込むポケモンの数です。',
+  'settings.searchDelay': '検索の待ち時間',
+  'settings.searchDelayHint': '入力してから検索するまでの時間です。',
+  'settings.milliseconds': '{value}ミリ秒',
+  'settings.animations': 'アニメーション',
+  'settings.animationsHint': 'ステータスバー、画面遷移、シート。',
+  'settings.defaultSort': '標準の並び順',
+  'settings.defaultSortHint': 'アプリ起動時の図鑑の並び順です。',
+  'settings.clearCache': 'キャッシュを削除',
+  'settings.clearCacheHint': '保存したAPIの応答を削除します。お気に入りと設定は残ります。',
+  'settings.clearing': '削除中…',
+  'settings.cleared': 'キャッシュを削除しました',
+
+  // Picker
+  'picker.title': 'ポケモンを選ぶ',
+  'picker.searchPlaceholder': '名前または番号で検索...',
+
+  // Not found
+  'notFound.title': 'ページが見つかりません',
+  'notFound.resource': '「{resource}」に一致するポケモンは見つかりませんでした。',
+  'notFound.message': 'このリンクは図鑑のどこにもつながっていません。',
+  'notFound.back': '図鑑に戻る',
+
+  // Accessibility
+  'a11y.back': '戻る',
+  'a11y.clearSearch': '検索をクリア',
+  'a11y.addFavorite': 'お気に入りに追加',
+  'a11y.removeFavorite': 'お気に入りから削除',
+  'a11y.pokemonCard': '{name}、{number}番、{types}タイプ',
+  'a11y.pokemonCardUntyped': '{name}、{number}番',
+  'a11y.typePair': '{first}・{second}',
+  'a11y.type': '{type}タイプ',
+  'a11y.openDetails': '詳細を開きます',
+  'a11y.statValue': '{max}中{value}',
+  'a11y.swapPokemon': '{name}を入れ替え',
+  'a11y.removePokemon': '{name}を外す',
+  'a11y.close': '閉じる',
+  'a11y.openViewer': '全画面で表示します',
+
+  // Search query syntax
+  'query.missingValue': '「{filter}」の値がありません',
+  'query.typeOperator': '「type:」にはタイプ名を指定してください',
+  'query.unknownType': '不明なタイプ「{value}」',
+  'query.abilityOperator': '「ability:」には特性名を指定してください',
+  'query.unknownFlag': '不明なフラグ「{value}」',
+  'query.generationRange': '世代は1〜{max}で指定してください',
+  'query.needsNumber': '「{key}」には数値が必要です',
+  'query.unknownFilter': '不明なフィルター「{key}」',
+
+  // Errors
+  'errors.timeout': 'タイムアウトしました。接続を確認して、もう一度お試しください。',
+  'errors.network': 'ネットワークエラーです。インターネット接続を確認してください。',
+  'errors.notFound': 'ポケモンが見つかりません。',
+  'errors.rateLimited': 'リクエストが多すぎます。しばらく待ってからお試しください。',
+  'errors.rateLimitedWait': 'リクエストが多すぎます。{seconds}秒待ってからお試しください。',
+  'errors.server': 'サーバーエラーです。後でもう一度お試しください。',
+  'errors.cancelled': 'リクエストはキャンセルされました。',
+  'errors.unexpected': '予期しないエラーが発生しました。もう一度お試しください。',
+};
+
+export default ja;
@@ -0,0 +1,17 @@
+/**
+ * Catalog types shared by the locale files.
+ */
+
+import { TranslationKey } from './locales/en';
+
+export type { TranslationKey };
+
+/**
+ * Strings for one language; missing keys fall back to English
+ */
+export type Catalog = Partial<Record<TranslationKey, string>>;
+
+/**
+ * Values substituted into "{name}" placeholders
+ */
+export type TranslationParams = Record<string, string | number>;
@@ -1,15 +1,30 @@
 /**
  * Main navigation container and stack configuration.
- * Uses React Navigation's native stack for type-safe navigation.
+ * Uses React Navigation's native stack for type-safe navigation
+ * and a linking config for deep links and web URLs.
  */
 
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useMemo } from 'react';
+import { NavigationContainer, DarkTheme, DefaultTheme } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 
-import { PokemonListScreen, PokemonDetailScreen } from '../screens';
+import {
+  PokemonListScreen,
+  PokemonDetailScreen,
+  FavoritesScreen,
+  PokemonCompareScreen,
+  GenerationsScreen,
+  AbilityScreen,
+  SettingsScreen,
+  NotFoundScreen,
+} from '../screens';
 import { RootStackParamList } from '../types';
-import Colors from '../utils/colors';
+import { useLocalizedNames } from '../hooks/useLocalizedNames';
+import { usePreferencesHydration } from '../hooks/usePreferencesHydration';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { t } from '../i18n';
+import { useTheme } from '../theme';
+import { linking } from './linking';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
@@ -19,16 +34,60 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
  * Screens:
  * - PokemonList: Main list screen (initial route)
  * - PokemonDetail: Detail view for selected Pokemon
+ * - Favorites: Saved Pokemon
+ * - PokemonCompare: Side-by-side comparison of 2-4 Pokemon
+ * - Generations: Dex grouped by generation
+ * - Ability: Ability effect and the Pokemon that have it
+ * - Settings: Appearance, color-blind mode, units, paging, search, animation, and cache
+ * - NotFound: Unknown links and Pokemon
+ *
+ * Titles come from the UI language catalog; localized Pokemon, ability,
+ * and move names are loaded here so every screen can use them.
+ * Nothing renders until persisted preferences are read.
+ * Navigation colors follow the active light or dark theme.
  */
 const AppNavigator: React.FC = () => {
+  useLocalizedNames();
+  const { isHydrated } = usePreferencesHydration();
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
+  const { colors, isDark } = useTheme();
+
+  const navigationTheme = useMemo(() => {
+    const base = isDark ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: colors.primary,
+        background: colors.background,
+        card: colors.surface,
+        text: colors.textPrimary,
+        border: colors.border,
+        notification: colors.primary,
+      },
+    };
+  }, [colors, isDark]);
+
+  if (!isHydrated) {
+    return null;
+  }
+
   return (
-    <NavigationContainer>
+    <NavigationContainer
+      linking={linking}
+      theme={navigationTheme}
+      documentTitle={{
+        formatter: (options) =>
+          options?.title ? t('app.documentTitle', { title: options.title }) : t('app.title'),
+      }}
+    >
       <Stack.Navigator
         initialRouteName="PokemonList"
         screenOptions={{
           headerShown: false,
+          animation: animationsEnabled ? 'default' : 'none',
           contentStyle: {
-            backgroundColor: Colors.background ?? '#0D1B2A',
+            backgroundColor: colors.background,
           },
         }}
       >
@@ -36,7 +95,7 @@ const AppNavigator: React.FC = () => {
           name="PokemonList"
           component={PokemonListScreen}
           options={{
-            title: 'Pokédex',
+            title: t('screen.list'),
           }}
         />
 
@@ -44,7 +103,55 @@ const AppNavigator: React.FC = () => {
           name="PokemonDetail"
           component={PokemonDetailScreen}
           options={{
-            title: 'Pokemon Details',
+            title: t('screen.detail'),
+          }}
+        />
+
+        <Stack.Screen
+          name="Favorites"
+          component={FavoritesScreen}
+          options={{
+            title: t('screen.favorites'),
+          }}
+        />
+
+        <Stack.Screen
+          name="PokemonCompare"
+          component={PokemonCompareScreen}
+          options={{
+            title: t('screen.compare'),
+          }}
+        />
+
+        <Stack.Screen
+          name="Generations"
+          component={GenerationsScreen}
+          options={{
+            title: t('screen.generations'),
+          }}
+        />
+
+        <Stack.Screen
+          name="Ability"
+          component={AbilityScreen}
+          options={{
+            title: t('screen.ability'),
+          }}
+        />
+
+        <Stack.Screen
+          name="Settings"
+          component={SettingsScreen}
+          options={{
+            title: t('screen.settings'),
+          }}
+        />
+
+        <Stack.Screen
+          name="NotFound"
+          component={NotFoundScreen}
+          options={{
+            title: t('screen.notFound'),
           }}
         />
       </Stack.Navigator>
@@ -1,2 +1,3 @@
 export { default as AppNavigator } from './AppNavigator';
+export { linking } from './linking';
 
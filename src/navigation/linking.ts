@@ -0,0 +1,114 @@
+/**
+ * Deep link and web URL configuration for every route.
+ *
+ * Examples:
+ * - pokemonexplorer://pokemon/25, /pokemon/pikachu, /pokemon/25/pikachu -> PokemonDetail
+ * - /?q=char&types=fire,flying&mode=and -> PokemonList with search and filters
+ * - /compare/1,4,7 -> PokemonCompare
+ * - /generations/3 -> Generations, scrolled to Generation III
+ * - /ability/lightning-rod -> Ability
+ * - /settings -> Settings
+ */
+
+import * as Linking from 'expo-linking';
+import { LinkingOptions, getStateFromPath } from '@react-navigation/native';
+import { RootStackParamList, TypeFilterMode } from '../types';
+
+type LinkingState = ReturnType<typeof getStateFromPath>;
+
+const MAX_GENERATION = 9;
+
+const parseTypeFilterMode = (value: string): TypeFilterMode =>
+  value === 'and' ? 'and' : 'or';
+
+/**
+ * Generation links must name an existing generation; anything else is
+ * dropped so the screen opens unscrolled
+ */
+const parseGeneration = (value: string): number | undefined => {
+  const generation = Number(value);
+  return Number.isInteger(generation) && generation >= 1 && generation <= MAX_GENERATION
+    ? generation
+    : undefined;
+};
+
+/**
+ * Detail links may use a dex number or a name ("/pokemon/pikachu").
+ * Names are moved to pokemonName with pokemonId 0, which the detail
+ * screen resolves by name. The optional second segment is only a display
+ * name, so a name link always resolves its first segment.
+ */
+const normalizeDetailParams = (state: LinkingState): LinkingState => {
+  if (!state) return state;
+
+  return {
+    ...state,
+    routes: state.routes.map((route) => {
+      if (route.name !== 'PokemonDetail' || !route.params) {
+        return route;
+      }
+
+      const params = route.params as { pokemonId?: number | string; pokemonName?: string };
+      if (typeof params.pokemonId === 'number') {
+        return route;
+      }
+
+      const slug = String(params.pokemonId ?? '').toLowerCase();
+      return {
+        ...route,
+        params: { pokemonId: 0, pokemonName: slug },
+      };
+    }),
+  } as LinkingState;
+};
+
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [Linking.createURL('/'), 'pokemonexplorer://'],
+  config: {
+    initialRouteName: 'PokemonList',
+    screens: {
+      PokemonList: {
+        path: '',
+        parse: {
+          mode: parseTypeFilterMode,
+        },
+      },
+      PokemonDetail: {
+        path: 'pokemon/:pokemonId/:pokemonName?',
+        parse: {
+          pokemonId: (value: string) => (/^\d+$/.test(value) ? Number(value) : value),
+        },
+        stringify: {
+          pokemonId: (value: number) => String(value),
+        },
+      },
+      Favorites: 'favorites',
+      PokemonCompare: {
+        path: 'compare/:pokemonIds',
+        parse: {
+          pokemonIds: (value: string) =>
+            value
+              .split(',')
+              .map(Number)
+              .filter((id) => Number.isInteger(id) && id > 0),
+        },
+        stringify: {
+          pokemonIds: (value: number[]) => value.join(','),
+        },
+      },
+      Generations: {
+        path: 'generations/:generation?',
+        parse: {
+          generation: parseGeneration,
+        },
+      },
+      Ability: 'ability/:abilityName',
+      Settings: 'settings',
+      NotFound: '*',
+    },
+  },
+  getStateFromPath: (path, options) =>
+    normalizeDetailParams(getStateFromPath(path, options)),
+};
+
+export default linking;
@@ -0,0 +1,245 @@
+/**
+ * Screen showing an ability's effect and every Pokemon that can have it.
+ */
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ListRenderItem,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useAbilityDetail } from '../hooks/useAbilityDetail';
+import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { useFavoritesStore, selectFavorites } from '../store/favoritesStore';
+import { usePokemonStore, selectAbilityName } from '../store/pokemonStore';
+import { StateHandler, PokemonCard } from '../components';
+import { AbilityHolder, Pokemon, RootStackParamList } from '../types';
+import { formatGeneration } from '../utils/formatters';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+type AbilityRouteProp = RouteProp<RootStackParamList, 'Ability'>;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Ability'>;
+
+/**
+ * AbilityScreen - Ability details with a reverse lookup grid
+ *
+ * Features:
+ * - Name and effect text in the device language
+ * - Generation the ability was introduced in
+ * - Grid of Pokemon with the ability, marking hidden abilities
+ * - Linkable by name (/ability/lightning-rod)
+ */
+const AbilityScreen: React.FC = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<AbilityRouteProp>();
+  const insets = useSafeAreaInsets();
+  const { numColumns, cardWidth } = useResponsiveLayout();
+  const { abilityName } = route.params;
+
+  const { ability, isLoading, error, retry } = useAbilityDetail(abilityName);
+  const fallbackName = usePokemonStore(selectAbilityName(abilityName));
+
+  const favorites = useFavoritesStore(selectFavorites);
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
+
+  const handlePokemonPress = useCallback(
+    (pokemon: Pokemon) => {
+      navigation.navigate('PokemonDetail', {
+        pokemonId: pokemon.id,
+        pokemonName: pokemon.name,
+      });
+    },
+    [navigation]
+  );
+
+  const renderItem: ListRenderItem<AbilityHolder> = useCallback(
+    ({ item }) => (
+      <PokemonCard
+        pokemon={item.pokemon}
+        width={cardWidth}
+        onPress={handlePokemonPress}
+        isFavorite={!!favorites[item.pokemon.id]}
+        onToggleFavorite={toggleFavorite}
+        tag={item.isHidden ? t('common.hidden') : undefined}
+      />
+    ),
+    [handlePokemonPress, favorites, toggleFavorite, cardWidth]
+  );
+
+  const keyExtractor = useCallback(
+    (item: AbilityHolder) => `ability-holder-${item.pokemon.id}`,
+    []
+  );
+
+  const renderHeader = useCallback(
+    () =>
+      ability ? (
+        <View style={styles.details}>
+          <View style={styles.effectCard}>
+            <Text style={styles.shortEffect}>
+              {ability.shortEffect || t('common.noDescription')}
+            </Text>
+            {!!ability.effect && ability.effect !== ability.shortEffect && (
+              <Text style={styles.effect}>{ability.effect}</Text>
+            )}
+          </View>
+
+          <Text style={styles.sectionTitle}>
+            {t('ability.pokemonWith', { name: ability.displayName })}{' '}
+            <Text style={styles.sectionCount}>({ability.holders.length})</Text>
+          </Text>
+        </View>
+      ) : null,
+    [ability, styles]
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={colors.background}
+      />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.8}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.back')}
+        >
+          <Text style={styles.backText}>‹</Text>
+        </TouchableOpacity>
+        <View style={styles.headerText}>
+          <Text style={styles.title} numberOfLines={1}>
+            {ability?.displayName ?? fallbackName}
+          </Text>
+          <Text style={styles.subtitle}>
+            {ability?.generation
+              ? t('ability.introduced', { generation: formatGeneration(ability.generation) })
+              : ' '}
+          </Text>
+        </View>
+      </View>
+
+      <StateHandler
+        isLoading={!!(isLoading && !ability)}
+        error={ability ? null : error}
+        isEmpty={!!false}
+        onRetry={retry}
+      >
+        <FlatList
+          key={`ability-grid-${numColumns}`}
+          data={ability?.holders ?? []}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          numColumns={numColumns}
+          contentContainerStyle={[
+            styles.listContent,
+            { paddingBottom: insets.bottom + 24 },
+          ]}
+          columnWrapperStyle={styles.columnWrapper}
+          ListHeaderComponent={renderHeader}
+          extraData={favorites}
+          initialNumToRender={8}
+          showsVerticalScrollIndicator={!!false}
+        />
+      </StateHandler>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: 16,
+      paddingBottom: 12,
+    },
+    backButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginRight: 12,
+    },
+    backText: {
+      fontSize: 28,
+      lineHeight: 30,
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    headerText: {
+      flex: 1,
+    },
+    title: {
+      fontSize: 34,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    listContent: {
+      paddingHorizontal: 16,
+    },
+    columnWrapper: {
+      justifyContent: 'flex-start',
+    },
+    details: {
+      paddingTop: 8,
+    },
+    effectCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      marginBottom: 24,
+    },
+    shortEffect: {
+      fontSize: 16,
+      fontWeight: '600',
+      lineHeight: 24,
+      color: colors.textPrimary,
+    },
+    effect: {
+      fontSize: 14,
+      lineHeight: 21,
+      color: colors.textSecondary,
+      marginTop: 12,
+    },
+    sectionTitle: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 16,
+    },
+    sectionCount: {
+      fontWeight: '500',
+      color: colors.textMuted,
+    },
+  });
+
+export default AbilityScreen;
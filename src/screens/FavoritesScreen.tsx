@@ -0,0 +1,261 @@
+/**
+ * Screen listing the user's favorite Pokemon.
+ * Uses the same grid, search, and sort behavior as the main list.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  FlatList,
+  StyleSheet,
+  StatusBar,
+  Text,
+  TouchableOpacity,
+  ListRenderItem,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import {
+  useFavoritesStore,
+  selectFavorites,
+  selectFavoritesSortOption,
+} from '../store/favoritesStore';
+import { usePokemonStore, selectLocalizedNames } from '../store/pokemonStore';
+import { PokemonCard, SearchBar, SortControl } from '../components';
+import { Pokemon, RootStackParamList } from '../types';
+import { searchPokemon } from '../utils/search';
+import { sortPokemon, SORT_OPTIONS } from '../utils/sort';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Favorites'>;
+
+/**
+ * FavoritesScreen - Grid of favorited Pokemon
+ *
+ * Features:
+ * - Grid layout with as many columns as the window width fits
+ * - Search by name or dex number
+ * - Sort options
+ * - Remove from favorites via the heart or long-press
+ */
+const FavoritesScreen: React.FC = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const insets = useSafeAreaInsets();
+  const { numColumns, cardWidth } = useResponsiveLayout();
+
+  const favorites = useFavoritesStore(selectFavorites);
+  const sortOption = useFavoritesStore(selectFavoritesSortOption);
+  const setSortOption = useFavoritesStore((state) => state.setSortOption);
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
+
+  const localizedNames = usePokemonStore(selectLocalizedNames);
+
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const favoriteList = useMemo(() => {
+    const list = Object.values(favorites).map((entry) => entry.pokemon);
+    const matches = searchQuery.trim()
+      ? searchPokemon(list, searchQuery, localizedNames.pokemon)
+      : list;
+    return sortPokemon(matches, sortOption, {}, localizedNames.pokemon);
+  }, [favorites, searchQuery, sortOption, localizedNames]);
+
+  const totalCount = Object.keys(favorites).length;
+
+  const handlePokemonPress = useCallback(
+    (pokemon: Pokemon) => {
+      navigation.navigate('PokemonDetail', {
+        pokemonId: pokemon.id,
+        pokemonName: pokemon.name,
+      });
+    },
+    [navigation]
+  );
+
+  const renderItem: ListRenderItem<Pokemon> = useCallback(
+    ({ item }) => (
+      <PokemonCard
+        pokemon={item}
+        width={cardWidth}
+        onPress={handlePokemonPress}
+        isFavorite={!!true}
+        onToggleFavorite={toggleFavorite}
+      />
+    ),
+    [handlePokemonPress, toggleFavorite, cardWidth]
+  );
+
+  const keyExtractor = useCallback(
+    (item: Pokemon) => `favorite-${item.id}`,
+    []
+  );
+
+  const renderHeader = useCallback(
+    () => (
+      <View style={styles.headerContainer}>
+        <View style={styles.titleRow}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.back')}
+          >
+            <Text style={styles.backText}>‹</Text>
+          </TouchableOpacity>
+          <View>
+            <Text style={styles.title}>{t('screen.favorites')}</Text>
+            <Text style={styles.subtitle}>
+              {t('favorites.subtitle', { count: totalCount })}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.searchRow}>
+          <SearchBar
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder={t('favorites.searchPlaceholder')}
+            style={styles.searchBar}
+          />
+          <SortControl
+            value={sortOption}
+            options={SORT_OPTIONS}
+            onChange={setSortOption}
+          />
+        </View>
+      </View>
+    ),
+    [navigation, totalCount, searchQuery, sortOption, setSortOption, styles]
+  );
+
+  const renderEmpty = useCallback(
+    () => (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyTitle}>
+          {totalCount === 0 ? t('favorites.emptyTitle') : t('common.noPokemonFound')}
+        </Text>
+        <Text style={styles.emptySubtitle}>
+          {totalCount === 0
+            ? t('favorites.emptySubtitle')
+            : t('favorites.noMatches', { query: searchQuery })}
+        </Text>
+      </View>
+    ),
+    [totalCount, searchQuery, styles]
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={colors.background}
+      />
+
+      <FlatList
+        key={`favorites-grid-${numColumns}`}
+        data={favoriteList}
+        renderItem={renderItem}
+        keyExtractor={keyExtractor}
+        numColumns={numColumns}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingBottom: insets.bottom + 24 },
+        ]}
+        columnWrapperStyle={styles.columnWrapper}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmpty}
+        initialNumToRender={10}
+        showsVerticalScrollIndicator={!!false}
+      />
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    listContent: {
+      paddingHorizontal: 16,
+    },
+    columnWrapper: {
+      justifyContent: 'flex-start',
+    },
+    headerContainer: {
+      paddingTop: 16,
+      paddingBottom: 8,
+    },
+    titleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      marginBottom: 20,
+    },
+    backButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginRight: 12,
+    },
+    backText: {
+      fontSize: 28,
+      lineHeight: 30,
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 34,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      marginBottom: 16,
+    },
+    searchBar: {
+      flex: 1,
+      marginHorizontal: 0,
+      marginBottom: 0,
+      marginRight: 12,
+    },
+    emptyContainer: {
+      alignItems: 'center',
+      paddingVertical: 48,
+      paddingHorizontal: 24,
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize: 15,
+      color: colors.textMuted,
+      textAlign: 'center',
+      lineHeight: 22,
+    },
+  });
+
+export default FavoritesScreen;
@@ -0,0 +1,385 @@
+/**
+ * Screen for browsing the dex by generation.
+ * Shows one section per generation with sticky headers and a jump picker.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  SectionList,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+  ViewToken,
+  SectionListRenderItem,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useGenerations } from '../hooks/useGenerations';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { useFavoritesStore, selectFavorites } from '../store/favoritesStore';
+import { StateHandler, PokemonCard } from '../components';
+import { Pokemon, RootStackParamList } from '../types';
+import { formatGeneration, formatName, toRomanNumeral } from '../utils/formatters';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+type GenerationsRouteProp = RouteProp<RootStackParamList, 'Generations'>;
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Generations'>;
+
+const SECTION_HEADER_HEIGHT = 56;
+
+interface GenerationListSection {
+  id: number;
+  name: string;
+  region: string;
+  count: number;
+  data: Pokemon[][];
+}
+
+/**
+ * Groups Pokemon into grid rows
+ */
+const toRows = (pokemon: Pokemon[], columns: number): Pokemon[][] => {
+  const rows: Pokemon[][] = [];
+  for (let index = 0; index < pokemon.length; index += columns) {
+    rows.push(pokemon.slice(index, index + columns));
+  }
+  return rows;
+};
+
+/**
+ * GenerationsScreen - Sectioned dex grouped by generation
+ *
+ * Features:
+ * - One section per generation (I-IX) with its region
+ * - Sticky section headers
+ * - Generation picker that jumps to a section
+ * - Linkable selection (/generations/3)
+ */
+const GenerationsScreen: React.FC = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<GenerationsRouteProp>();
+  const insets = useSafeAreaInsets();
+  const { numColumns, cardWidth, rowHeight } = useResponsiveLayout();
+
+  const { generations, isLoading, error, retry } = useGenerations();
+
+  const favorites = useFavoritesStore(selectFavorites);
+  const { shouldAnimate: animationsEnabled } = useReducedMotion();
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
+
+  const listRef = useRef<SectionList<Pokemon[], GenerationListSection>>(null);
+  const hasJumpedRef = useRef(!!false);
+  const [activeGeneration, setActiveGeneration] = useState<number | null>(null);
+
+  const sections = useMemo<GenerationListSection[]>(
+    () =>
+      generations.map((generation) => ({
+        id: generation.id,
+        name: generation.name,
+        region: generation.region,
+        count: generation.pokemon.length,
+        data: toRows(generation.pokemon, numColumns),
+      })),
+    [generations, numColumns]
+  );
+
+  const totalCount = generations.reduce((sum, generation) => sum + generation.pokemon.length, 0);
+
+  // SectionList counts a header and a footer slot per section
+  const itemLayouts = useMemo(() => {
+    const layouts: { length: number; offset: number }[] = [];
+    let offset = 0;
+
+    sections.forEach((section) => {
+      layouts.push({ length: SECTION_HEADER_HEIGHT, offset });
+      offset += SECTION_HEADER_HEIGHT;
+
+      section.data.forEach(() => {
+        layouts.push({ length: rowHeight, offset });
+        offset += rowHeight;
+      });
+
+      layouts.push({ length: 0, offset });
+    });
+
+    return layouts;
+  }, [sections, rowHeight]);
+
+  const getItemLayout = useCallback(
+    (_: unknown, index: number) => ({
+      ...(itemLayouts[index] ?? { length: 0, offset: 0 }),
+      index,
+    }),
+    [itemLayouts]
+  );
+
+  const scrollToGeneration = useCallback(
+    (generationId: number) => {
+      const sectionIndex = sections.findIndex((section) => section.id === generationId);
+      if (sectionIndex < 0) return;
+
+      listRef.current?.scrollToLocation({
+        sectionIndex,
+        itemIndex: 0,
+        viewOffset: SECTION_HEADER_HEIGHT,
+        animated: animationsEnabled,
+      });
+      setActiveGeneration(generationId);
+    },
+    [sections, animationsEnabled]
+  );
+
+  const handlePickGeneration = useCallback(
+    (generationId: number) => {
+      scrollToGeneration(generationId);
+      navigation.setParams({ generation: generationId });
+    },
+    [navigation, scrollToGeneration]
+  );
+
+  // Jump to a linked generation once the sections are ready
+  useEffect(() => {
+    const linkedGeneration = route.params?.generation;
+    if (hasJumpedRef.current || !linkedGeneration || sections.length === 0) return;
+
+    hasJumpedRef.current = !!true;
+    requestAnimationFrame(() => scrollToGeneration(linkedGeneration));
+  }, [route.params, sections, scrollToGeneration]);
+
+  const onViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken<Pokemon[]>[] }) => {
+      const first = viewableItems.find((token) => token.section);
+      if (first) {
+        setActiveGeneration((first.section as GenerationListSection).id);
+      }
+    }
+  ).current;
+
+  const handlePokemonPress = useCallback(
+    (pokemon: Pokemon) => {
+      navigation.navigate('PokemonDetail', {
+        pokemonId: pokemon.id,
+        pokemonName: pokemon.name,
+      });
+    },
+    [navigation]
+  );
+
+  const renderItem: SectionListRenderItem<Pokemon[], GenerationListSection> = useCallback(
+    ({ item: row }) => (
+      <View style={styles.row}>
+        {row.map((pokemon) => (
+          <PokemonCard
+            key={pokemon.id}
+            pokemon={pokemon}
+            width={cardWidth}
+            onPress={handlePokemonPress}
+            isFavorite={!!favorites[pokemon.id]}
+            onToggleFavorite={toggleFavorite}
+          />
+        ))}
+      </View>
+    ),
+    [handlePokemonPress, favorites, toggleFavorite, cardWidth, styles]
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: GenerationListSection }) => (
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>{formatGeneration(section.id)}</Text>
+        <Text style={styles.sectionSubtitle}>
+          {formatName(section.region)} · {section.count}
+        </Text>
+      </View>
+    ),
+    [styles]
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={colors.background}
+      />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.8}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.back')}
+        >
+          <Text style={styles.backText}>‹</Text>
+        </TouchableOpacity>
+        <View>
+          <Text style={styles.title}>{t('screen.generations')}</Text>
+          <Text style={styles.subtitle}>
+            {totalCount > 0
+              ? t('generations.subtitle', { count: totalCount, generations: sections.length })
+              : ' '}
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={!!false}
+        contentContainerStyle={styles.pickerContent}
+        style={styles.picker}
+      >
+        {sections.map((section) => {
+          const isActive = section.id === activeGeneration;
+          return (
+            <TouchableOpacity
+              key={section.id}
+              style={[styles.pickerChip, isActive && styles.pickerChipActive]}
+              onPress={() => handlePickGeneration(section.id)}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityLabel={formatGeneration(section.id)}
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text style={[styles.pickerText, isActive && styles.pickerTextActive]}>
+                {toRomanNumeral(section.id)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <StateHandler
+        isLoading={!!(isLoading && sections.length === 0)}
+        error={sections.length === 0 ? error : null}
+        isEmpty={!!(!isLoading && sections.length === 0)}
+        onRetry={retry}
+        emptyMessage={t('generations.empty')}
+        emptySubMessage={t('generations.emptySubtitle')}
+      >
+        <SectionList
+          ref={listRef}
+          sections={sections}
+          renderItem={renderItem}
+          renderSectionHeader={renderSectionHeader}
+          keyExtractor={(row) => `generation-row-${row[0]?.id}`}
+          getItemLayout={getItemLayout}
+          stickySectionHeadersEnabled={!!true}
+          onViewableItemsChanged={onViewableItemsChanged}
+          extraData={favorites}
+          contentContainerStyle={{ paddingBottom: insets.bottom + 24 }}
+          initialNumToRender={8}
+          maxToRenderPerBatch={8}
+          windowSize={7}
+          showsVerticalScrollIndicator={!!false}
+        />
+      </StateHandler>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: 16,
+      paddingBottom: 12,
+    },
+    backButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginRight: 12,
+    },
+    backText: {
+      fontSize: 28,
+      lineHeight: 30,
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 34,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    picker: {
+      flexGrow: 0,
+      marginBottom: 8,
+    },
+    pickerContent: {
+      paddingHorizontal: 16,
+    },
+    pickerChip: {
+      minWidth: 44,
+      height: 36,
+      paddingHorizontal: 12,
+      borderRadius: 18,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginRight: 8,
+    },
+    pickerChipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    pickerText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.textSecondary,
+    },
+    pickerTextActive: {
+      color: colors.white,
+    },
+    sectionHeader: {
+      height: SECTION_HEADER_HEIGHT,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      backgroundColor: colors.background,
+    },
+    sectionTitle: {
+      fontSize: 20,
+      fontWeight: '800',
+      color: colors.textPrimary,
+    },
+    sectionSubtitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    row: {
+      flexDirection: 'row',
+      paddingHorizontal: 16,
+      justifyContent: 'flex-start',
+    },
+  });
+
+export default GenerationsScreen;
@@ -0,0 +1,115 @@
+/**
+ * Fallback screen for unknown links and Pokemon that don't exist.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, StatusBar } from 'react-native';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+
+import { RootStackParamList } from '../types';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+type NotFoundRouteProp = RouteProp<RootStackParamList, 'NotFound'>;
+type NotFoundNavigationProp = NativeStackNavigationProp<RootStackParamList, 'NotFound'>;
+
+/**
+ * NotFoundScreen - Shown for unmatched URLs and unknown Pokemon ids/names
+ */
+const NotFoundScreen: React.FC = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const route = useRoute<NotFoundRouteProp>();
+  const navigation = useNavigation<NotFoundNavigationProp>();
+
+  const resource = route.params?.resource;
+
+  const handleGoHome = () => {
+    navigation.reset({
+      index: 0,
+      routes: [{ name: 'PokemonList' }],
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={colors.background}
+      />
+
+      <View style={styles.iconContainer}>
+        <Text style={styles.icon}>❓</Text>
+      </View>
+
+      <Text style={styles.title}>{t('notFound.title')}</Text>
+      <Text style={styles.message}>
+        {resource
+          ? t('notFound.resource', { resource })
+          : t('notFound.message')}
+      </Text>
+
+      <TouchableOpacity
+        style={styles.button}
+        onPress={handleGoHome}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+      >
+        <Text style={styles.buttonText}>{t('notFound.back')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+      padding: 24,
+    },
+    iconContainer: {
+      width: 100,
+      height: 100,
+      borderRadius: 50,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginBottom: 24,
+    },
+    icon: {
+      fontSize: 48,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    message: {
+      fontSize: 15,
+      color: colors.textMuted,
+      textAlign: 'center',
+      lineHeight: 22,
+      maxWidth: 280,
+      marginBottom: 24,
+    },
+    button: {
+      backgroundColor: colors.primary,
+      paddingVertical: 14,
+      paddingHorizontal: 32,
+      borderRadius: 12,
+    },
+    buttonText: {
+      color: colors.white,
+      fontSize: 16,
+      fontWeight: '700',
+    },
+  });
+
+export default NotFoundScreen;
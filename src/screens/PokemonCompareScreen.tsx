@@ -0,0 +1,528 @@
+/**
+ * Screen comparing two to four Pokemon side by side.
+ * Shows artwork, types, physical info, base stats with winners, and deltas.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  ScrollView,
+  StyleSheet,
+  TouchableOpacity,
+  StatusBar,
+} from 'react-native';
+import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { useComparePokemon } from '../hooks/useComparePokemon';
+import { usePokemonStore, selectLocalizedNames } from '../store/pokemonStore';
+import { usePreferencesStore, selectUnitSystem } from '../store/preferencesStore';
+import { StateHandler, TypeBadge, StatBar, PokemonPicker } from '../components';
+import { Pokemon, PokemonDetail, RootStackParamList } from '../types';
+import { formatName } from '../utils/formatters';
+import { formatHeight, formatWeight } from '../utils/units';
+import { ThemeColors, TypeColorMap, getTypeColor } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+type CompareRouteProp = RouteProp<RootStackParamList, 'PokemonCompare'>;
+type CompareNavigationProp = NativeStackNavigationProp<RootStackParamList, 'PokemonCompare'>;
+
+const MIN_COMPARE = 2;
+const MAX_COMPARE = 4;
+const MAX_BASE_STAT_TOTAL = 780;
+
+/**
+ * Bar color per comparison slot, so every row maps back to its column.
+ * Taken from the active palettes so light mode and color-blind modes apply.
+ */
+const getSlotColors = (colors: ThemeColors, typeColors: TypeColorMap): string[] => [
+  colors.primary,
+  colors.success,
+  colors.accent,
+  getTypeColor('flying', typeColors),
+];
+
+interface SlotValue {
+  slot: number;
+  value: number;
+}
+
+/**
+ * Formats a stat difference relative to the first loaded Pokemon
+ */
+const formatDelta = (delta: number): string => {
+  if (delta > 0) return `+${delta}`;
+  if (delta < 0) return `−${Math.abs(delta)}`;
+  return '±0';
+};
+
+const getBaseStatTotal = (pokemon: PokemonDetail): number => {
+  return pokemon.stats.reduce((sum, stat) => sum + stat.base_stat, 0);
+};
+
+/**
+ * PokemonCompareScreen - Side-by-side comparison of 2-4 Pokemon
+ *
+ * Features:
+ * - Artwork, types, and physical info per column
+ * - Base stats with the winner of each stat highlighted
+ * - Base stat total and deltas against the first loaded Pokemon
+ * - Stats cover the loaded entries while others load or fail
+ * - Swap, remove, and add entries in place
+ */
+const PokemonCompareScreen: React.FC = () => {
+  const { colors, typeColors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const slotColors = useMemo(() => getSlotColors(colors, typeColors), [colors, typeColors]);
+  const route = useRoute<CompareRouteProp>();
+  const navigation = useNavigation<CompareNavigationProp>();
+  const insets = useSafeAreaInsets();
+
+  // Links can carry repeats or more ids than fit, so keep the first unique ones
+  const pokemonIds = useMemo(
+    () =>
+      Array.isArray(route.params?.pokemonIds)
+        ? Array.from(new Set(route.params.pokemonIds)).slice(0, MAX_COMPARE)
+        : [],
+    [route.params]
+  );
+
+  const { pokemon, errors, isLoading, error, retry, retrySlot } =
+    useComparePokemon(pokemonIds);
+  const [pickerSlot, setPickerSlot] = useState<number | null>(null);
+  const localizedNames = usePokemonStore(selectLocalizedNames);
+  const unitSystem = usePreferencesStore(selectUnitSystem);
+
+  // Keeps each detail's slot so bars keep their column color around gaps
+  const loadedEntries = pokemon.flatMap((detail, slot) => (detail ? [{ detail, slot }] : []));
+  const canCompareStats = loadedEntries.length >= MIN_COMPARE;
+
+  const statNames = (loadedEntries[0]?.detail.stats ?? []).map((stat) => stat.stat.name);
+
+  const updateIds = useCallback(
+    (ids: number[]) => {
+      navigation.setParams({ pokemonIds: ids });
+    },
+    [navigation]
+  );
+
+  const handleRemove = useCallback(
+    (slot: number) => {
+      updateIds(pokemonIds.filter((_, index) => index !== slot));
+    },
+    [pokemonIds, updateIds]
+  );
+
+  const handlePick = useCallback(
+    (selected: Pokemon) => {
+      if (pickerSlot === null) return;
+
+      const ids = [...pokemonIds];
+      ids[pickerSlot] = selected.id;
+      setPickerSlot(null);
+      updateIds(ids);
+    },
+    [pickerSlot, pokemonIds, updateIds]
+  );
+
+  const renderStatGroup = (
+    key: string,
+    label: string,
+    values: SlotValue[],
+    maxValue?: number
+  ) => {
+    const best = Math.max(...values.map(({ value }) => value));
+    const hasWinner = values.some(({ value }) => value !== best);
+    const baseline = values[0]?.value ?? 0;
+
+    return (
+      <View key={key} style={styles.statGroup}>
+        {values.map(({ slot, value }, index) => (
+          <View key={`${key}-${slot}`} style={styles.statRow}>
+            <View style={styles.statBar}>
+              <StatBar
+                label={label}
+                value={value}
+                maxValue={maxValue}
+                color={slotColors[slot]}
+                highlighted={hasWinner && value === best}
+              />
+            </View>
+            <Text
+              style={[
+                styles.delta,
+                value - baseline > 0 && styles.deltaPositive,
+                value - baseline < 0 && styles.deltaNegative,
+              ]}
+            >
+              {index === 0 ? '' : formatDelta(value - baseline)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={colors.background}
+      />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.8}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.back')}
+        >
+          <Text style={styles.backText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('screen.compare')}</Text>
+      </View>
+
+      <StateHandler
+        isLoading={!!(isLoading && loadedEntries.length === 0)}
+        error={loadedEntries.length === 0 && !isLoading ? error : null}
+        isEmpty={pokemonIds.length === 0}
+        onRetry={retry}
+        emptyMessage={t('compare.empty')}
+        emptySubMessage={t('compare.emptySubtitle')}
+      >
+        <ScrollView
+          contentContainerStyle={[
+            styles.scrollContent,
+            { paddingBottom: insets.bottom + 24 },
+          ]}
+          showsVerticalScrollIndicator={!!false}
+        >
+          <View style={styles.columns}>
+            {pokemonIds.map((id, slot) => {
+              const detail = pokemon[slot];
+              const slotError = errors[slot];
+              const slotName = detail
+                ? localizedNames.pokemon[detail.id] ?? formatName(detail.name)
+                : `#${id}`;
+
+              return (
+                <View
+                  key={`${id}-${slot}`}
+                  style={[styles.column, { borderTopColor: slotColors[slot] }]}
+                >
+                  {detail ? (
+                    <>
+                      <Image
+                        source={{
+                          uri:
+                            detail.sprites.other?.['official-artwork']?.front_default ||
+                            detail.sprites.front_default ||
+                            undefined,
+                        }}
+                        style={styles.columnImage}
+                        resizeMode="contain"
+                      />
+                      <Text style={styles.columnName} numberOfLines={1}>
+                        {slotName}
+                      </Text>
+                      <View style={styles.columnTypes}>
+                        {detail.types.map((typeInfo) => (
+                          <View key={typeInfo.type.name} style={styles.columnType}>
+                            <TypeBadge type={typeInfo.type.name} size="small" />
+                          </View>
+                        ))}
+                      </View>
+                      <Text style={styles.columnInfo}>
+                        {formatHeight(detail.height, unitSystem)}
+                      </Text>
+                      <Text style={styles.columnInfo}>
+                        {formatWeight(detail.weight, unitSystem)}
+                      </Text>
+                    </>
+                  ) : slotError ? (
+                    <TouchableOpacity
+                      style={styles.columnError}
+                      onPress={() => retrySlot(slot)}
+                      activeOpacity={0.8}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('common.tryAgain')}
+                    >
+                      <Text style={styles.columnErrorText} numberOfLines={4}>
+                        {t('common.tapToRetry', { error: slotError })}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <View style={styles.columnPlaceholder} />
+                  )}
+
+                  <View style={styles.columnActions}>
+                    <TouchableOpacity
+                      onPress={() => setPickerSlot(slot)}
+                      activeOpacity={0.8}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('a11y.swapPokemon', { name: slotName })}
+                    >
+                      <Text style={styles.actionText}>{t('compare.swap')}</Text>
+                    </TouchableOpacity>
+                    {pokemonIds.length > MIN_COMPARE && (
+                      <TouchableOpacity
+                        onPress={() => handleRemove(slot)}
+                        activeOpacity={0.8}
+                        accessibilityRole="button"
+                        accessibilityLabel={t('a11y.removePokemon', { name: slotName })}
+                      >
+                        <Text style={[styles.actionText, styles.actionRemove]}>{t('compare.remove')}</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </View>
+              );
+            })}
+
+            {pokemonIds.length < MAX_COMPARE && (
+              <TouchableOpacity
+                style={[styles.column, styles.addColumn]}
+                onPress={() => setPickerSlot(pokemonIds.length)}
+                activeOpacity={0.8}
+                accessibilityRole="button"
+                accessibilityLabel={t('compare.addPokemon')}
+              >
+                <Text style={styles.addIcon}>+</Text>
+                <Text style={styles.addText}>{t('compare.add')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {pokemonIds.length < MIN_COMPARE && (
+            <TouchableOpacity
+              style={styles.addPrompt}
+              onPress={() => setPickerSlot(pokemonIds.length)}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+            >
+              <Text style={styles.addPromptText}>{t('compare.addPrompt')}</Text>
+            </TouchableOpacity>
+          )}
+
+          {canCompareStats && (
+            <>
+              <Text style={styles.sectionTitle}>{t('detail.baseStats')}</Text>
+              <View style={styles.statsContainer}>
+                {statNames.map((statName) =>
+                  renderStatGroup(
+                    statName,
+                    statName,
+                    loadedEntries.map(({ detail, slot }) => ({
+                      slot,
+                      value:
+                        detail.stats.find((stat) => stat.stat.name === statName)?.base_stat ?? 0,
+                    }))
+                  )
+                )}
+              </View>
+
+              <Text style={styles.sectionTitle}>{t('compare.baseStatTotal')}</Text>
+              <View style={styles.statsContainer}>
+                {renderStatGroup(
+                  'total',
+                  t('compare.total'),
+                  loadedEntries.map(({ detail, slot }) => ({
+                    slot,
+                    value: getBaseStatTotal(detail),
+                  })),
+                  MAX_BASE_STAT_TOTAL
+                )}
+              </View>
+            </>
+          )}
+        </ScrollView>
+      </StateHandler>
+
+      <PokemonPicker
+        visible={pickerSlot !== null}
+        title={
+          pickerSlot !== null && pickerSlot < pokemonIds.length
+            ? t('compare.swapPokemon')
+            : t('compare.addPokemon')
+        }
+        excludeIds={pokemonIds}
+        onSelect={handlePick}
+        onClose={() => setPickerSlot(null)}
+      />
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: 16,
+      paddingBottom: 12,
+    },
+    backButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginRight: 12,
+    },
+    backText: {
+      fontSize: 28,
+      lineHeight: 30,
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 34,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      letterSpacing: -0.5,
+    },
+    scrollContent: {
+      paddingHorizontal: 16,
+    },
+    columns: {
+      flexDirection: 'row',
+      marginBottom: 24,
+    },
+    column: {
+      flex: 1,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      borderTopWidth: 4,
+      paddingVertical: 12,
+      paddingHorizontal: 6,
+      marginHorizontal: 4,
+    },
+    columnImage: {
+      width: 64,
+      height: 64,
+    },
+    columnPlaceholder: {
+      width: 64,
+      height: 64,
+      borderRadius: 32,
+      backgroundColor: colors.surfaceLight,
+    },
+    columnError: {
+      minHeight: 64,
+      justifyContent: 'center',
+    },
+    columnErrorText: {
+      fontSize: 11,
+      color: colors.error,
+      textAlign: 'center',
+    },
+    columnName: {
+      fontSize: 13,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginTop: 6,
+    },
+    columnTypes: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      marginVertical: 6,
+    },
+    columnType: {
+      margin: 2,
+    },
+    columnInfo: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    columnActions: {
+      alignItems: 'center',
+      marginTop: 8,
+    },
+    actionText: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.textSecondary,
+      paddingVertical: 4,
+    },
+    actionRemove: {
+      color: colors.error,
+    },
+    addColumn: {
+      justifyContent: 'center',
+      borderTopColor: colors.border,
+      borderStyle: 'dashed',
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    addIcon: {
+      fontSize: 32,
+      color: colors.textMuted,
+    },
+    addText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textMuted,
+    },
+    addPrompt: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      marginBottom: 24,
+    },
+    addPromptText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 16,
+    },
+    statsContainer: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      marginBottom: 24,
+    },
+    statGroup: {
+      marginBottom: 8,
+    },
+    statRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    statBar: {
+      flex: 1,
+    },
+    delta: {
+      width: 44,
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.textMuted,
+      textAlign: 'right',
+      marginBottom: 12,
+    },
+    deltaPositive: {
+      color: colors.success,
+    },
+    deltaNegative: {
+      color: colors.error,
+    },
+  });
+
+export default PokemonCompareScreen;
@@ -1,75 +1,184 @@
 /**
  * Detail screen displaying expanded Pokemon information.
- * Handles missing data gracefully with fallback UI.
+ * Handles missing data gracefully with fallback UI. The detail view is
+ * also embedded beside the list in split view on wide screens.
  */
 
-import React, { useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
-  Image,
   ScrollView,
   StyleSheet,
   TouchableOpacity,
   StatusBar,
-  Dimensions,
+  ActivityIndicator,
 } from 'react-native';
 import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { usePokemonDetail } from '../hooks/usePokemonDetail';
-import { StateHandler, TypeBadge, StatBar } from '../components';
-import { RootStackParamList } from '../types';
-import Colors, { getTypeColor } from '../utils/colors';
-
-const { width } = Dimensions.get('window');
+import { useEvolutionChain } from '../hooks/useEvolutionChain';
+import { useTypeMatchups } from '../hooks/useTypeMatchups';
+import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import { useFavoritesStore, selectIsFavorite } from '../store/favoritesStore';
+import { usePokemonStore, selectLocalizedNames } from '../store/pokemonStore';
+import { usePreferencesStore, selectUnitSystem } from '../store/preferencesStore';
+import { transformPokemonDetail } from '../api/pokemonApi';
+import {
+  StateHandler,
+  TypeBadge,
+  StatBar,
+  EvolutionTree,
+  TypeMatchupTable,
+  FavoriteButton,
+  PokemonPicker,
+  MoveList,
+  MoveDetailSheet,
+  SpriteGallery,
+} from '../components';
+import { EvolutionNode, Pokemon, RootStackParamList } from '../types';
+import { ThemeColors, getTypeColor } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { formatName } from '../utils/formatters';
+import { formatHeight, formatNumber, formatWeight } from '../utils/units';
+import { t } from '../i18n';
 
 type DetailRouteProp = RouteProp<RootStackParamList, 'PokemonDetail'>;
 type DetailNavigationProp = NativeStackNavigationProp<RootStackParamList, 'PokemonDetail'>;
 
 /**
- * PokemonDetailScreen - Detailed view of a single Pokemon
- * 
+ * Hero header size relative to the pane, capped by the window height so
+ * landscape windows still show content below the header
+ */
+const HERO_HEIGHT_RATIO = 0.75;
+
+interface PokemonDetailViewProps {
+  pokemonId: number;
+  pokemonName: string;
+  onSelectPokemon?: (pokemon: { id: number; name: string }) => void;
+}
+
+/**
+ * PokemonDetailView - Detailed view of a single Pokemon
+ *
  * Features:
- * - Large artwork display
+ * - Swipeable sprite gallery with shiny and female toggles
+ * - Full-screen zoomable viewer with per-game sprites
  * - Type badges with colors
  * - Animated stat bars
- * - Abilities list
- * - Physical characteristics
+ * - Defensive type matchups
+ * - Abilities list, each opening its ability screen
+ * - Physical characteristics in metric or imperial units
+ * - Evolution chain with triggers
+ * - Moves by learn method and game, with a move detail sheet
+ * - Favorite toggle in the header
+ * - "Compare with…" picker
  * - Error handling with retry
+ *
+ * On the stack it has a back button and owns the URL. Embedded in split
+ * view it sizes itself to the detail pane and hands evolution taps back
+ * to the list instead of pushing a screen.
+ *
+ * @param pokemonId - Pokemon to show (0 when only the name is known)
+ * @param pokemonName - Name slug, used for name-only deep links
+ * @param onSelectPokemon - Set when embedded; called for Pokemon picked inside the detail
  */
-const PokemonDetailScreen: React.FC = () => {
-  const route = useRoute<DetailRouteProp>();
+export const PokemonDetailView: React.FC<PokemonDetailViewProps> = ({
+  pokemonId,
+  pokemonName,
+  onSelectPokemon,
+}) => {
+  const { colors, typeColors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<DetailNavigationProp>();
   const insets = useSafeAreaInsets();
 
-  const params = route.params ?? {};
-  const pokemonId = typeof params.pokemonId === 'number' ? params.pokemonId : 0;
-  const pokemonName =
-    typeof params.pokemonName === 'string' ? params.pokemonName : 'Unknown';
+  const isEmbedded = !!onSelectPokemon;
+  const { width, height, detailWidth } = useResponsiveLayout(isEmbedded);
+  const paneWidth = isEmbedded ? detailWidth : width;
+  const heroSize = Math.min(paneWidth, height * HERO_HEIGHT_RATIO);
+  // The list screen already pads the split view below the status bar
+  const topInset = isEmbedded ? 0 : insets.top;
+
+  // Deep links may identify the Pokemon by name only (pokemonId 0)
+  const idOrName = pokemonId || pokemonName.toLowerCase();
+
+  const { pokemon, isLoading, error, isNotFound, retry } = usePokemonDetail(idOrName);
+
+  useEffect(() => {
+    if (isNotFound && !isEmbedded) {
+      navigation.replace('NotFound', { resource: String(idOrName) });
+    }
+  }, [isNotFound, isEmbedded, idOrName, navigation]);
 
-  const { pokemon, isLoading, error, retry } = usePokemonDetail(pokemonId);
+  useEffect(() => {
+    // Once a name link resolves, switch to the canonical id URL
+    if (isEmbedded) return;
+    if (!pokemonId && pokemon && pokemon.name === pokemonName.toLowerCase()) {
+      navigation.setParams({ pokemonId: pokemon.id, pokemonName: pokemon.name });
+    }
+  }, [isEmbedded, pokemonId, pokemonName, pokemon, navigation]);
+  const {
+    evolution,
+    isLoading: evolutionLoading,
+    error: evolutionError,
+    retry: retryEvolution,
+  } = useEvolutionChain(pokemon?.species?.name);
+
+  const isFavorite = useFavoritesStore(selectIsFavorite(pokemon?.id ?? pokemonId));
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
+
+  const handleToggleFavorite = useCallback(() => {
+    if (pokemon) {
+      toggleFavorite(transformPokemonDetail(pokemon));
+    }
+  }, [pokemon, toggleFavorite]);
+
+  const [isComparePickerOpen, setIsComparePickerOpen] = useState(!!false);
+  const [selectedMove, setSelectedMove] = useState<string | null>(null);
+
+  const handleCompareSelect = useCallback(
+    (other: Pokemon) => {
+      setIsComparePickerOpen(!!false);
+      if (pokemon) {
+        navigation.navigate('PokemonCompare', {
+          pokemonIds: [pokemon.id, other.id],
+        });
+      }
+    },
+    [pokemon, navigation]
+  );
+
+  const typeNames = useMemo(
+    () => (pokemon?.types ?? []).map((typeInfo) => typeInfo.type.name),
+    [pokemon]
+  );
+  const {
+    matchups,
+    isLoading: matchupsLoading,
+    error: matchupsError,
+    retry: retryMatchups,
+  } = useTypeMatchups(typeNames);
 
   const primaryType = useMemo(() => {
     if (!pokemon?.types?.length) return 'normal';
     return pokemon.types[0].type.name;
   }, [pokemon]);
 
-  const primaryColor = getTypeColor(primaryType);
+  const primaryColor = getTypeColor(primaryType, typeColors);
+
+  const localizedNames = usePokemonStore(selectLocalizedNames);
+  const unitSystem = usePreferencesStore(selectUnitSystem);
+  const setUnits = usePreferencesStore((state) => state.setUnits);
 
   const displayName = useMemo(() => {
-    const name = pokemon?.name || pokemonName;
-    return name.charAt(0).toUpperCase() + name.slice(1);
-  }, [pokemon, pokemonName]);
-
-  const imageUrl = useMemo(() => {
-    if (!pokemon) return null;
-    return (
-      pokemon.sprites.other?.['official-artwork']?.front_default ||
-      pokemon.sprites.front_default
-    );
-  }, [pokemon]);
+    const localizedName = localizedNames.pokemon[pokemon?.id || pokemonId];
+    if (localizedName) return localizedName;
+
+    return formatName(pokemon?.name || pokemonName);
+  }, [pokemon, pokemonId, pokemonName, localizedNames]);
 
   const formattedId = useMemo(() => {
     const id = pokemon?.id || pokemonId;
@@ -80,9 +189,31 @@ const PokemonDetailScreen: React.FC = () => {
     navigation.goBack();
   };
 
+  const handleEvolutionSelect = useCallback(
+    (node: EvolutionNode) => {
+      if (onSelectPokemon) {
+        onSelectPokemon({ id: node.id, name: node.name });
+        return;
+      }
+
+      navigation.push('PokemonDetail', {
+        pokemonId: node.id,
+        pokemonName: node.name,
+      });
+    },
+    [navigation, onSelectPokemon]
+  );
+
+  const handleAbilityPress = useCallback(
+    (abilityName: string) => {
+      navigation.navigate('Ability', { abilityName });
+    },
+    [navigation]
+  );
+
   return (
     <View style={styles.container}>
-      <StatusBar barStyle="light-content" />
+      {!isEmbedded && <StatusBar barStyle="light-content" />}
 
       <StateHandler
         isLoading={!!isLoading}
@@ -96,20 +227,39 @@ const PokemonDetailScreen: React.FC = () => {
           showsVerticalScrollIndicator={!!false}
           bounces={!!true}
         >
-          <View style={[styles.headerSection, { backgroundColor: primaryColor }]}>
-            <TouchableOpacity
-              style={[styles.backButton, { top: insets.top + 10 }]}
-              onPress={handleGoBack}
-              activeOpacity={0.8}
-            >
-              <View style={styles.backArrow}>
-                <View style={styles.arrowLine1} />
-                <View style={styles.arrowLine2} />
-              </View>
-            </TouchableOpacity>
+          <View
+            style={[
+              styles.headerSection,
+              { height: heroSize * 0.9 + topInset, backgroundColor: primaryColor },
+            ]}
+          >
+            {!isEmbedded && (
+              <TouchableOpacity
+                style={[styles.backButton, { top: topInset + 10 }]}
+                onPress={handleGoBack}
+                activeOpacity={0.8}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.back')}
+              >
+                <View style={styles.backArrow}>
+                  <View style={styles.arrowLine1} />
+                  <View style={styles.arrowLine2} />
+                </View>
+              </TouchableOpacity>
+            )}
 
-            <View style={[styles.idBadge, { top: insets.top + 16 }]}>
-              <Text style={styles.idText}>{formattedId}</Text>
+            <View style={[styles.headerActions, { top: topInset + 10 }]}>
+              {pokemon && (
+                <FavoriteButton
+                  isFavorite={isFavorite}
+                  onToggle={handleToggleFavorite}
+                  size={22}
+                  style={styles.favoriteButton}
+                />
+              )}
+              <View style={styles.idBadge}>
+                <Text style={styles.idText}>{formattedId}</Text>
+              </View>
             </View>
 
             <View style={styles.pokeballDecoration}>
@@ -119,19 +269,17 @@ const PokemonDetailScreen: React.FC = () => {
               </View>
             </View>
 
-            <View style={styles.imageContainer}>
-              {imageUrl ? (
-                <Image
-                  source={{ uri: imageUrl }}
-                  style={{ width: '100%', height: '100%' }}
-                  resizeMode="contain"
-                />
-              ) : (
+            {pokemon ? (
+              <SpriteGallery sprites={pokemon.sprites} size={heroSize * 0.55} />
+            ) : (
+              <View
+                style={[styles.imageContainer, { width: heroSize * 0.65, height: heroSize * 0.65 }]}
+              >
                 <View style={styles.imagePlaceholder}>
                   <Text style={styles.imagePlaceholderText}>?</Text>
                 </View>
-              )}
-            </View>
+              </View>
+            )}
           </View>
 
           <View style={styles.contentSection}>
@@ -150,29 +298,61 @@ const PokemonDetailScreen: React.FC = () => {
                   ))}
                 </View>
               )}
+
+              {pokemon && (
+                <TouchableOpacity
+                  style={styles.compareButton}
+                  onPress={() => setIsComparePickerOpen(!!true)}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('detail.compareWith')}
+                >
+                  <Text style={styles.compareButtonText}>{t('detail.compareWith')}</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {pokemon && (
               <View style={styles.infoSection}>
-                <Text style={styles.sectionTitle}>Physical Info</Text>
+                <View style={styles.sectionHeader}>
+                  <Text style={[styles.sectionTitle, styles.sectionTitleInline]}>
+                    {t('detail.physicalInfo')}
+                  </Text>
+                  <TouchableOpacity
+                    style={styles.unitToggle}
+                    onPress={() => setUnits(unitSystem === 'metric' ? 'imperial' : 'metric')}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('settings.units')}
+                    accessibilityValue={{
+                      text: unitSystem === 'metric' ? t('units.metric') : t('units.imperial'),
+                    }}
+                  >
+                    <Text style={styles.unitToggleText}>
+                      {unitSystem === 'metric' ? t('units.metric') : t('units.imperial')}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
                 <View style={styles.infoGrid}>
                   <View style={styles.infoItem}>
                     <Text style={styles.infoValue}>
-                      {(pokemon.height / 10).toFixed(1)} m
+                      {formatHeight(pokemon.height, unitSystem)}
                     </Text>
-                    <Text style={styles.infoLabel}>Height</Text>
+                    <Text style={styles.infoLabel}>{t('detail.height')}</Text>
                   </View>
                   <View style={styles.infoDivider} />
                   <View style={styles.infoItem}>
                     <Text style={styles.infoValue}>
-                      {(pokemon.weight / 10).toFixed(1)} kg
+                      {formatWeight(pokemon.weight, unitSystem)}
                     </Text>
-                    <Text style={styles.infoLabel}>Weight</Text>
+                    <Text style={styles.infoLabel}>{t('detail.weight')}</Text>
                   </View>
                   <View style={styles.infoDivider} />
                   <View style={styles.infoItem}>
-                    <Text style={styles.infoValue}>{pokemon.base_experience}</Text>
-                    <Text style={styles.infoLabel}>Base XP</Text>
+                    <Text style={styles.infoValue}>
+                      {formatNumber(pokemon.base_experience)}
+                    </Text>
+                    <Text style={styles.infoLabel}>{t('detail.baseXp')}</Text>
                   </View>
                 </View>
               </View>
@@ -180,7 +360,7 @@ const PokemonDetailScreen: React.FC = () => {
 
             {pokemon?.stats && (
               <View style={styles.statsSection}>
-                <Text style={styles.sectionTitle}>Base Stats</Text>
+                <Text style={styles.sectionTitle}>{t('detail.baseStats')}</Text>
                 <View style={styles.statsContainer}>
                   {pokemon.stats.map((statInfo) => (
                     <StatBar
@@ -193,253 +373,401 @@ const PokemonDetailScreen: React.FC = () => {
               </View>
             )}
 
+            {pokemon && (
+              <View style={styles.matchupSection}>
+                <Text style={styles.sectionTitle}>{t('detail.matchups')}</Text>
+                {matchupsLoading && matchups.length === 0 ? (
+                  <ActivityIndicator color={colors.primary} />
+                ) : matchupsError ? (
+                  <TouchableOpacity
+                    onPress={retryMatchups}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.sectionError}>
+                      {t('common.tapToRetry', { error: matchupsError })}
+                    </Text>
+                  </TouchableOpacity>
+                ) : (
+                  <TypeMatchupTable matchups={matchups} />
+                )}
+              </View>
+            )}
+
             {pokemon?.abilities && (
               <View style={styles.abilitiesSection}>
-                <Text style={styles.sectionTitle}>Abilities</Text>
+                <Text style={styles.sectionTitle}>{t('detail.abilities')}</Text>
                 <View style={styles.abilitiesContainer}>
-                  {pokemon.abilities.map((abilityInfo) => (
-                    <View
-                      key={abilityInfo.ability.name}
-                      style={[
-                        styles.abilityBadge,
-                        abilityInfo.is_hidden && styles.hiddenAbility,
-                      ]}
-                    >
-                      <Text style={styles.abilityText}>
-                        {abilityInfo.ability.name.replace('-', ' ')}
-                      </Text>
-                      {abilityInfo.is_hidden && (
-                        <Text style={styles.hiddenLabel}>Hidden</Text>
-                      )}
-                    </View>
-                  ))}
+                  {pokemon.abilities.map((abilityInfo) => {
+                    const abilityName =
+                      localizedNames.abilities[abilityInfo.ability.name] ??
+                      formatName(abilityInfo.ability.name);
+
+                    return (
+                      <TouchableOpacity
+                        key={abilityInfo.ability.name}
+                        style={[
+                          styles.abilityBadge,
+                          abilityInfo.is_hidden && styles.hiddenAbility,
+                        ]}
+                        onPress={() => handleAbilityPress(abilityInfo.ability.name)}
+                        activeOpacity={0.8}
+                        accessibilityRole="button"
+                        accessibilityLabel={
+                          abilityInfo.is_hidden
+                            ? `${abilityName}, ${t('common.hidden')}`
+                            : abilityName
+                        }
+                        accessibilityHint={t('a11y.openDetails')}
+                      >
+                        <Text style={styles.abilityText}>{abilityName}</Text>
+                        {abilityInfo.is_hidden && (
+                          <Text style={styles.hiddenLabel}>{t('common.hidden')}</Text>
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
                 </View>
               </View>
             )}
 
+            {pokemon && (
+              <View style={styles.evolutionSection}>
+                <Text style={styles.sectionTitle}>{t('detail.evolution')}</Text>
+                {evolutionLoading && !evolution ? (
+                  <ActivityIndicator color={colors.primary} />
+                ) : evolutionError ? (
+                  <TouchableOpacity
+                    onPress={retryEvolution}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.sectionError}>
+                      {t('common.tapToRetry', { error: evolutionError })}
+                    </Text>
+                  </TouchableOpacity>
+                ) : evolution ? (
+                  <EvolutionTree
+                    root={evolution}
+                    currentPokemonId={pokemon.id}
+                    onSelect={handleEvolutionSelect}
+                  />
+                ) : null}
+              </View>
+            )}
+
+            {pokemon && (
+              <View style={styles.movesSection}>
+                <Text style={styles.sectionTitle}>{t('detail.moves')}</Text>
+                <MoveList moves={pokemon.moves} onSelectMove={setSelectedMove} />
+              </View>
+            )}
+
             <View style={{ height: insets.bottom + 24 }} />
           </View>
         </ScrollView>
       </StateHandler>
+
+      <PokemonPicker
+        visible={isComparePickerOpen}
+        title={t('detail.compareWith')}
+        excludeIds={pokemon ? [pokemon.id] : []}
+        onSelect={handleCompareSelect}
+        onClose={() => setIsComparePickerOpen(!!false)}
+      />
+
+      <MoveDetailSheet moveName={selectedMove} onClose={() => setSelectedMove(null)} />
     </View>
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: Colors.background,
-  },
-  scrollView: {
-    flex: 1,
-  },
-  scrollContent: {
-    flexGrow: 1,
-  },
-  headerSection: {
-    height: width * 0.9,
-    justifyContent: 'flex-end',
-    alignItems: 'center',
-    paddingBottom: 20,
-    borderBottomLeftRadius: 40,
-    borderBottomRightRadius: 40,
-    overflow: 'hidden',
-  },
-  backButton: {
-    position: 'absolute',
-    left: 20,
-    width: 44,
-    height: 44,
-    backgroundColor: 'rgba(0, 0, 0, 0.2)',
-    borderRadius: 22,
-    justifyContent: 'center',
-    alignItems: 'center',
-    zIndex: 10,
-  },
-  backArrow: {
-    width: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  arrowLine1: {
-    position: 'absolute',
-    width: 12,
-    height: 2,
-    backgroundColor: Colors.white,
-    borderRadius: 1,
-    transform: [{ rotate: '-45deg' }, { translateY: -3 }],
-  },
-  arrowLine2: {
-    position: 'absolute',
-    width: 12,
-    height: 2,
-    backgroundColor: Colors.white,
-    borderRadius: 1,
-    transform: [{ rotate: '45deg' }, { translateY: 3 }],
-  },
-  idBadge: {
-    position: 'absolute',
-    right: 20,
-    backgroundColor: 'rgba(0, 0, 0, 0.2)',
-    paddingHorizontal: 14,
-    paddingVertical: 8,
-    borderRadius: 12,
-    zIndex: 10,
-  },
-  idText: {
-    fontSize: 16,
-    fontWeight: '700',
-    color: Colors.white,
-    letterSpacing: 1,
-  },
-  pokeballDecoration: {
-    position: 'absolute',
-    top: -50,
-    right: -50,
-    opacity: 0.15,
-  },
-  pokeballOuter: {
-    width: 200,
-    height: 200,
-    borderRadius: 100,
-    borderWidth: 12,
-    borderColor: Colors.white,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  pokeballLine: {
-    position: 'absolute',
-    width: '100%',
-    height: 12,
-    backgroundColor: Colors.white,
-  },
-  pokeballCenter: {
-    width: 50,
-    height: 50,
-    borderRadius: 25,
-    backgroundColor: Colors.white,
-    borderWidth: 8,
-    borderColor: 'transparent',
-  },
-  imageContainer: {
-    width: width * 0.65,
-    height: width * 0.65,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  imagePlaceholder: {
-    width: 150,
-    height: 150,
-    borderRadius: 75,
-    backgroundColor: 'rgba(255, 255, 255, 0.3)',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  imagePlaceholderText: {
-    fontSize: 60,
-    color: Colors.white,
-    fontWeight: '700',
-  },
-  contentSection: {
-    flex: 1,
-    paddingHorizontal: 24,
-    paddingTop: 24,
-  },
-  nameSection: {
-    alignItems: 'center',
-    marginBottom: 24,
-  },
-  pokemonName: {
-    fontSize: 32,
-    fontWeight: '800',
-    color: Colors.textPrimary,
-    letterSpacing: -0.5,
-    marginBottom: 12,
-  },
-  typesContainer: {
-    flexDirection: 'row',
-  },
-  infoSection: {
-    marginBottom: 24,
-  },
-  sectionTitle: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: Colors.textPrimary,
-    marginBottom: 16,
-  },
-  infoGrid: {
-    flexDirection: 'row',
-    backgroundColor: Colors.surface,
-    borderRadius: 16,
-    padding: 20,
-    alignItems: 'center',
-  },
-  infoItem: {
-    flex: 1,
-    alignItems: 'center',
-  },
-  infoValue: {
-    fontSize: 18,
-    fontWeight: '700',
-    color: Colors.textPrimary,
-    marginBottom: 4,
-  },
-  infoLabel: {
-    fontSize: 12,
-    color: Colors.textMuted,
-    textTransform: 'uppercase',
-    letterSpacing: 0.5,
-  },
-  infoDivider: {
-    width: 1,
-    height: 40,
-    backgroundColor: Colors.border,
-  },
-  statsSection: {
-    marginBottom: 24,
-  },
-  statsContainer: {
-    backgroundColor: Colors.surface,
-    borderRadius: 16,
-    padding: 20,
-  },
-  abilitiesSection: {
-    marginBottom: 24,
-  },
-  abilitiesContainer: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-  },
-  abilityBadge: {
-    backgroundColor: Colors.surface,
-    paddingHorizontal: 16,
-    paddingVertical: 10,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: Colors.border,
-    marginRight: 10,
-    marginBottom: 10,
-  },
-  hiddenAbility: {
-    borderColor: Colors.accent,
-    borderStyle: 'dashed',
-  },
-  abilityText: {
-    fontSize: 14,
-    fontWeight: '600',
-    color: Colors.textPrimary,
-    textTransform: 'capitalize',
-  },
-  hiddenLabel: {
-    fontSize: 10,
-    color: Colors.accent,
-    marginTop: 4,
-    textTransform: 'uppercase',
-    letterSpacing: 0.5,
-  },
-});
+/**
+ * PokemonDetailScreen - Stack screen for a Pokemon, read from the route
+ */
+const PokemonDetailScreen: React.FC = () => {
+  const route = useRoute<DetailRouteProp>();
+
+  const params = route.params ?? {};
+  const pokemonId = typeof params.pokemonId === 'number' ? params.pokemonId : 0;
+  const pokemonName =
+    typeof params.pokemonName === 'string' ? params.pokemonName : 'Unknown';
+
+  return <PokemonDetailView pokemonId={pokemonId} pokemonName={pokemonName} />;
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    scrollContent: {
+      flexGrow: 1,
+    },
+    headerSection: {
+      justifyContent: 'flex-end',
+      alignItems: 'center',
+      paddingBottom: 20,
+      borderBottomLeftRadius: 40,
+      borderBottomRightRadius: 40,
+      overflow: 'hidden',
+    },
+    backButton: {
+      position: 'absolute',
+      left: 20,
+      width: 44,
+      height: 44,
+      backgroundColor: 'rgba(0, 0, 0, 0.2)',
+      borderRadius: 22,
+      justifyContent: 'center',
+      alignItems: 'center',
+      zIndex: 10,
+    },
+    backArrow: {
+      width: 20,
+      height: 20,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    arrowLine1: {
+      position: 'absolute',
+      width: 12,
+      height: 2,
+      backgroundColor: colors.white,
+      borderRadius: 1,
+      transform: [{ rotate: '-45deg' }, { translateY: -3 }],
+    },
+    arrowLine2: {
+      position: 'absolute',
+      width: 12,
+      height: 2,
+      backgroundColor: colors.white,
+      borderRadius: 1,
+      transform: [{ rotate: '45deg' }, { translateY: 3 }],
+    },
+    headerActions: {
+      position: 'absolute',
+      right: 20,
+      flexDirection: 'row',
+      alignItems: 'center',
+      zIndex: 10,
+    },
+    favoriteButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: 'rgba(0, 0, 0, 0.2)',
+      marginRight: 10,
+    },
+    idBadge: {
+      backgroundColor: 'rgba(0, 0, 0, 0.2)',
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 12,
+      zIndex: 10,
+    },
+    idText: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.white,
+      letterSpacing: 1,
+    },
+    pokeballDecoration: {
+      position: 'absolute',
+      top: -50,
+      right: -50,
+      opacity: 0.15,
+    },
+    pokeballOuter: {
+      width: 200,
+      height: 200,
+      borderRadius: 100,
+      borderWidth: 12,
+      borderColor: colors.white,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    pokeballLine: {
+      position: 'absolute',
+      width: '100%',
+      height: 12,
+      backgroundColor: colors.white,
+    },
+    pokeballCenter: {
+      width: 50,
+      height: 50,
+      borderRadius: 25,
+      backgroundColor: colors.white,
+      borderWidth: 8,
+      borderColor: 'transparent',
+    },
+    imageContainer: {
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    imagePlaceholder: {
+      width: 150,
+      height: 150,
+      borderRadius: 75,
+      backgroundColor: 'rgba(255, 255, 255, 0.3)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    imagePlaceholderText: {
+      fontSize: 60,
+      color: colors.white,
+      fontWeight: '700',
+    },
+    contentSection: {
+      flex: 1,
+      paddingHorizontal: 24,
+      paddingTop: 24,
+    },
+    nameSection: {
+      alignItems: 'center',
+      marginBottom: 24,
+    },
+    pokemonName: {
+      fontSize: 32,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      letterSpacing: -0.5,
+      marginBottom: 12,
+    },
+    typesContainer: {
+      flexDirection: 'row',
+    },
+    compareButton: {
+      marginTop: 16,
+      paddingHorizontal: 20,
+      paddingVertical: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    compareButtonText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.textSecondary,
+    },
+    infoSection: {
+      marginBottom: 24,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    sectionTitleInline: {
+      marginBottom: 0,
+    },
+    unitToggle: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    unitToggleText: {
+      fontSize: 12,
+      fontWeight: '700',
+      color: colors.textSecondary,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 16,
+    },
+    infoGrid: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 20,
+      alignItems: 'center',
+    },
+    infoItem: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    infoValue: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 4,
+    },
+    infoLabel: {
+      fontSize: 12,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+    },
+    infoDivider: {
+      width: 1,
+      height: 40,
+      backgroundColor: colors.border,
+    },
+    statsSection: {
+      marginBottom: 24,
+    },
+    statsContainer: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 20,
+    },
+    abilitiesSection: {
+      marginBottom: 24,
+    },
+    abilitiesContainer: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    abilityBadge: {
+      backgroundColor: colors.surface,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginRight: 10,
+      marginBottom: 10,
+    },
+    hiddenAbility: {
+      borderColor: colors.accent,
+      borderStyle: 'dashed',
+    },
+    abilityText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textPrimary,
+    },
+    matchupSection: {
+      marginBottom: 24,
+    },
+    evolutionSection: {
+      marginBottom: 24,
+    },
+    movesSection: {
+      marginBottom: 24,
+    },
+    sectionError: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    hiddenLabel: {
+      fontSize: 10,
+      color: colors.accent,
+      marginTop: 4,
+      textTransform: 'uppercase',
+      letterSpacing: 0.5,
+    },
+  });
 
 export default PokemonDetailScreen;
 
@@ -3,14 +3,16 @@
  * Integrates search, pull-to-refresh, and infinite scroll.
  */
 
-import React, { useCallback, useEffect, useMemo } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   View,
   FlatList,
   StyleSheet,
   RefreshControl,
   StatusBar,
+  ActivityIndicator,
   Text,
+  TouchableOpacity,
   ListRenderItem,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
@@ -18,31 +20,68 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { useFetchItems } from '../hooks/useFetchItems';
-import { usePokemonStore } from '../store/pokemonStore';
+import { usePokemonSearch } from '../hooks/usePokemonSearch';
+import { useTypeIndex } from '../hooks/useTypeIndex';
+import { useListUrlParams } from '../hooks/useListUrlParams';
+import { useViewportPrefetch } from '../hooks/useViewportPrefetch';
+import { useStatSummaries } from '../hooks/useStatSummaries';
+import { useResponsiveLayout } from '../hooks/useResponsiveLayout';
+import {
+  usePokemonStore,
+  selectIsFiltering,
+  selectSortOption,
+  selectUsesFullIndex,
+  selectParsedQuery,
+} from '../store/pokemonStore';
+import { useFavoritesStore, selectFavorites } from '../store/favoritesStore';
 import {
   StateHandler,
   PokemonCard,
   SearchBar,
   LoadingFooter,
+  TypeFilterChips,
+  SortControl,
 } from '../components';
 import { Pokemon, RootStackParamList } from '../types';
-import Colors from '../utils/colors';
+import { LIST_SORT_OPTIONS, isStatSortOption } from '../utils/sort';
+import { parseQuery, queryNeedsSummaries, queryNeedsTypeIndex } from '../utils/query';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+import { PokemonDetailView } from './PokemonDetailScreen';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'PokemonList'>;
 
+const validateQuery = (text: string) => parseQuery(text).errors;
+
 /**
  * PokemonListScreen - Main list view with search, pagination, and refresh
  * 
  * Features:
- * - Grid layout with 2 columns
- * - Search/Filter functionality
+ * - Grid columns that fit the window width
+ * - On wide windows, a split view with the selected Pokemon beside the list
+ * - Full-dex search by name or dex number
+ * - Query syntax (e.g. "type:fire hp>=90 gen:3 -legendary") with inline errors
+ * - Type filter chips (AND/OR) combined with search
+ * - Sort by number, name, stats, height, or weight
+ * - Shortcuts to Favorites, browsing by generation, and Settings
+ * - Favorite toggle on each card
+ * - Search and filters mirrored in the URL for sharing
  * - Pull-to-refresh
  * - Infinite scroll pagination
+ * - Visible cards prefetch their detail data so taps open instantly
  * - Loading, Empty, and Error states
  */
 const PokemonListScreen: React.FC = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const navigation = useNavigation<NavigationProp>();
   const insets = useSafeAreaInsets();
+  const { isSplitView, listWidth, numColumns, cardWidth } = useResponsiveLayout(!!true);
+
+  const [selectedPokemon, setSelectedPokemon] = useState<{ id: number; name: string } | null>(
+    null
+  );
 
   const {
     pokemonList,
@@ -56,8 +95,53 @@ const PokemonListScreen: React.FC = () => {
     retryFetch,
   } = useFetchItems();
 
+  usePokemonSearch();
+  useListUrlParams();
+  const { onViewableItemsChanged, viewabilityConfig } = useViewportPrefetch();
+
   const searchQuery = usePokemonStore((state) => state.searchQuery);
   const setSearchQuery = usePokemonStore((state) => state.setSearchQuery);
+  const selectedTypes = usePokemonStore((state) => state.selectedTypes);
+  const typeFilterMode = usePokemonStore((state) => state.typeFilterMode);
+  const toggleTypeFilter = usePokemonStore((state) => state.toggleTypeFilter);
+  const setTypeFilterMode = usePokemonStore((state) => state.setTypeFilterMode);
+  const clearTypeFilters = usePokemonStore((state) => state.clearTypeFilters);
+  const isFiltering = usePokemonStore(selectIsFiltering);
+  const usesFullIndex = usePokemonStore(selectUsesFullIndex);
+  const sortOption = usePokemonStore(selectSortOption);
+  const setSortOption = usePokemonStore((state) => state.setSortOption);
+  const parsedQuery = usePokemonStore(selectParsedQuery);
+
+  const needsStatSummaries = isStatSortOption(sortOption) || queryNeedsSummaries(parsedQuery);
+  const {
+    isStatSummariesReady,
+    isLoading: isStatSummariesLoading,
+    error: statSummariesError,
+    retry: retryStatSummaries,
+  } = useStatSummaries(needsStatSummaries);
+
+  const needsTypeIndex = selectedTypes.length > 0 || queryNeedsTypeIndex(parsedQuery);
+  const {
+    isTypeIndexReady,
+    isLoading: isTypeIndexLoading,
+    error: typeIndexError,
+    retry: retryTypeIndex,
+  } = useTypeIndex();
+
+  // Stat sorts can't order anything without summaries, so offer them only once they can load
+  const sortOptions = useMemo(
+    () =>
+      statSummariesError
+        ? LIST_SORT_OPTIONS.map((option) => ({
+            ...option,
+            disabled: isStatSortOption(option.value),
+          }))
+        : LIST_SORT_OPTIONS,
+    [statSummariesError]
+  );
+
+  const favorites = useFavoritesStore(selectFavorites);
+  const toggleFavorite = useFavoritesStore((state) => state.toggleFavorite);
 
   useEffect(() => {
     loadInitialData();
@@ -65,23 +149,37 @@ const PokemonListScreen: React.FC = () => {
 
   const handlePokemonPress = useCallback(
     (pokemon: Pokemon) => {
+      if (isSplitView) {
+        setSelectedPokemon({ id: pokemon.id, name: pokemon.name });
+        return;
+      }
+
       navigation.navigate('PokemonDetail', {
         pokemonId: pokemon.id,
         pokemonName: pokemon.name,
       });
     },
-    [navigation]
+    [navigation, isSplitView]
   );
 
   const handleEndReached = useCallback(() => {
-    if (!!(!isLoading && !isRefreshing && hasMore && !searchQuery)) {
+    if (!!(!isLoading && !isRefreshing && hasMore && !usesFullIndex)) {
       loadMoreData();
     }
-  }, [isLoading, isRefreshing, hasMore, searchQuery, loadMoreData]);
+  }, [isLoading, isRefreshing, hasMore, usesFullIndex, loadMoreData]);
 
   const renderItem: ListRenderItem<Pokemon> = useCallback(
-    ({ item }) => <PokemonCard pokemon={item} onPress={handlePokemonPress} />,
-    [handlePokemonPress]
+    ({ item }) => (
+      <PokemonCard
+        pokemon={item}
+        width={cardWidth}
+        onPress={handlePokemonPress}
+        isFavorite={!!favorites[item.id]}
+        onToggleFavorite={toggleFavorite}
+        isSelected={isSplitView && selectedPokemon?.id === item.id}
+      />
+    ),
+    [handlePokemonPress, favorites, toggleFavorite, cardWidth, isSplitView, selectedPokemon]
   );
 
   const keyExtractor = useCallback(
@@ -92,119 +190,399 @@ const PokemonListScreen: React.FC = () => {
   const renderFooter = useCallback(
     () => (
       <LoadingFooter
-        isLoading={!!(!isLoading && !isRefreshing && hasMore && !searchQuery)}
+        isLoading={!!(!isLoading && !isRefreshing && hasMore && !usesFullIndex)}
         hasMore={!!hasMore}
         itemCount={pokemonList.length}
       />
     ),
-    [isLoading, isRefreshing, hasMore, searchQuery, pokemonList.length]
+    [isLoading, isRefreshing, hasMore, usesFullIndex, pokemonList.length]
   );
 
   const renderHeader = useCallback(
     () => (
       <View style={styles.headerContainer}>
         <View style={styles.titleContainer}>
-          <Text style={styles.title}>Pokédex</Text>
-          <Text style={styles.subtitle}>
-            Discover and explore Pokémon
-          </Text>
+          <View>
+            <Text style={styles.title}>{t('screen.list')}</Text>
+            <Text style={styles.subtitle}>
+              {t('list.subtitle')}
+            </Text>
+          </View>
+
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={[styles.headerButton, styles.headerButtonSpacing]}
+              onPress={() => navigation.navigate('Generations')}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityLabel={t('screen.generations')}
+            >
+              <Text style={styles.generationsIcon}>I–IX</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => navigation.navigate('Favorites')}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityLabel={t('screen.favorites')}
+            >
+              <Text style={styles.favoritesIcon}>♥</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.headerButton, styles.headerButtonGap]}
+              onPress={() => navigation.navigate('Settings')}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityLabel={t('screen.settings')}
+            >
+              <Text style={styles.settingsIcon}>⚙</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.searchRow}>
+          <SearchBar
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder={t('list.searchPlaceholder')}
+            style={styles.searchBar}
+            validate={validateQuery}
+          />
+          <SortControl
+            value={sortOption}
+            options={sortOptions}
+            onChange={setSortOption}
+          />
         </View>
 
-        <SearchBar
-          value={searchQuery}
-          onChangeText={setSearchQuery}
-          placeholder="Search by name..."
+        <TypeFilterChips
+          selectedTypes={selectedTypes}
+          mode={typeFilterMode}
+          onToggleType={toggleTypeFilter}
+          onChangeMode={setTypeFilterMode}
+          onClear={clearTypeFilters}
         />
+
+        {needsTypeIndex && isTypeIndexLoading && (
+          <View style={styles.statsNotice}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <Text style={[styles.statsNoticeText, styles.statsNoticeLoading]}>
+              {t('list.typesLoading')}
+            </Text>
+          </View>
+        )}
+
+        {needsTypeIndex && typeIndexError && (
+          <TouchableOpacity
+            style={styles.statsNotice}
+            onPress={retryTypeIndex}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+          >
+            <View style={styles.statsNoticeBody}>
+              <Text style={styles.statsNoticeTitle}>{t('list.typesUnavailable')}</Text>
+              <Text style={styles.statsNoticeText}>
+                {t('common.tapToRetry', { error: typeIndexError })}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        )}
+
+        {needsStatSummaries && isStatSummariesLoading && (
+          <View style={styles.statsNotice}>
+            <ActivityIndicator size="small" color={colors.primary} />
+            <Text style={[styles.statsNoticeText, styles.statsNoticeLoading]}>
+              {t('list.statsLoading')}
+            </Text>
+          </View>
+        )}
+
+        {needsStatSummaries && statSummariesError && (
+          <TouchableOpacity
+            style={styles.statsNotice}
+            onPress={retryStatSummaries}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+          >
+            <View style={styles.statsNoticeBody}>
+              <Text style={styles.statsNoticeTitle}>{t('list.statsUnavailable')}</Text>
+              <Text style={styles.statsNoticeText}>
+                {t('common.tapToRetry', { error: statSummariesError })}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        )}
       </View>
     ),
-    [searchQuery, setSearchQuery]
+    [
+      navigation,
+      searchQuery,
+      setSearchQuery,
+      sortOption,
+      sortOptions,
+      setSortOption,
+      selectedTypes,
+      typeFilterMode,
+      toggleTypeFilter,
+      setTypeFilterMode,
+      clearTypeFilters,
+      needsTypeIndex,
+      isTypeIndexLoading,
+      typeIndexError,
+      retryTypeIndex,
+      needsStatSummaries,
+      isStatSummariesLoading,
+      statSummariesError,
+      retryStatSummaries,
+      styles,
+      colors,
+    ]
   );
 
+  const renderEmpty = useCallback(() => {
+    // Type and stat queries match nothing until their data arrives; the header shows why
+    if (needsTypeIndex && !isTypeIndexReady) return null;
+    if (needsStatSummaries && !isStatSummariesReady) return null;
+
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyTitle}>{t('common.noPokemonFound')}</Text>
+        <Text style={styles.emptySubtitle}>
+          {searchQuery
+            ? t('list.noResults', { query: searchQuery })
+            : t('list.noTypeMatches')}
+        </Text>
+      </View>
+    );
+  }, [
+    searchQuery,
+    needsTypeIndex,
+    isTypeIndexReady,
+    needsStatSummaries,
+    isStatSummariesReady,
+    styles,
+  ]);
+
   const refreshControl = useMemo(
     () => (
       <RefreshControl
         refreshing={!!isRefreshing}
         onRefresh={refreshData}
-        tintColor={Colors.primary}
-        colors={[Colors.primary]}
-        progressBackgroundColor={Colors.surface}
+        tintColor={colors.primary}
+        colors={[colors.primary]}
+        progressBackgroundColor={colors.surface}
       />
     ),
-    [isRefreshing, refreshData]
+    [isRefreshing, refreshData, colors]
   );
 
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
-      <StatusBar barStyle="light-content" backgroundColor={Colors.background} />
-
-      <StateHandler
-        isLoading={!!(isLoading && pokemonList.length === 0)}
-        error={error}
-        isEmpty={!!(!isLoading && pokemonList.length === 0)}
-        onRetry={retryFetch}
-        emptyMessage="No Pokémon found"
-        emptySubMessage={
-          searchQuery
-            ? `No results for "${searchQuery}". Try a different search.`
-            : 'Pull down to refresh and load Pokémon.'
-        }
-      >
-        <FlatList
-          data={pokemonList}
-          renderItem={renderItem}
-          keyExtractor={keyExtractor}
-          numColumns={2}
-          contentContainerStyle={styles.listContent}
-          columnWrapperStyle={styles.columnWrapper}
-          ListHeaderComponent={renderHeader}
-          ListFooterComponent={renderFooter}
-          refreshControl={refreshControl}
-          onEndReached={handleEndReached}
-          onEndReachedThreshold={0.5}
-          windowSize={10}
-          maxToRenderPerBatch={10}
-          initialNumToRender={10}
-          removeClippedSubviews={!!true}
-          showsVerticalScrollIndicator={!!false}
-          bounces={!!true}
-        />
-      </StateHandler>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={colors.background}
+      />
+
+      <View style={styles.panes}>
+        <View style={isSplitView ? [styles.listPane, { width: listWidth }] : styles.fill}>
+          <StateHandler
+            isLoading={!!(isLoading && pokemonList.length === 0)}
+            error={error}
+            isEmpty={!!(!isLoading && pokemonList.length === 0 && !isFiltering)}
+            onRetry={retryFetch}
+            emptyMessage={t('common.noPokemonFound')}
+            emptySubMessage={t('list.emptySubtitle')}
+          >
+            <FlatList
+              // Changing numColumns on the fly isn't supported, so remount
+              key={`list-grid-${numColumns}`}
+              data={pokemonList}
+              renderItem={renderItem}
+              keyExtractor={keyExtractor}
+              numColumns={numColumns}
+              contentContainerStyle={styles.listContent}
+              columnWrapperStyle={styles.columnWrapper}
+              ListHeaderComponent={renderHeader}
+              ListFooterComponent={renderFooter}
+              ListEmptyComponent={renderEmpty}
+              extraData={favorites}
+              refreshControl={refreshControl}
+              onEndReached={handleEndReached}
+              onEndReachedThreshold={0.5}
+              onViewableItemsChanged={onViewableItemsChanged}
+              viewabilityConfig={viewabilityConfig}
+              windowSize={10}
+              maxToRenderPerBatch={10}
+              initialNumToRender={10}
+              removeClippedSubviews={!!true}
+              showsVerticalScrollIndicator={!!false}
+              bounces={!!true}
+            />
+          </StateHandler>
+        </View>
+
+        {isSplitView && (
+          <View style={styles.fill}>
+            {selectedPokemon ? (
+              <PokemonDetailView
+                key={selectedPokemon.id}
+                pokemonId={selectedPokemon.id}
+                pokemonName={selectedPokemon.name}
+                onSelectPokemon={setSelectedPokemon}
+              />
+            ) : (
+              <View style={styles.detailPlaceholder}>
+                <Text style={styles.emptySubtitle}>{t('list.selectPrompt')}</Text>
+              </View>
+            )}
+          </View>
+        )}
+      </View>
     </View>
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: Colors.background,
-  },
-  listContent: {
-    paddingHorizontal: 16,
-    paddingBottom: 24,
-  },
-  columnWrapper: {
-    justifyContent: 'space-between',
-  },
-  headerContainer: {
-    paddingTop: 16,
-    paddingBottom: 8,
-  },
-  titleContainer: {
-    paddingHorizontal: 16,
-    marginBottom: 20,
-  },
-  title: {
-    fontSize: 34,
-    fontWeight: '800',
-    color: Colors.textPrimary,
-    letterSpacing: -0.5,
-  },
-  subtitle: {
-    fontSize: 16,
-    color: Colors.textSecondary,
-    marginTop: 4,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    panes: {
+      flex: 1,
+      flexDirection: 'row',
+    },
+    fill: {
+      flex: 1,
+    },
+    listPane: {
+      borderRightWidth: StyleSheet.hairlineWidth,
+      borderRightColor: colors.border,
+    },
+    detailPlaceholder: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      paddingHorizontal: 24,
+    },
+    listContent: {
+      paddingHorizontal: 16,
+      paddingBottom: 24,
+    },
+    columnWrapper: {
+      justifyContent: 'flex-start',
+    },
+    headerContainer: {
+      paddingTop: 16,
+      paddingBottom: 8,
+    },
+    titleContainer: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      marginBottom: 20,
+    },
+    headerActions: {
+      flexDirection: 'row',
+    },
+    headerButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    headerButtonSpacing: {
+      marginRight: 8,
+    },
+    headerButtonGap: {
+      marginLeft: 8,
+    },
+    favoritesIcon: {
+      fontSize: 20,
+      color: colors.primary,
+    },
+    settingsIcon: {
+      fontSize: 20,
+      color: colors.textSecondary,
+    },
+    generationsIcon: {
+      fontSize: 11,
+      fontWeight: '800',
+      color: colors.textSecondary,
+    },
+    title: {
+      fontSize: 34,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      letterSpacing: -0.5,
+    },
+    subtitle: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      paddingHorizontal: 16,
+      marginBottom: 16,
+    },
+    searchBar: {
+      flex: 1,
+      marginHorizontal: 0,
+      marginBottom: 0,
+      marginRight: 12,
+    },
+    statsNotice: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginHorizontal: 16,
+      marginTop: 12,
+      padding: 12,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    statsNoticeBody: {
+      flex: 1,
+    },
+    statsNoticeTitle: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 2,
+    },
+    statsNoticeText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    statsNoticeLoading: {
+      marginLeft: 10,
+    },
+    emptyContainer: {
+      alignItems: 'center',
+      paddingVertical: 48,
+      paddingHorizontal: 24,
+    },
+    emptyTitle: {
+      fontSize: 20,
+      fontWeight: '700',
+      color: colors.textPrimary,
+      marginBottom: 8,
+    },
+    emptySubtitle: {
+      fontSize: 15,
+      color: colors.textMuted,
+      textAlign: 'center',
+      lineHeight: 22,
+    },
+  });
 
 export default PokemonListScreen;
 
@@ -0,0 +1,390 @@
+/**
+ * Settings screen for the persisted user preferences.
+ */
+
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  Switch,
+  ScrollView,
+  StyleSheet,
+  StatusBar,
+  TouchableOpacity,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import {
+  usePreferencesStore,
+  PAGE_SIZE_OPTIONS,
+  SEARCH_DEBOUNCE_OPTIONS,
+} from '../store/preferencesStore';
+import { clearResponseCache } from '../api/responseCache';
+import { usePokemonStore } from '../store/pokemonStore';
+import { getErrorMessage } from '../api/pokemonApi';
+import { SortControl } from '../components';
+import { ColorBlindMode, RootStackParamList, ThemePreference, UnitPreference } from '../types';
+import { LIST_SORT_OPTIONS } from '../utils/sort';
+import { ThemeColors } from '../utils/colors';
+import { useTheme, useThemedStyles } from '../theme';
+import { t } from '../i18n';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
+
+type CacheStatus = 'idle' | 'clearing' | 'cleared';
+
+const UNIT_OPTIONS: { value: UnitPreference; label: string }[] = [
+  { value: 'locale', label: t('units.locale') },
+  { value: 'metric', label: t('units.metric') },
+  { value: 'imperial', label: t('units.imperial') },
+];
+
+const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: t('theme.system') },
+  { value: 'light', label: t('theme.light') },
+  { value: 'dark', label: t('theme.dark') },
+];
+
+const COLOR_BLIND_OPTIONS: { value: ColorBlindMode; label: string }[] = [
+  { value: 'off', label: t('colorBlind.off') },
+  { value: 'protanopia', label: t('colorBlind.protanopia') },
+  { value: 'deuteranopia', label: t('colorBlind.deuteranopia') },
+  { value: 'tritanopia', label: t('colorBlind.tritanopia') },
+];
+
+interface OptionChipsProps<T> {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}
+
+/**
+ * OptionChips - Single-choice row of chips
+ */
+const OptionChips = <T extends string | number>({
+  value,
+  options,
+  onChange,
+}: OptionChipsProps<T>): React.JSX.Element => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const isSelected = option.value === value;
+        return (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => onChange(option.value)}
+            activeOpacity={0.8}
+            accessibilityRole="radio"
+            accessibilityState={{ checked: isSelected }}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+/**
+ * SettingsScreen - App preferences
+ *
+ * Features:
+ * - Light, dark, or system appearance
+ * - Color-blind friendly stat and matchup colors
+ * - Units for heights and weights
+ * - Pokemon per page and search delay
+ * - Animations on or off
+ * - Default list sort applied at startup
+ * - Clearing the cached API responses
+ */
+const SettingsScreen: React.FC = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const navigation = useNavigation<NavigationProp>();
+  const insets = useSafeAreaInsets();
+
+  const themeMode = usePreferencesStore((state) => state.themeMode);
+  const colorBlindMode = usePreferencesStore((state) => state.colorBlindMode);
+  const units = usePreferencesStore((state) => state.units);
+  const pageSize = usePreferencesStore((state) => state.pageSize);
+  const searchDebounceMs = usePreferencesStore((state) => state.searchDebounceMs);
+  const animationsEnabled = usePreferencesStore((state) => state.animationsEnabled);
+  const defaultSortOption = usePreferencesStore((state) => state.defaultSortOption);
+  const setThemeMode = usePreferencesStore((state) => state.setThemeMode);
+  const setColorBlindMode = usePreferencesStore((state) => state.setColorBlindMode);
+  const setUnits = usePreferencesStore((state) => state.setUnits);
+  const setPageSize = usePreferencesStore((state) => state.setPageSize);
+  const setSearchDebounceMs = usePreferencesStore((state) => state.setSearchDebounceMs);
+  const setAnimationsEnabled = usePreferencesStore((state) => state.setAnimationsEnabled);
+  const setDefaultSortOption = usePreferencesStore((state) => state.setDefaultSortOption);
+
+  const clearCachedData = usePokemonStore((state) => state.clearCachedData);
+
+  const [cacheStatus, setCacheStatus] = useState<CacheStatus>('idle');
+  const [cacheError, setCacheError] = useState<string | null>(null);
+
+  const handleClearCache = useCallback(async () => {
+    setCacheStatus('clearing');
+    setCacheError(null);
+
+    try {
+      await clearResponseCache();
+      // Screens still mounted refetch what they show once the store forgets it
+      clearCachedData();
+      setCacheStatus('cleared');
+    } catch (err) {
+      setCacheError(getErrorMessage(err));
+      setCacheStatus('idle');
+    }
+  }, [clearCachedData]);
+
+  const defaultSortLabel =
+    LIST_SORT_OPTIONS.find((option) => option.value === defaultSortOption)?.label ?? '';
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={colors.background}
+      />
+
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.8}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.back')}
+        >
+          <Text style={styles.backText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('screen.settings')}</Text>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 24 }]}
+        showsVerticalScrollIndicator={!!false}
+      >
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.appearance')}</Text>
+          <OptionChips value={themeMode} options={THEME_OPTIONS} onChange={setThemeMode} />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.colorBlind')}</Text>
+          <Text style={styles.hint}>{t('settings.colorBlindHint')}</Text>
+          <OptionChips
+            value={colorBlindMode}
+            options={COLOR_BLIND_OPTIONS}
+            onChange={setColorBlindMode}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.units')}</Text>
+          <OptionChips value={units} options={UNIT_OPTIONS} onChange={setUnits} />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.pageSize')}</Text>
+          <Text style={styles.hint}>{t('settings.pageSizeHint')}</Text>
+          <OptionChips
+            value={pageSize}
+            options={PAGE_SIZE_OPTIONS.map((size) => ({ value: size, label: String(size) }))}
+            onChange={setPageSize}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.searchDelay')}</Text>
+          <Text style={styles.hint}>{t('settings.searchDelayHint')}</Text>
+          <OptionChips
+            value={searchDebounceMs}
+            options={SEARCH_DEBOUNCE_OPTIONS.map((delay) => ({
+              value: delay,
+              label: t('settings.milliseconds', { value: delay }),
+            }))}
+            onChange={setSearchDebounceMs}
+          />
+        </View>
+
+        <View style={[styles.section, styles.row]}>
+          <View style={styles.rowText}>
+            <Text style={styles.sectionTitle}>{t('settings.animations')}</Text>
+            <Text style={styles.hint}>{t('settings.animationsHint')}</Text>
+          </View>
+          <Switch
+            value={animationsEnabled}
+            onValueChange={setAnimationsEnabled}
+            trackColor={{ false: colors.border, true: colors.primary }}
+          />
+        </View>
+
+        <View style={[styles.section, styles.row]}>
+          <View style={styles.rowText}>
+            <Text style={styles.sectionTitle}>{t('settings.defaultSort')}</Text>
+            <Text style={styles.hint}>{t('settings.defaultSortHint')}</Text>
+            <Text style={styles.value}>{defaultSortLabel}</Text>
+          </View>
+          <SortControl
+            value={defaultSortOption}
+            options={LIST_SORT_OPTIONS}
+            onChange={setDefaultSortOption}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('settings.clearCache')}</Text>
+          <Text style={styles.hint}>{t('settings.clearCacheHint')}</Text>
+          <TouchableOpacity
+            style={styles.clearButton}
+            onPress={handleClearCache}
+            disabled={cacheStatus === 'clearing'}
+            activeOpacity={0.8}
+            accessibilityRole="button"
+            accessibilityState={{
+              disabled: cacheStatus === 'clearing',
+              busy: cacheStatus === 'clearing',
+            }}
+          >
+            <Text style={styles.clearButtonText}>
+              {cacheStatus === 'clearing'
+                ? t('settings.clearing')
+                : cacheStatus === 'cleared'
+                  ? t('settings.cleared')
+                  : t('settings.clearCache')}
+            </Text>
+          </TouchableOpacity>
+          {cacheError && <Text style={styles.error}>{cacheError}</Text>}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingTop: 16,
+      paddingBottom: 12,
+    },
+    backButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.surface,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginRight: 12,
+    },
+    backText: {
+      fontSize: 28,
+      lineHeight: 30,
+      color: colors.textPrimary,
+      fontWeight: '600',
+    },
+    title: {
+      fontSize: 34,
+      fontWeight: '800',
+      color: colors.textPrimary,
+      letterSpacing: -0.5,
+    },
+    content: {
+      paddingHorizontal: 16,
+      paddingTop: 8,
+    },
+    section: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 16,
+      marginBottom: 12,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    rowText: {
+      flex: 1,
+      marginRight: 12,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontWeight: '700',
+      color: colors.textPrimary,
+    },
+    hint: {
+      fontSize: 13,
+      lineHeight: 18,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
+    value: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+      marginTop: 8,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 12,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginRight: 8,
+      marginBottom: 8,
+    },
+    chipSelected: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    chipTextSelected: {
+      color: colors.white,
+    },
+    clearButton: {
+      alignSelf: 'flex-start',
+      marginTop: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    clearButtonText: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: colors.primary,
+    },
+    error: {
+      fontSize: 13,
+      color: colors.error,
+      marginTop: 8,
+    },
+  });
+
+export default SettingsScreen;
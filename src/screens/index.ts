@@ -1,3 +1,9 @@
 export { default as PokemonListScreen } from './PokemonListScreen';
 export { default as PokemonDetailScreen } from './PokemonDetailScreen';
+export { default as FavoritesScreen } from './FavoritesScreen';
+export { default as PokemonCompareScreen } from './PokemonCompareScreen';
+export { default as GenerationsScreen } from './GenerationsScreen';
+export { default as AbilityScreen } from './AbilityScreen';
+export { default as SettingsScreen } from './SettingsScreen';
+export { default as NotFoundScreen } from './NotFoundScreen';
 
@@ -0,0 +1,68 @@
+/**
+ * Zustand store for favorite Pokemon.
+ * Persisted to device storage so favorites survive app restarts.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Pokemon } from '../types';
+import { DEFAULT_SORT_OPTION, SortOption } from '../utils/sort';
+
+interface FavoriteEntry {
+  pokemon: Pokemon;
+  addedAt: number;
+}
+
+interface FavoritesStore {
+  favorites: Record<number, FavoriteEntry>;
+  sortOption: SortOption;
+
+  // Actions
+  toggleFavorite: (pokemon: Pokemon) => void;
+  removeFavorite: (id: number) => void;
+  setSortOption: (sortOption: SortOption) => void;
+}
+
+export const useFavoritesStore = create<FavoritesStore>()(
+  persist(
+    (set) => ({
+      favorites: {},
+      sortOption: DEFAULT_SORT_OPTION,
+
+      toggleFavorite: (pokemon: Pokemon) => {
+        set((state) => {
+          const favorites = { ...state.favorites };
+
+          if (favorites[pokemon.id]) {
+            delete favorites[pokemon.id];
+          } else {
+            favorites[pokemon.id] = { pokemon, addedAt: Date.now() };
+          }
+
+          return { favorites };
+        });
+      },
+
+      removeFavorite: (id: number) => {
+        set((state) => {
+          const favorites = { ...state.favorites };
+          delete favorites[id];
+          return { favorites };
+        });
+      },
+
+      setSortOption: (sortOption: SortOption) => set({ sortOption }),
+    }),
+    {
+      name: '@pokemon-explorer/favorites',
+      storage: createJSONStorage(() => AsyncStorage),
+      version: 1,
+    }
+  )
+);
+
+export const selectFavorites = (state: FavoritesStore) => state.favorites;
+export const selectFavoritesSortOption = (state: FavoritesStore) => state.sortOption;
+export const selectIsFavorite = (id: number) => (state: FavoritesStore) =>
+  !!state.favorites[id];
@@ -1,2 +1,6 @@
 export { usePokemonStore } from './pokemonStore';
 export * from './pokemonStore';
+export { useFavoritesStore } from './favoritesStore';
+export * from './favoritesStore';
+export { usePreferencesStore } from './preferencesStore';
+export * from './preferencesStore';
@@ -1,26 +1,55 @@
 /**
  * Zustand store for global Pokemon state management.
- * Handles list state, detail state, search filtering, and pagination.
+ * Handles list state, detail entities, search, type filtering, sorting, and pagination.
  */
 
 import { create } from 'zustand';
-import { Pokemon, PokemonDetail, AsyncState, PaginationConfig } from '../types';
+import {
+  Pokemon,
+  PokemonDetail,
+  AsyncState,
+  PaginationConfig,
+  TypeFilterMode,
+  PokemonStatSummary,
+  LocalizedNames,
+} from '../types';
+import { searchPokemon } from '../utils/search';
+import { applyTypeIndex, matchesTypeFilter } from '../utils/typeFilter';
+import { sortPokemon, ListSortOption, DEFAULT_SORT_OPTION } from '../utils/sort';
+import { parseQuery, matchesQuery, ParsedQuery } from '../utils/query';
+import { formatName } from '../utils/formatters';
+import { DEFAULT_PREFERENCES } from './preferencesStore';
 
 interface PokemonStore {
   // List Screen State
   pokemonList: Pokemon[];
   filteredList: Pokemon[];
   searchQuery: string;
+  parsedQuery: ParsedQuery;
+  searchIndex: Pokemon[];
+  searchFallback: Pokemon | null;
+  typeIndex: Record<number, string[]>;
+  isTypeIndexLoading: boolean;
+  typeIndexError: string | null;
+  selectedTypes: string[];
+  typeFilterMode: TypeFilterMode;
+  sortOption: ListSortOption;
+  statSummaries: Record<number, PokemonStatSummary>;
+  isStatSummariesLoading: boolean;
+  statSummariesError: string | null;
+  localizedNames: LocalizedNames;
   isLoading: boolean;
   isRefreshing: boolean;
   error: string | null;
   hasMore: boolean;
   pagination: PaginationConfig;
 
-  // Detail Screen State
-  selectedPokemon: PokemonDetail | null;
-  detailLoading: boolean;
-  detailError: string | null;
+  // Detail State - normalized by Pokemon ID
+  pokemonById: Record<number, PokemonDetail>;
+  pokemonIdByName: Record<string, number>;
+  detailStatus: Record<string, DetailStatus>;
+  detailAccessOrder: number[];
+  detailRetainCount: Record<number, number>;
 
   // Actions - List
   setPokemonList: (pokemon: Pokemon[], append?: boolean) => void;
@@ -30,46 +59,226 @@ interface PokemonStore {
   setHasMore: (hasMore: boolean) => void;
   setPagination: (pagination: PaginationConfig) => void;
   setSearchQuery: (query: string) => void;
+  setSearchIndex: (index: Pokemon[]) => void;
+  setSearchFallback: (pokemon: Pokemon | null) => void;
+  setTypeIndex: (typeIndex: Record<number, string[]>) => void;
+  setTypeIndexLoading: (loading: boolean) => void;
+  setTypeIndexError: (error: string | null) => void;
+  toggleTypeFilter: (type: string) => void;
+  setSelectedTypes: (types: string[]) => void;
+  setTypeFilterMode: (mode: TypeFilterMode) => void;
+  clearTypeFilters: () => void;
+  setSortOption: (sortOption: ListSortOption) => void;
+  setStatSummaries: (summaries: Record<number, PokemonStatSummary>) => void;
+  setStatSummariesLoading: (loading: boolean) => void;
+  setStatSummariesError: (error: string | null) => void;
+  setLocalizedNames: (names: LocalizedNames) => void;
   resetList: () => void;
+  resetListData: () => void;
+  clearCachedData: () => void;
 
   // Actions - Detail
-  setSelectedPokemon: (pokemon: PokemonDetail | null) => void;
-  setDetailLoading: (loading: boolean) => void;
-  setDetailError: (error: string | null) => void;
-  resetDetail: () => void;
+  setPokemonDetail: (idOrName: DetailKey, pokemon: PokemonDetail) => void;
+  setDetailLoading: (idOrName: DetailKey, loading: boolean) => void;
+  setDetailError: (idOrName: DetailKey, error: string | null, isNotFound?: boolean) => void;
+  retainPokemonDetail: (id: number) => void;
+  releasePokemonDetail: (id: number) => void;
 }
 
+/**
+ * Detail entities are requested by ID or by name (deep links, search)
+ */
+type DetailKey = number | string;
+
+interface DetailStatus {
+  isLoading: boolean;
+  error: string | null;
+  isNotFound: boolean;
+}
+
+/**
+ * Placeholder until the first page loads with the page size from preferences
+ */
 const INITIAL_PAGINATION: PaginationConfig = {
-  limit: 20,
+  limit: DEFAULT_PREFERENCES.pageSize,
   offset: 0,
 };
 
+/**
+ * Upper bound on cached detail entities; least recently used ones are
+ * evicted first, except those a mounted screen is still showing
+ */
+const MAX_DETAIL_ENTITIES = 50;
+
+/**
+ * No localized names loaded; display names fall back to the formatted API names
+ */
+const EMPTY_LOCALIZED_NAMES: LocalizedNames = {
+  language: 'en',
+  pokemon: {},
+  abilities: {},
+  moves: {},
+};
+
+const IDLE_DETAIL_STATUS: DetailStatus = {
+  isLoading: !!false,
+  error: null,
+  isNotFound: !!false,
+};
+
+const toDetailKey = (idOrName: DetailKey): string => String(idOrName).trim().toLowerCase();
+
+type DetailState = Pick<
+  PokemonStore,
+  | 'pokemonById'
+  | 'pokemonIdByName'
+  | 'detailStatus'
+  | 'detailAccessOrder'
+  | 'detailRetainCount'
+>;
+
+/**
+ * Resolves an ID or name to a Pokemon ID using the name aliases seen so far
+ */
+const resolveDetailId = (state: DetailState, idOrName: DetailKey): number | null => {
+  const key = toDetailKey(idOrName);
+  if (/^\d+$/.test(key)) return Number(key);
+  return state.pokemonIdByName[key] ?? null;
+};
+
+/**
+ * Moves an ID to the most recently used end of the access order
+ */
+const touchDetail = (order: number[], id: number): number[] => {
+  return [...order.filter((entry) => entry !== id), id];
+};
+
+/**
+ * Drops least recently used, unretained entities beyond the size limit
+ */
+const evictDetails = (state: DetailState): DetailState => {
+  const overflow = state.detailAccessOrder.length - MAX_DETAIL_ENTITIES;
+  if (overflow <= 0) return state;
+
+  const evicted = state.detailAccessOrder
+    .filter((id) => !state.detailRetainCount[id])
+    .slice(0, overflow);
+  if (evicted.length === 0) return state;
+
+  const pokemonById = { ...state.pokemonById };
+  const detailStatus = { ...state.detailStatus };
+  evicted.forEach((id) => {
+    delete pokemonById[id];
+    delete detailStatus[toDetailKey(id)];
+  });
+
+  const pokemonIdByName: Record<string, number> = {};
+  Object.entries(state.pokemonIdByName).forEach(([name, id]) => {
+    if (pokemonById[id]) {
+      pokemonIdByName[name] = id;
+    } else {
+      delete detailStatus[name];
+    }
+  });
+
+  return {
+    pokemonById,
+    pokemonIdByName,
+    detailStatus,
+    detailAccessOrder: state.detailAccessOrder.filter((id) => !evicted.includes(id)),
+    detailRetainCount: state.detailRetainCount,
+  };
+};
+
+type FilterState = Pick<
+  PokemonStore,
+  | 'pokemonList'
+  | 'searchQuery'
+  | 'parsedQuery'
+  | 'searchIndex'
+  | 'searchFallback'
+  | 'selectedTypes'
+  | 'typeFilterMode'
+  | 'sortOption'
+  | 'statSummaries'
+  | 'localizedNames'
+>;
+
+const EMPTY_QUERY: ParsedQuery = parseQuery('');
+
+/**
+ * Computes the visible list from the current search, type filters, and sort.
+ * Works on the full-dex index once it is loaded, otherwise only the loaded pages.
+ * Names match in English and in the device language.
+ * Name search results keep their relevance order unless a sort is chosen;
+ * structured query filters (stats, abilities, ...) use the stat summaries.
+ */
+const computeFilteredList = (state: FilterState): Pokemon[] => {
+  const query = state.searchQuery.trim();
+  const hasTypeFilter = state.selectedTypes.length > 0;
+  const isSorted = state.sortOption !== DEFAULT_SORT_OPTION;
+  if (!query && !hasTypeFilter && !isSorted) return state.pokemonList;
+
+  const { parsedQuery } = state;
+  const source = state.searchIndex.length > 0 ? state.searchIndex : state.pokemonList;
+  let results = parsedQuery.text ? searchPokemon(source, parsedQuery.text, state.localizedNames.pokemon) : source;
+
+  if (results.length === 0 && state.searchFallback) {
+    results = [state.searchFallback];
+  }
+
+  if (parsedQuery.isStructured) {
+    results = results.filter((p) => matchesQuery(p, parsedQuery, state.statSummaries));
+  }
+
+  if (hasTypeFilter) {
+    results = results.filter((p) =>
+      matchesTypeFilter(p, state.selectedTypes, state.typeFilterMode)
+    );
+  }
+
+  return isSorted
+    ? sortPokemon(results, state.sortOption, state.statSummaries, state.localizedNames.pokemon)
+    : results;
+};
+
 export const usePokemonStore = create<PokemonStore>((set, get) => ({
   pokemonList: [],
   filteredList: [],
   searchQuery: '',
+  parsedQuery: EMPTY_QUERY,
+  searchIndex: [],
+  searchFallback: null,
+  typeIndex: {},
+  isTypeIndexLoading: !!false,
+  typeIndexError: null,
+  selectedTypes: [],
+  typeFilterMode: 'or',
+  sortOption: DEFAULT_SORT_OPTION,
+  statSummaries: {},
+  isStatSummariesLoading: !!false,
+  statSummariesError: null,
+  localizedNames: EMPTY_LOCALIZED_NAMES,
   isLoading: !!false,
   isRefreshing: !!false,
   error: null,
   hasMore: !!true,
   pagination: INITIAL_PAGINATION,
 
-  selectedPokemon: null,
-  detailLoading: !!false,
-  detailError: null,
+  pokemonById: {},
+  pokemonIdByName: {},
+  detailStatus: {},
+  detailAccessOrder: [],
+  detailRetainCount: {},
 
   setPokemonList: (pokemon: Pokemon[], append = !!false) => {
     set((state) => {
-      const newList = append ? [...state.pokemonList, ...pokemon] : pokemon;
-      const query = state.searchQuery.toLowerCase();
-      
-      const filtered = query
-        ? newList.filter((p) => p.name.toLowerCase().includes(query))
-        : newList;
+      const enriched = applyTypeIndex(pokemon, state.typeIndex);
+      const newList = append ? [...state.pokemonList, ...enriched] : enriched;
 
       return {
         pokemonList: newList,
-        filteredList: filtered,
+        filteredList: computeFilteredList({ ...state, pokemonList: newList }),
       };
     });
   },
@@ -86,23 +295,138 @@ export const usePokemonStore = create<PokemonStore>((set, get) => ({
 
   setSearchQuery: (searchQuery: string) => {
     set((state) => {
-      const query = searchQuery.toLowerCase();
-      const filtered = query
-        ? state.pokemonList.filter((p) => p.name.toLowerCase().includes(query))
-        : state.pokemonList;
+      const parsedQuery = parseQuery(searchQuery);
 
       return {
         searchQuery,
-        filteredList: filtered,
+        parsedQuery,
+        searchFallback: null,
+        filteredList: computeFilteredList({
+          ...state,
+          searchQuery,
+          parsedQuery,
+          searchFallback: null,
+        }),
+      };
+    });
+  },
+
+  setSearchIndex: (index: Pokemon[]) => {
+    set((state) => {
+      const searchIndex = applyTypeIndex(index, state.typeIndex);
+
+      return {
+        searchIndex,
+        filteredList: computeFilteredList({ ...state, searchIndex }),
+      };
+    });
+  },
+
+  setSearchFallback: (searchFallback: Pokemon | null) => {
+    set((state) => ({
+      searchFallback,
+      filteredList: computeFilteredList({ ...state, searchFallback }),
+    }));
+  },
+
+  setTypeIndex: (typeIndex: Record<number, string[]>) => {
+    set((state) => {
+      const pokemonList = applyTypeIndex(state.pokemonList, typeIndex);
+      const searchIndex = applyTypeIndex(state.searchIndex, typeIndex);
+
+      return {
+        typeIndex,
+        isTypeIndexLoading: !!false,
+        typeIndexError: null,
+        pokemonList,
+        searchIndex,
+        filteredList: computeFilteredList({ ...state, pokemonList, searchIndex }),
       };
     });
   },
 
+  setTypeIndexLoading: (loading: boolean) =>
+    set((state) => ({
+      isTypeIndexLoading: !!loading,
+      typeIndexError: loading ? null : state.typeIndexError,
+    })),
+
+  setTypeIndexError: (typeIndexError: string | null) =>
+    set({ typeIndexError, isTypeIndexLoading: !!false }),
+
+  toggleTypeFilter: (type: string) => {
+    set((state) => {
+      const selectedTypes = state.selectedTypes.includes(type)
+        ? state.selectedTypes.filter((t) => t !== type)
+        : [...state.selectedTypes, type];
+
+      return {
+        selectedTypes,
+        filteredList: computeFilteredList({ ...state, selectedTypes }),
+      };
+    });
+  },
+
+  setSelectedTypes: (selectedTypes: string[]) => {
+    set((state) => ({
+      selectedTypes,
+      filteredList: computeFilteredList({ ...state, selectedTypes }),
+    }));
+  },
+
+  setTypeFilterMode: (typeFilterMode: TypeFilterMode) => {
+    set((state) => ({
+      typeFilterMode,
+      filteredList: computeFilteredList({ ...state, typeFilterMode }),
+    }));
+  },
+
+  clearTypeFilters: () => {
+    set((state) => ({
+      selectedTypes: [],
+      filteredList: computeFilteredList({ ...state, selectedTypes: [] }),
+    }));
+  },
+
+  setSortOption: (sortOption: ListSortOption) => {
+    set((state) => ({
+      sortOption,
+      filteredList: computeFilteredList({ ...state, sortOption }),
+    }));
+  },
+
+  setStatSummaries: (statSummaries: Record<number, PokemonStatSummary>) => {
+    set((state) => ({
+      statSummaries,
+      isStatSummariesLoading: !!false,
+      statSummariesError: null,
+      filteredList: computeFilteredList({ ...state, statSummaries }),
+    }));
+  },
+
+  setStatSummariesLoading: (loading: boolean) =>
+    set((state) => ({
+      isStatSummariesLoading: !!loading,
+      statSummariesError: loading ? null : state.statSummariesError,
+    })),
+
+  setStatSummariesError: (statSummariesError: string | null) =>
+    set({ statSummariesError, isStatSummariesLoading: !!false }),
+
+  setLocalizedNames: (localizedNames: LocalizedNames) => {
+    set((state) => ({
+      localizedNames,
+      filteredList: computeFilteredList({ ...state, localizedNames }),
+    }));
+  },
+
   resetList: () =>
     set({
       pokemonList: [],
       filteredList: [],
       searchQuery: '',
+      parsedQuery: EMPTY_QUERY,
+      searchFallback: null,
       isLoading: !!false,
       isRefreshing: !!false,
       error: null,
@@ -110,19 +434,120 @@ export const usePokemonStore = create<PokemonStore>((set, get) => ({
       pagination: INITIAL_PAGINATION,
     }),
 
-  setSelectedPokemon: (selectedPokemon: PokemonDetail | null) =>
-    set({ selectedPokemon }),
+  // Like resetList, but keeps the search query for refreshes
+  resetListData: () =>
+    set((state) => ({
+      pokemonList: [],
+      filteredList: computeFilteredList({ ...state, pokemonList: [] }),
+      isLoading: !!false,
+      isRefreshing: !!false,
+      error: null,
+      hasMore: !!true,
+      pagination: INITIAL_PAGINATION,
+    })),
 
-  setDetailLoading: (detailLoading: boolean) => set({ detailLoading: !!detailLoading }),
+  clearCachedData: () => {
+    set((state) => {
+      const cleared = {
+        searchIndex: [],
+        searchFallback: null,
+        typeIndex: {},
+        isTypeIndexLoading: !!false,
+        typeIndexError: null,
+        statSummaries: {},
+        isStatSummariesLoading: !!false,
+        statSummariesError: null,
+        localizedNames: EMPTY_LOCALIZED_NAMES,
+        pokemonById: {},
+        pokemonIdByName: {},
+        detailStatus: {},
+        detailAccessOrder: [],
+      };
 
-  setDetailError: (detailError: string | null) => set({ detailError }),
+      return {
+        ...cleared,
+        filteredList: computeFilteredList({ ...state, ...cleared }),
+      };
+    });
+  },
 
-  resetDetail: () =>
-    set({
-      selectedPokemon: null,
-      detailLoading: !!false,
-      detailError: null,
-    }),
+  setPokemonDetail: (idOrName: DetailKey, pokemon: PokemonDetail) => {
+    set((state) => {
+      const detailStatus = { ...state.detailStatus };
+      delete detailStatus[toDetailKey(idOrName)];
+      delete detailStatus[toDetailKey(pokemon.id)];
+
+      return evictDetails({
+        pokemonById: { ...state.pokemonById, [pokemon.id]: pokemon },
+        pokemonIdByName: {
+          ...state.pokemonIdByName,
+          [toDetailKey(idOrName)]: pokemon.id,
+          [toDetailKey(pokemon.name)]: pokemon.id,
+        },
+        detailStatus,
+        detailAccessOrder: touchDetail(state.detailAccessOrder, pokemon.id),
+        detailRetainCount: state.detailRetainCount,
+      });
+    });
+  },
+
+  setDetailLoading: (idOrName: DetailKey, loading: boolean) => {
+    set((state) => {
+      const key = toDetailKey(idOrName);
+      const current = state.detailStatus[key] ?? IDLE_DETAIL_STATUS;
+
+      return {
+        detailStatus: {
+          ...state.detailStatus,
+          [key]: loading
+            ? { isLoading: !!true, error: null, isNotFound: !!false }
+            : { ...current, isLoading: !!false },
+        },
+      };
+    });
+  },
+
+  setDetailError: (idOrName: DetailKey, error: string | null, isNotFound = !!false) => {
+    set((state) => ({
+      detailStatus: {
+        ...state.detailStatus,
+        [toDetailKey(idOrName)]: { isLoading: !!false, error, isNotFound: !!isNotFound },
+      },
+    }));
+  },
+
+  retainPokemonDetail: (id: number) => {
+    set((state) => ({
+      detailRetainCount: {
+        ...state.detailRetainCount,
+        [id]: (state.detailRetainCount[id] ?? 0) + 1,
+      },
+      detailAccessOrder: state.pokemonById[id]
+        ? touchDetail(state.detailAccessOrder, id)
+        : state.detailAccessOrder,
+    }));
+  },
+
+  releasePokemonDetail: (id: number) => {
+    set((state) => {
+      const detailRetainCount = { ...state.detailRetainCount };
+      const count = (detailRetainCount[id] ?? 0) - 1;
+
+      if (count > 0) {
+        detailRetainCount[id] = count;
+      } else {
+        delete detailRetainCount[id];
+      }
+
+      return evictDetails({
+        pokemonById: state.pokemonById,
+        pokemonIdByName: state.pokemonIdByName,
+        detailStatus: state.detailStatus,
+        detailAccessOrder: state.detailAccessOrder,
+        detailRetainCount,
+      });
+    });
+  },
 }));
 
 export const selectPokemonList = (state: PokemonStore) => state.filteredList;
@@ -131,7 +556,44 @@ export const selectIsRefreshing = (state: PokemonStore) => state.isRefreshing;
 export const selectError = (state: PokemonStore) => state.error;
 export const selectHasMore = (state: PokemonStore) => state.hasMore;
 export const selectSearchQuery = (state: PokemonStore) => state.searchQuery;
-export const selectSelectedPokemon = (state: PokemonStore) => state.selectedPokemon;
-export const selectDetailLoading = (state: PokemonStore) => state.detailLoading;
-export const selectDetailError = (state: PokemonStore) => state.detailError;
+export const selectSearchIndex = (state: PokemonStore) => state.searchIndex;
+export const selectSelectedTypes = (state: PokemonStore) => state.selectedTypes;
+export const selectTypeFilterMode = (state: PokemonStore) => state.typeFilterMode;
+export const selectIsFiltering = (state: PokemonStore) =>
+  state.searchQuery.trim().length > 0 || state.selectedTypes.length > 0;
+export const selectParsedQuery = (state: PokemonStore) => state.parsedQuery;
+export const selectSortOption = (state: PokemonStore) => state.sortOption;
+/**
+ * Whether the list shows the full-dex index instead of loaded pages
+ * (pagination doesn't apply then)
+ */
+export const selectUsesFullIndex = (state: PokemonStore) =>
+  selectIsFiltering(state) || state.sortOption !== DEFAULT_SORT_OPTION;
+export const selectPokemonDetail = (idOrName: DetailKey) => (state: PokemonStore) => {
+  const id = resolveDetailId(state, idOrName);
+  return id !== null ? state.pokemonById[id] ?? null : null;
+};
+export const selectDetailStatus = (idOrName: DetailKey) => (state: PokemonStore) =>
+  state.detailStatus[toDetailKey(idOrName)] ?? IDLE_DETAIL_STATUS;
 
+export const selectHasTypeIndex = (state: PokemonStore) =>
+  Object.keys(state.typeIndex).length > 0;
+export const selectIsTypeIndexLoading = (state: PokemonStore) => state.isTypeIndexLoading;
+export const selectTypeIndexError = (state: PokemonStore) => state.typeIndexError;
+
+export const selectHasStatSummaries = (state: PokemonStore) =>
+  Object.keys(state.statSummaries).length > 0;
+export const selectIsStatSummariesLoading = (state: PokemonStore) =>
+  state.isStatSummariesLoading;
+export const selectStatSummariesError = (state: PokemonStore) => state.statSummariesError;
+
+export const selectLocalizedNames = (state: PokemonStore) => state.localizedNames;
+/**
+ * Display names in the device language, falling back to the formatted API name
+ */
+export const selectPokemonName = (id: number, name: string) => (state: PokemonStore) =>
+  state.localizedNames.pokemon[id] ?? formatName(name);
+export const selectAbilityName = (name: string) => (state: PokemonStore) =>
+  state.localizedNames.abilities[name] ?? formatName(name);
+export const selectMoveName = (name: string) => (state: PokemonStore) =>
+  state.localizedNames.moves[name] ?? formatName(name);
@@ -0,0 +1,112 @@
+/**
+ * Zustand store for user preferences.
+ * Persisted to device storage so choices survive app restarts; the app
+ * waits for hydration before its first render so screens never start
+ * with the defaults and then jump.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ColorBlindMode, ThemePreference, UnitPreference } from '../types';
+import { resolveUnitSystem } from '../utils/units';
+import { DEFAULT_SORT_OPTION, ListSortOption } from '../utils/sort';
+
+/**
+ * Choices offered on the settings screen
+ */
+export const PAGE_SIZE_OPTIONS = [20, 40, 60];
+export const SEARCH_DEBOUNCE_OPTIONS = [150, 300, 500];
+
+interface Preferences {
+  units: UnitPreference;
+  pageSize: number;
+  searchDebounceMs: number;
+  animationsEnabled: boolean;
+  defaultSortOption: ListSortOption;
+  themeMode: ThemePreference;
+  colorBlindMode: ColorBlindMode;
+}
+
+interface PreferencesStore extends Preferences {
+  hasHydrated: boolean;
+
+  // Actions
+  setUnits: (units: UnitPreference) => void;
+  setPageSize: (pageSize: number) => void;
+  setSearchDebounceMs: (searchDebounceMs: number) => void;
+  setAnimationsEnabled: (animationsEnabled: boolean) => void;
+  setDefaultSortOption: (defaultSortOption: ListSortOption) => void;
+  setThemeMode: (themeMode: ThemePreference) => void;
+  setColorBlindMode: (colorBlindMode: ColorBlindMode) => void;
+  setHasHydrated: (hasHydrated: boolean) => void;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  units: 'locale',
+  pageSize: PAGE_SIZE_OPTIONS[0],
+  searchDebounceMs: 300,
+  animationsEnabled: !!true,
+  defaultSortOption: DEFAULT_SORT_OPTION,
+  themeMode: 'system',
+  colorBlindMode: 'off',
+};
+
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_PREFERENCES,
+      hasHydrated: !!false,
+
+      setUnits: (units: UnitPreference) => set({ units }),
+
+      setPageSize: (pageSize: number) => set({ pageSize }),
+
+      setSearchDebounceMs: (searchDebounceMs: number) => set({ searchDebounceMs }),
+
+      setAnimationsEnabled: (animationsEnabled: boolean) =>
+        set({ animationsEnabled: !!animationsEnabled }),
+
+      setDefaultSortOption: (defaultSortOption: ListSortOption) => set({ defaultSortOption }),
+
+      setThemeMode: (themeMode: ThemePreference) => set({ themeMode }),
+
+      setColorBlindMode: (colorBlindMode: ColorBlindMode) => set({ colorBlindMode }),
+
+      setHasHydrated: (hasHydrated: boolean) => set({ hasHydrated: !!hasHydrated }),
+    }),
+    {
+      name: '@pokemon-explorer/preferences',
+      storage: createJSONStorage(() => AsyncStorage),
+      version: 4,
+      partialize: (state): Preferences => ({
+        units: state.units,
+        pageSize: state.pageSize,
+        searchDebounceMs: state.searchDebounceMs,
+        animationsEnabled: state.animationsEnabled,
+        defaultSortOption: state.defaultSortOption,
+        themeMode: state.themeMode,
+        colorBlindMode: state.colorBlindMode,
+      }),
+      // Older versions lack newer fields (e.g. themeMode); those start from their defaults
+      migrate: (persisted) => ({ ...DEFAULT_PREFERENCES, ...(persisted as Partial<Preferences>) }),
+      onRehydrateStorage: () => (state) => {
+        // Storage errors leave state undefined; start with the defaults anyway
+        (state ?? usePreferencesStore.getState()).setHasHydrated(!!true);
+      },
+    }
+  )
+);
+
+export const selectUnits = (state: PreferencesStore) => state.units;
+/**
+ * Metric or imperial, with the device default resolved
+ */
+export const selectUnitSystem = (state: PreferencesStore) => resolveUnitSystem(state.units);
+export const selectPageSize = (state: PreferencesStore) => state.pageSize;
+export const selectSearchDebounceMs = (state: PreferencesStore) => state.searchDebounceMs;
+export const selectAnimationsEnabled = (state: PreferencesStore) => state.animationsEnabled;
+export const selectDefaultSortOption = (state: PreferencesStore) => state.defaultSortOption;
+export const selectThemeMode = (state: PreferencesStore) => state.themeMode;
+export const selectColorBlindMode = (state: PreferencesStore) => state.colorBlindMode;
+export const selectHasHydrated = (state: PreferencesStore) => state.hasHydrated;
@@ -0,0 +1,95 @@
+/**
+ * Theme context: resolves the active palette from the device appearance,
+ * the user's theme preference, and the color-blind mode.
+ */
+
+import React, { createContext, useMemo } from 'react';
+import { useColorScheme } from 'react-native';
+
+import {
+  usePreferencesStore,
+  selectThemeMode,
+  selectColorBlindMode,
+} from '../store/preferencesStore';
+import { ColorBlindMode } from '../types';
+import {
+  ThemeColors,
+  TypeColorMap,
+  StatTierColors,
+  darkColors,
+  lightColors,
+  darkTypeColors,
+  lightTypeColors,
+  applyColorBlindMode,
+  getStatColors,
+} from '../utils/colors';
+
+export type ThemeMode = 'light' | 'dark';
+
+export interface Theme {
+  mode: ThemeMode;
+  isDark: boolean;
+  colors: ThemeColors;
+  typeColors: TypeColorMap;
+  statColors: StatTierColors;
+  colorBlindMode: ColorBlindMode;
+}
+
+export const darkTheme: Theme = {
+  mode: 'dark',
+  isDark: !!true,
+  colors: darkColors,
+  typeColors: darkTypeColors,
+  statColors: getStatColors(darkColors, 'off'),
+  colorBlindMode: 'off',
+};
+
+export const lightTheme: Theme = {
+  mode: 'light',
+  isDark: !!false,
+  colors: lightColors,
+  typeColors: lightTypeColors,
+  statColors: getStatColors(lightColors, 'off'),
+  colorBlindMode: 'off',
+};
+
+export const ThemeContext = createContext<Theme>(darkTheme);
+
+interface ThemeProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * ThemeProvider - Supplies the active theme to useTheme
+ *
+ * Follows the system appearance unless the user picked light or dark in
+ * settings. Devices that report no preference get the dark theme, which
+ * was the app's only look before theming. A color-blind mode swaps in
+ * the matching stat and status colors on top of either palette.
+ *
+ * @param children - App tree to theme
+ */
+const ThemeProvider: React.FC<ThemeProviderProps> = ({ children }) => {
+  const systemScheme = useColorScheme();
+  const themeMode = usePreferencesStore(selectThemeMode);
+  const colorBlindMode = usePreferencesStore(selectColorBlindMode);
+
+  const mode: ThemeMode =
+    themeMode === 'system' ? (systemScheme === 'light' ? 'light' : 'dark') : themeMode;
+
+  const theme = useMemo(() => {
+    const base = mode === 'light' ? lightTheme : darkTheme;
+    if (colorBlindMode === 'off') return base;
+
+    return {
+      ...base,
+      colors: applyColorBlindMode(base.colors, colorBlindMode),
+      statColors: getStatColors(base.colors, colorBlindMode),
+      colorBlindMode,
+    };
+  }, [mode, colorBlindMode]);
+
+  return <ThemeContext.Provider value={theme}>{children}</ThemeContext.Provider>;
+};
+
+export default ThemeProvider;
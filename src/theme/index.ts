@@ -0,0 +1,3 @@
+export { default as ThemeProvider, ThemeContext, darkTheme, lightTheme } from './ThemeProvider';
+export type { Theme, ThemeMode } from './ThemeProvider';
+export { useTheme, useThemedStyles } from './useTheme';
@@ -0,0 +1,48 @@
+/**
+ * Hooks for reading the active theme and building themed styles.
+ */
+
+import { useContext } from 'react';
+import { ThemeContext, Theme } from './ThemeProvider';
+import { ThemeColors } from '../utils/colors';
+
+type StyleFactory<T> = (colors: ThemeColors) => T;
+
+/**
+ * Styles built per factory and palette, so every instance of a component
+ * shares one StyleSheet per theme instead of rebuilding it on render
+ */
+const styleCache = new WeakMap<StyleFactory<unknown>, WeakMap<ThemeColors, unknown>>();
+
+/**
+ * Custom hook for the active theme
+ *
+ * @returns Object containing the mode, palette, and type colors
+ */
+export const useTheme = (): Theme => useContext(ThemeContext);
+
+/**
+ * Custom hook for styles that depend on the palette
+ *
+ * @param createStyles - Module-level factory that builds a StyleSheet from colors
+ * @returns Styles for the active theme; switching themes restyles live
+ */
+export const useThemedStyles = <T>(createStyles: StyleFactory<T>): T => {
+  const { colors } = useTheme();
+
+  let byColors = styleCache.get(createStyles);
+  if (!byColors) {
+    byColors = new WeakMap();
+    styleCache.set(createStyles, byColors);
+  }
+
+  let styles = byColors.get(colors) as T | undefined;
+  if (!styles) {
+    styles = createStyles(colors);
+    byColors.set(colors, styles);
+  }
+
+  return styles;
+};
+
+export default useTheme;
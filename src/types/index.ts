@@ -15,6 +15,90 @@ export interface PokemonListItem {
   url: string;
 }
 
+/**
+ * Reference to another PokeAPI resource
+ */
+export interface NamedAPIResource {
+  name: string;
+  url: string;
+}
+
+/**
+ * Text in one language (names, effects, flavor text)
+ */
+export interface LocalizedName {
+  name: string;
+  language: NamedAPIResource;
+}
+
+export interface EffectEntry {
+  effect: string;
+  short_effect: string;
+  language: NamedAPIResource;
+}
+
+export interface FlavorTextEntry {
+  flavor_text: string;
+  language: NamedAPIResource;
+  version_group: NamedAPIResource;
+}
+
+/**
+ * Damage multipliers of a type, from both the attacking ("_to")
+ * and defending ("_from") side
+ */
+export interface TypeDamageRelations {
+  double_damage_from: NamedAPIResource[];
+  double_damage_to: NamedAPIResource[];
+  half_damage_from: NamedAPIResource[];
+  half_damage_to: NamedAPIResource[];
+  no_damage_from: NamedAPIResource[];
+  no_damage_to: NamedAPIResource[];
+}
+
+/**
+ * Type resource from /type/{name}
+ */
+export interface TypeDetail {
+  id: number;
+  name: string;
+  damage_relations: TypeDamageRelations;
+  pokemon: {
+    slot: number;
+    pokemon: NamedAPIResource;
+  }[];
+}
+
+/**
+ * Front and back sprites with shiny and female variants.
+ * Female fields are null when a Pokemon has no visual gender differences.
+ */
+export interface SpriteSet {
+  front_default: string | null;
+  front_shiny: string | null;
+  front_female: string | null;
+  front_shiny_female: string | null;
+  back_default: string | null;
+  back_shiny: string | null;
+  back_female: string | null;
+  back_shiny_female: string | null;
+}
+
+/**
+ * Sprites of a Pokemon, including artwork and per-game sprites.
+ * versions is keyed by generation ("generation-iii"), then by game ("emerald").
+ */
+export interface PokemonSprites extends SpriteSet {
+  other?: {
+    'official-artwork'?: {
+      front_default: string | null;
+      front_shiny?: string | null;
+    };
+    home?: Partial<SpriteSet>;
+  };
+  versions?: Record<string, Record<string, Partial<SpriteSet>>>;
+}
+
 /**
  * Detailed Pokemon data from PokeAPI
  */
@@ -24,15 +108,8 @@ export interface PokemonDetail {
   height: number;
   weight: number;
   base_experience: number;
-  sprites: {
-    front_default: string | null;
-    back_default: string | null;
-    other?: {
-      'official-artwork'?: {
-        front_default: string | null;
-      };
-    };
-  };
+  species: NamedAPIResource;
+  sprites: PokemonSprites;
   types: {
     slot: number;
     type: {
@@ -56,6 +133,178 @@ export interface PokemonDetail {
     is_hidden: boolean;
     slot: number;
   }[];
+  moves: PokemonMove[];
+}
+
+/**
+ * How a Pokemon learns a move in one version group
+ */
+export interface MoveVersionDetail {
+  level_learned_at: number;
+  move_learn_method: NamedAPIResource;
+  version_group: NamedAPIResource;
+}
+
+/**
+ * A move in a Pokemon's learnset, with per-version learn details
+ */
+export interface PokemonMove {
+  move: NamedAPIResource;
+  version_group_details: MoveVersionDetail[];
+}
+
+/**
+ * Move resource (/move/{name})
+ */
+export interface MoveDetail {
+  id: number;
+  name: string;
+  accuracy: number | null;
+  power: number | null;
+  pp: number | null;
+  priority: number;
+  effect_chance: number | null;
+  type: NamedAPIResource;
+  damage_class: NamedAPIResource;
+  effect_entries: EffectEntry[];
+  flavor_text_entries: FlavorTextEntry[];
+}
+
+/**
+ * Ability resource (/ability/{name})
+ */
+export interface AbilityDetail {
+  id: number;
+  name: string;
+  is_main_series: boolean;
+  generation: NamedAPIResource;
+  names: LocalizedName[];
+  effect_entries: EffectEntry[];
+  flavor_text_entries: FlavorTextEntry[];
+  pokemon: {
+    is_hidden: boolean;
+    slot: number;
+    pokemon: NamedAPIResource;
+  }[];
+}
+
+/**
+ * Species data from /pokemon-species/{id}
+ */
+export interface PokemonSpecies {
+  id: number;
+  name: string;
+  is_baby: boolean;
+  is_legendary: boolean;
+  is_mythical: boolean;
+  generation: NamedAPIResource;
+  evolves_from_species: NamedAPIResource | null;
+  evolution_chain: {
+    url: string;
+  } | null;
+  names: LocalizedName[];
+}
+
+/**
+ * Generation resource (/generation/{id})
+ */
+export interface GenerationDetail {
+  id: number;
+  name: string;
+  main_region: NamedAPIResource;
+  pokemon_species: NamedAPIResource[];
+}
+
+/**
+ * One generation's Pokemon, ready for a sectioned list
+ */
+export interface GenerationSection {
+  id: number;
+  name: string;
+  region: string;
+  pokemon: Pokemon[];
+}
+
+/**
+ * Display names in one language, keyed by species ID and by ability and move name
+ */
+export interface LocalizedNames {
+  language: string;
+  pokemon: Record<number, string>;
+  abilities: Record<string, string>;
+  moves: Record<string, string>;
+}
+
+/**
+ * A Pokemon that can have an ability
+ */
+export interface AbilityHolder {
+  pokemon: Pokemon;
+  isHidden: boolean;
+}
+
+/**
+ * Transformed ability for UI consumption, with text in one language
+ */
+export interface Ability {
+  id: number;
+  name: string;
+  displayName: string;
+  shortEffect: string;
+  effect: string;
+  generation: number;
+  holders: AbilityHolder[];
+}
+
+/**
+ * Conditions for a single evolution step
+ */
+export interface EvolutionDetail {
+  trigger: NamedAPIResource;
+  min_level: number | null;
+  min_happiness: number | null;
+  min_affection: number | null;
+  min_beauty: number | null;
+  item: NamedAPIResource | null;
+  held_item: NamedAPIResource | null;
+  known_move: NamedAPIResource | null;
+  known_move_type: NamedAPIResource | null;
+  location: NamedAPIResource | null;
+  trade_species: NamedAPIResource | null;
+  time_of_day: string;
+  gender: number | null;
+  needs_overworld_rain: boolean;
+  turn_upside_down: boolean;
+}
+
+/**
+ * Node in an evolution chain; evolves_to holds branches (e.g. Eevee)
+ */
+export interface ChainLink {
+  is_baby: boolean;
+  species: NamedAPIResource;
+  evolution_details: EvolutionDetail[];
+  evolves_to: ChainLink[];
+}
+
+/**
+ * Evolution chain from /evolution-chain/{id}
+ */
+export interface EvolutionChain {
+  id: number;
+  baby_trigger_item: NamedAPIResource | null;
+  chain: ChainLink;
+}
+
+/**
+ * Transformed evolution tree node for UI consumption
+ */
+export interface EvolutionNode {
+  id: number;
+  name: string;
+  imageUrl: string;
+  triggers: string[];
+  evolvesTo: EvolutionNode[];
 }
 
 /**
@@ -73,11 +322,35 @@ export interface Pokemon {
  * Navigation parameter types for type-safe navigation
  */
 export type RootStackParamList = {
-  PokemonList: undefined;
+  PokemonList:
+    | {
+        q?: string;
+        types?: string;
+        mode?: TypeFilterMode;
+      }
+    | undefined;
   PokemonDetail: {
     pokemonId: number;
     pokemonName: string;
   };
+  Favorites: undefined;
+  PokemonCompare: {
+    pokemonIds: number[];
+  };
+  Generations:
+    | {
+        generation?: number;
+      }
+    | undefined;
+  Ability: {
+    abilityName: string;
+  };
+  Settings: undefined;
+  NotFound:
+    | {
+        resource?: string;
+      }
+    | undefined;
 };
 
 /**
@@ -92,6 +365,31 @@ export interface AsyncState<T> {
   hasMore: boolean;
 }
 
+/**
+ * How multiple selected type filters combine
+ * - and: Pokemon must have every selected type
+ * - or: Pokemon must have at least one selected type
+ */
+export type TypeFilterMode = 'and' | 'or';
+
+/**
+ * Measurement system for heights and weights
+ * - locale: follow the device region
+ */
+export type UnitPreference = 'metric' | 'imperial' | 'locale';
+
+export type UnitSystem = Exclude<UnitPreference, 'locale'>;
+
+/**
+ * App appearance; 'system' follows the device light/dark setting
+ */
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+/**
+ * Color vision deficiency the stat and matchup palettes are tuned for
+ */
+export type ColorBlindMode = 'off' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
 /**
  * Pagination configuration
  */
@@ -100,3 +398,19 @@ export interface PaginationConfig {
   offset: number;
 }
 
+
+/**
+ * Sortable and filterable data for one Pokemon, loaded for the whole dex in
+ * one request. Height is in decimeters and weight in hectograms, as in PokemonDetail
+ */
+export interface PokemonStatSummary {
+  id: number;
+  height: number;
+  weight: number;
+  total: number;
+  stats: Record<string, number>;
+  abilities: string[];
+  generation: number;
+  isLegendary: boolean;
+  isMythical: boolean;
+}
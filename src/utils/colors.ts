@@ -1,8 +1,42 @@
 /**
- * Centralized color palette and Pokemon type colors.
+ * Light and dark color palettes, Pokemon type colors, and stat tier colors.
+ * Components read the active palette through useTheme / useThemedStyles.
  */
 
-export const Colors = {
+import { ColorBlindMode } from '../types';
+
+export interface ThemeColors {
+  primary: string;
+  secondary: string;
+  accent: string;
+
+  background: string;
+  surface: string;
+  surfaceLight: string;
+
+  textPrimary: string;
+  textSecondary: string;
+  textMuted: string;
+
+  success: string;
+  warning: string;
+  error: string;
+
+  white: string;
+  black: string;
+  transparent: string;
+
+  border: string;
+  borderLight: string;
+}
+
+export type TypeColorMap = Record<string, string>;
+
+export type StatTier = 'excellent' | 'good' | 'average' | 'low';
+
+export type StatTierColors = Record<StatTier, string>;
+
+export const darkColors: ThemeColors = {
   primary: '#E63946',
   secondary: '#1D3557',
   accent: '#F4A261',
@@ -27,7 +61,32 @@ export const Colors = {
   borderLight: '#3D5A73',
 };
 
-export const TypeColors: Record<string, string> = {
+export const lightColors: ThemeColors = {
+  primary: '#D62839',
+  secondary: '#1D3557',
+  accent: '#E07A2F',
+
+  background: '#F4F6F9',
+  surface: '#FFFFFF',
+  surfaceLight: '#E8EDF3',
+
+  textPrimary: '#0D1B2A',
+  textSecondary: '#2E5266',
+  textMuted: '#6B7A89',
+
+  success: '#168A80',
+  warning: '#C7621A',
+  error: '#C81D2E',
+
+  white: '#FFFFFF',
+  black: '#000000',
+  transparent: 'transparent',
+
+  border: '#D6DEE6',
+  borderLight: '#C0CCD8',
+};
+
+export const darkTypeColors: TypeColorMap = {
   normal: '#A8A878',
   fire: '#F08030',
   water: '#6890F0',
@@ -48,9 +107,101 @@ export const TypeColors: Record<string, string> = {
   fairy: '#EE99AC',
 };
 
-export const getTypeColor = (type: string): string => {
-  return TypeColors[type.toLowerCase()] || TypeColors.normal;
+/**
+ * Deeper type colors so badges keep contrast with white text and stand
+ * out on the light background (pale types like electric and ice
+ * otherwise wash out)
+ */
+export const lightTypeColors: TypeColorMap = {
+  normal: '#85855A',
+  fire: '#D8621C',
+  water: '#3F6FD8',
+  electric: '#B8930B',
+  grass: '#4C9A2A',
+  ice: '#3E9E9E',
+  fighting: '#A8281F',
+  poison: '#8B358B',
+  ground: '#A9852B',
+  flying: '#7A64D6',
+  psychic: '#D93A6B',
+  bug: '#7F8E14',
+  rock: '#92792A',
+  ghost: '#5C4A80',
+  dragon: '#5B28D6',
+  dark: '#5A463A',
+  steel: '#7C7C9C',
+  fairy: '#C9587A',
+};
+
+/**
+ * Looks up a type's color, falling back to normal for unknown types
+ *
+ * @param type - Type name (e.g. "fire")
+ * @param typeColors - Type palette of the active theme
+ */
+export const getTypeColor = (type: string, typeColors: TypeColorMap): string => {
+  return typeColors[type.toLowerCase()] || typeColors.normal;
 };
 
-export default Colors;
+/**
+ * Stat bar colors for the default palettes
+ *
+ * @param colors - Palette of the active theme
+ */
+const getDefaultStatColors = (colors: ThemeColors): StatTierColors => ({
+  excellent: colors.success,
+  good: '#78C850',
+  average: colors.warning,
+  low: colors.error,
+});
 
+/**
+ * Stat bar colors per color vision deficiency. The default red/orange/
+ * green/teal ramp collapses for red-green deficiencies, so those use a
+ * blue-to-amber ramp and tritanopia a teal-to-red one. Tiers also step in
+ * lightness, which keeps them apart even where hues merge.
+ */
+export const colorBlindStatColors: Record<Exclude<ColorBlindMode, 'off'>, StatTierColors> = {
+  protanopia: {
+    excellent: '#2C8FD8',
+    good: '#8FC6EE',
+    average: '#E8D84A',
+    low: '#B87A00',
+  },
+  deuteranopia: {
+    excellent: '#3C7DD9',
+    good: '#99BFEF',
+    average: '#F2C94C',
+    low: '#C26A00',
+  },
+  tritanopia: {
+    excellent: '#1B9E9E',
+    good: '#86D3D3',
+    average: '#F2A7BC',
+    low: '#D1293D',
+  },
+};
+
+/**
+ * Adjusts a palette for a color vision deficiency. Red-green deficiencies
+ * can't tell success from error, so success turns blue; type colors stay
+ * as they are since badges also carry a glyph and the type name.
+ *
+ * @param colors - Light or dark palette
+ * @param mode - Color-blind mode from preferences
+ */
+export const applyColorBlindMode = (colors: ThemeColors, mode: ColorBlindMode): ThemeColors => {
+  if (mode === 'protanopia' || mode === 'deuteranopia') {
+    return { ...colors, success: colorBlindStatColors[mode].excellent };
+  }
+  return colors;
+};
+
+/**
+ * Stat bar colors for the palette and color-blind mode
+ *
+ * @param colors - Palette of the active theme
+ * @param mode - Color-blind mode from preferences
+ */
+export const getStatColors = (colors: ThemeColors, mode: ColorBlindMode): StatTierColors =>
+  mode === 'off' ? getDefaultStatColors(colors) : colorBlindStatColors[mode];
@@ -0,0 +1,87 @@
+/**
+ * Formatting of evolution conditions into short, readable trigger labels.
+ */
+
+import { EvolutionDetail } from '../types';
+import { formatName } from './formatters';
+import { t, TranslationKey } from '../i18n';
+
+const TIME_OF_DAY_LABELS: Record<string, TranslationKey> = {
+  day: 'evolution.day',
+  night: 'evolution.night',
+  dusk: 'evolution.dusk',
+};
+
+/**
+ * Describes the conditions that apply on top of the trigger itself
+ */
+const describeConditions = (detail: EvolutionDetail): string[] => {
+  const conditions: string[] = [];
+
+  if (detail.min_happiness) conditions.push(t('evolution.highFriendship'));
+  if (detail.min_affection) conditions.push(t('evolution.highAffection'));
+  if (detail.min_beauty) conditions.push(t('evolution.highBeauty'));
+  if (detail.held_item) {
+    conditions.push(t('evolution.holding', { item: formatName(detail.held_item.name) }));
+  }
+  if (detail.known_move) {
+    conditions.push(t('evolution.knowing', { move: formatName(detail.known_move.name) }));
+  }
+  if (detail.known_move_type) {
+    conditions.push(t('evolution.knowingType', { type: formatName(detail.known_move_type.name) }));
+  }
+  if (detail.location) {
+    conditions.push(t('evolution.at', { location: formatName(detail.location.name) }));
+  }
+  if (detail.time_of_day && TIME_OF_DAY_LABELS[detail.time_of_day]) {
+    conditions.push(t(TIME_OF_DAY_LABELS[detail.time_of_day]));
+  }
+  if (detail.gender === 1) conditions.push(t('evolution.female'));
+  if (detail.gender === 2) conditions.push(t('evolution.male'));
+  if (detail.needs_overworld_rain) conditions.push(t('evolution.raining'));
+  if (detail.turn_upside_down) conditions.push(t('evolution.upsideDown'));
+
+  return conditions;
+};
+
+/**
+ * Formats one evolution detail as a label
+ * Examples: "Lv. 16", "Use Fire Stone", "Trade holding Metal Coat",
+ * "Level up with high friendship during the day"
+ */
+export const formatEvolutionTrigger = (detail: EvolutionDetail): string => {
+  const conditions = describeConditions(detail);
+  let base: string;
+
+  switch (detail.trigger.name) {
+    case 'level-up':
+      if (detail.min_level) {
+        base = t('evolution.level', { level: detail.min_level });
+      } else {
+        base = conditions.length > 0 ? t('evolution.levelUpWith') : t('evolution.levelUp');
+      }
+      break;
+    case 'use-item':
+      base = detail.item
+        ? t('evolution.useItem', { item: formatName(detail.item.name) })
+        : t('evolution.useAnyItem');
+      break;
+    case 'trade':
+      base = detail.trade_species
+        ? t('evolution.tradeFor', { species: formatName(detail.trade_species.name) })
+        : t('evolution.trade');
+      break;
+    default:
+      base = formatName(detail.trigger.name);
+  }
+
+  return [base, ...conditions].join(' ');
+};
+
+/**
+ * Formats every distinct way to reach an evolution
+ * (PokeAPI lists one detail per game when conditions differ)
+ */
+export const formatEvolutionTriggers = (details: EvolutionDetail[]): string[] => {
+  return Array.from(new Set(details.map(formatEvolutionTrigger)));
+};
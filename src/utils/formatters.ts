@@ -0,0 +1,101 @@
+/**
+ * Display formatting helpers for PokeAPI data.
+ */
+
+import { t, TranslationKey } from '../i18n';
+
+/**
+ * Converts a PokeAPI slug into a display name
+ * Example: "fire-stone" -> "Fire Stone"
+ */
+export const formatName = (slug: string): string => {
+  return slug
+    .split('-')
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+const TYPE_NAMES: Record<string, TranslationKey> = {
+  normal: 'types.normal',
+  fighting: 'types.fighting',
+  flying: 'types.flying',
+  poison: 'types.poison',
+  ground: 'types.ground',
+  rock: 'types.rock',
+  bug: 'types.bug',
+  ghost: 'types.ghost',
+  steel: 'types.steel',
+  fire: 'types.fire',
+  water: 'types.water',
+  grass: 'types.grass',
+  electric: 'types.electric',
+  psychic: 'types.psychic',
+  ice: 'types.ice',
+  dragon: 'types.dragon',
+  dark: 'types.dark',
+  fairy: 'types.fairy',
+};
+
+/**
+ * Type name in the UI language, falling back to the formatted slug
+ * Example: "electric" -> "Elektro" (German)
+ */
+export const formatTypeName = (type: string): string => {
+  const key = TYPE_NAMES[type.toLowerCase()];
+  return key ? t(key) : formatName(type);
+};
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [10, 'X'],
+  [9, 'IX'],
+  [5, 'V'],
+  [4, 'IV'],
+  [1, 'I'],
+];
+
+/**
+ * Converts a small number to Roman numerals
+ * Example: 8 -> "VIII"
+ */
+export const toRomanNumeral = (value: number): string => {
+  let remaining = value;
+  let result = '';
+
+  ROMAN_NUMERALS.forEach(([amount, numeral]) => {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Formats a generation number for display in the UI language
+ * Example: 3 -> "Generation III"
+ */
+export const formatGeneration = (id: number): string => {
+  return t('generations.name', { numeral: toRomanNumeral(id), number: id });
+};
+
+/**
+ * Builds the screen reader label for a Pokemon card
+ * Example: (25, "Pikachu", ["electric"]) -> "Pikachu, number 25, Electric type"
+ */
+export const formatPokemonAccessibilityLabel = (
+  id: number,
+  name: string,
+  types: string[]
+): string => {
+  const [first, second] = types.map(formatTypeName);
+
+  if (!first) return t('a11y.pokemonCardUntyped', { name, number: id });
+
+  return t('a11y.pokemonCard', {
+    name,
+    number: id,
+    types: second ? t('a11y.typePair', { first, second }) : first,
+  });
+};
@@ -1,2 +1,15 @@
 export * from './colors';
-export { default as Colors } from './colors';
+export * from './search';
+export * from './typeFilter';
+export * from './typeGlyphs';
+export * from './formatters';
+export * from './evolution';
+export * from './typeMatchup';
+export * from './sort';
+export * from './prefetchQueue';
+export * from './query';
+export * from './moves';
+export * from './localization';
+export * from './sprites';
+export * from './units';
+export * from './layout';
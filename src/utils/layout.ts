@@ -0,0 +1,72 @@
+/**
+ * Grid and split-view sizing derived from the window size.
+ * Recomputed whenever the window changes (rotation, split screen, resizing).
+ */
+
+export const CARD_MARGIN = 8;
+export const CARD_SPACING = 16;
+export const CARD_ASPECT_RATIO = 1.35;
+
+/**
+ * Horizontal padding of the list around a grid, both sides together
+ */
+const GRID_PADDING = 32;
+const MIN_CARD_WIDTH = 150;
+const MIN_COLUMNS = 2;
+const MAX_COLUMNS = 6;
+
+/**
+ * Windows at least this wide show the list and detail side by side
+ */
+export const SPLIT_VIEW_MIN_WIDTH = 768;
+const MIN_LIST_PANE_WIDTH = 340;
+const MAX_LIST_PANE_WIDTH = 520;
+const LIST_PANE_RATIO = 0.4;
+
+export interface GridLayout {
+  numColumns: number;
+  cardWidth: number;
+  rowHeight: number;
+}
+
+export interface SplitLayout {
+  isSplitView: boolean;
+  listWidth: number;
+  detailWidth: number;
+}
+
+/**
+ * Fits as many columns as keep cards at a readable width
+ * Example: 390 -> 2 columns, 844 (landscape phone) -> 5 columns
+ *
+ * @param containerWidth - Width the grid is laid out in
+ */
+export const getGridLayout = (containerWidth: number): GridLayout => {
+  const available = Math.max(containerWidth - GRID_PADDING, 0);
+  const fitting = Math.floor(available / (MIN_CARD_WIDTH + CARD_MARGIN));
+  const numColumns = Math.min(Math.max(fitting, MIN_COLUMNS), MAX_COLUMNS);
+  const cardWidth = available / numColumns - CARD_MARGIN;
+
+  return {
+    numColumns,
+    cardWidth,
+    rowHeight: cardWidth * CARD_ASPECT_RATIO + CARD_SPACING,
+  };
+};
+
+/**
+ * Splits a wide window into a list pane and a detail pane
+ *
+ * @param windowWidth - Current window width
+ */
+export const getSplitLayout = (windowWidth: number): SplitLayout => {
+  if (windowWidth < SPLIT_VIEW_MIN_WIDTH) {
+    return { isSplitView: !!false, listWidth: windowWidth, detailWidth: windowWidth };
+  }
+
+  const listWidth = Math.round(
+    Math.min(Math.max(windowWidth * LIST_PANE_RATIO, MIN_LIST_PANE_WIDTH), MAX_LIST_PANE_WIDTH)
+  );
+
+  return { isSplitView: !!true, listWidth, detailWidth: windowWidth - listWidth };
+};
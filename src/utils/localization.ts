@@ -0,0 +1,30 @@
+/**
+ * Helpers for picking text in the user's language from PokeAPI resources.
+ */
+
+import { NamedAPIResource } from '../types';
+import { getApiLanguage } from '../i18n';
+
+const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Finds the entry in a language, falling back to English.
+ * Later entries win, so flavor text resolves to the newest game.
+ *
+ * @param entries - Localized entries (names, effects, flavor text)
+ * @param language - PokeAPI language code (defaults to the device language)
+ */
+export const findLocalizedEntry = <T extends { language: NamedAPIResource }>(
+  entries: T[],
+  language: string = getApiLanguage()
+): T | undefined => {
+  const findLast = (code: string) =>
+    [...entries].reverse().find((entry) => entry.language.name === code);
+
+  return findLast(language) ?? findLast(FALLBACK_LANGUAGE);
+};
+
+/**
+ * Collapses the hard line breaks PokeAPI keeps from the games' text boxes
+ */
+export const cleanFlavorText = (text: string): string => text.replace(/\s+/g, ' ').trim();
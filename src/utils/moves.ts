@@ -0,0 +1,134 @@
+/**
+ * Learnset helpers: version groups, grouping by learn method, and move text.
+ */
+
+import { MoveDetail, NamedAPIResource, PokemonMove } from '../types';
+import { formatName } from './formatters';
+import { cleanFlavorText } from './localization';
+import { getApiLanguage, t, TranslationKey } from '../i18n';
+
+export interface LearnedMove {
+  name: string;
+  /** Level learned at; 0 for non level-up methods */
+  level: number;
+}
+
+export interface MoveGroup {
+  method: string;
+  label: string;
+  moves: LearnedMove[];
+}
+
+/**
+ * Learn methods in display order; anything else is listed after these
+ */
+const LEARN_METHOD_LABELS: Record<string, TranslationKey> = {
+  'level-up': 'moves.method.levelUp',
+  machine: 'moves.method.machine',
+  egg: 'moves.method.egg',
+  tutor: 'moves.method.tutor',
+};
+
+const LEARN_METHOD_ORDER = Object.keys(LEARN_METHOD_LABELS);
+
+/**
+ * Extracts the version group ID from its URL
+ * Example: "https://pokeapi.co/api/v2/version-group/25/" -> 25
+ */
+const extractVersionGroupId = (url: string): number => {
+  const matches = url.match(/\/version-group\/(\d+)\//);
+  return matches ? parseInt(matches[1], 10) : 0;
+};
+
+/**
+ * Lists every version group a learnset covers, newest first
+ *
+ * @param moves - Learnset from the Pokemon detail
+ */
+export const getVersionGroups = (moves: PokemonMove[]): NamedAPIResource[] => {
+  const groups = new Map<string, NamedAPIResource>();
+
+  moves.forEach((move) => {
+    move.version_group_details.forEach(({ version_group }) => {
+      groups.set(version_group.name, version_group);
+    });
+  });
+
+  return Array.from(groups.values()).sort(
+    (a, b) => extractVersionGroupId(b.url) - extractVersionGroupId(a.url)
+  );
+};
+
+/**
+ * Groups the moves learnable in one version group by learn method.
+ * Level-up moves are ordered by level, the others by name.
+ *
+ * @param moves - Learnset from the Pokemon detail
+ * @param versionGroup - Version group name (e.g. "scarlet-violet")
+ */
+export const groupMovesByMethod = (
+  moves: PokemonMove[],
+  versionGroup: string
+): MoveGroup[] => {
+  const byMethod: Record<string, LearnedMove[]> = {};
+
+  moves.forEach(({ move, version_group_details }) => {
+    version_group_details
+      .filter((detail) => detail.version_group.name === versionGroup)
+      .forEach((detail) => {
+        const method = detail.move_learn_method.name;
+        (byMethod[method] = byMethod[method] ?? []).push({
+          name: move.name,
+          level: detail.level_learned_at,
+        });
+      });
+  });
+
+  const methods = Object.keys(byMethod).sort((a, b) => {
+    const rankA = LEARN_METHOD_ORDER.indexOf(a);
+    const rankB = LEARN_METHOD_ORDER.indexOf(b);
+    if (rankA === -1 && rankB === -1) return a.localeCompare(b);
+    if (rankA === -1) return 1;
+    if (rankB === -1) return -1;
+    return rankA - rankB;
+  });
+
+  return methods.map((method) => ({
+    method,
+    label: LEARN_METHOD_LABELS[method] ? t(LEARN_METHOD_LABELS[method]) : formatName(method),
+    moves: byMethod[method].sort((a, b) =>
+      method === 'level-up'
+        ? a.level - b.level || a.name.localeCompare(b.name)
+        : a.name.localeCompare(b.name)
+    ),
+  }));
+};
+
+/**
+ * Returns the effect text for a move, filling in its effect chance.
+ * Effects are mostly written in English only, so the latest flavor text in
+ * the device language is preferred over the English effect.
+ *
+ * @param move - Move detail payload
+ * @param language - PokeAPI language code (defaults to the device language)
+ */
+export const getMoveEffectText = (
+  move: MoveDetail,
+  language: string = getApiLanguage()
+): string => {
+  for (const code of new Set([language, 'en'])) {
+    const effect = move.effect_entries.find((entry) => entry.language.name === code);
+    if (effect) {
+      return cleanFlavorText(
+        effect.short_effect.replace(/\$effect_chance/g, String(move.effect_chance ?? ''))
+      );
+    }
+
+    const flavorText = [...move.flavor_text_entries]
+      .reverse()
+      .find((entry) => entry.language.name === code);
+    if (flavorText) return cleanFlavorText(flavorText.flavor_text);
+  }
+
+  return '';
+};
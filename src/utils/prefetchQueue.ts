@@ -0,0 +1,86 @@
+/**
+ * Concurrency-limited background work queue.
+ * Used for low-priority prefetching: work is keyed, runs a few at a time,
+ * and is cancelled once it's no longer wanted.
+ */
+
+export interface PrefetchQueue<T> {
+  /** Replaces the wanted items: queues new ones and cancels the rest */
+  sync: (items: T[]) => void;
+  /** Cancels everything queued or running */
+  clear: () => void;
+}
+
+interface PrefetchQueueOptions<T> {
+  concurrency: number;
+  getKey: (item: T) => number | string;
+  run: (item: T, signal: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Creates a prefetch queue
+ *
+ * @param concurrency - Maximum tasks running at once
+ * @param getKey - Identifies an item; completed keys are never run again
+ * @param run - Performs the work, honoring the abort signal
+ */
+export const createPrefetchQueue = <T>({
+  concurrency,
+  getKey,
+  run,
+}: PrefetchQueueOptions<T>): PrefetchQueue<T> => {
+  let pending: T[] = [];
+  const active = new Map<number | string, AbortController>();
+  const completed = new Set<number | string>();
+
+  const pump = () => {
+    while (active.size < concurrency && pending.length > 0) {
+      const item = pending.shift() as T;
+      const key = getKey(item);
+      const controller = new AbortController();
+      active.set(key, controller);
+
+      run(item, controller.signal)
+        .then(() => {
+          if (!controller.signal.aborted) {
+            completed.add(key);
+          }
+        })
+        .catch(() => {
+          // Prefetching is best effort; the screen fetches on demand instead
+        })
+        .finally(() => {
+          if (active.get(key) === controller) {
+            active.delete(key);
+          }
+          pump();
+        });
+    }
+  };
+
+  const sync = (items: T[]) => {
+    const wanted = new Set(items.map(getKey));
+
+    active.forEach((controller, key) => {
+      if (!wanted.has(key)) {
+        controller.abort();
+        active.delete(key);
+      }
+    });
+
+    pending = items.filter((item) => {
+      const key = getKey(item);
+      return !completed.has(key) && !active.has(key);
+    });
+
+    pump();
+  };
+
+  const clear = () => {
+    pending = [];
+    active.forEach((controller) => controller.abort());
+    active.clear();
+  };
+
+  return { sync, clear };
+};
@@ -0,0 +1,271 @@
+/**
+ * Structured search query language.
+ * Parses queries like "type:fire hp>=90 ability:levitate gen:3 -legendary"
+ * into typed tokens and evaluates them against list items.
+ * Plain text without operators stays a name search.
+ */
+
+import { Pokemon, PokemonStatSummary } from '../types';
+import { POKEMON_TYPES } from './typeFilter';
+import { t } from '../i18n';
+
+export type ComparisonOperator = '=' | '>' | '>=' | '<' | '<=';
+
+/**
+ * Stat names as they appear in PokeAPI, plus the base stat total
+ */
+export type QueryStat =
+  | 'hp'
+  | 'attack'
+  | 'defense'
+  | 'special-attack'
+  | 'special-defense'
+  | 'speed'
+  | 'total';
+
+export type QueryFlag = 'legendary' | 'mythical';
+
+interface TokenPosition {
+  /** Offset of the token's first character in the query */
+  start: number;
+  /** Offset just past the token's last character */
+  end: number;
+  /** Prefixed with "-" to exclude matches */
+  negated: boolean;
+}
+
+export type QueryToken =
+  | (TokenPosition & { kind: 'text'; value: string })
+  | (TokenPosition & { kind: 'type'; value: string })
+  | (TokenPosition & { kind: 'ability'; value: string })
+  | (TokenPosition & {
+      kind: 'stat';
+      stat: QueryStat;
+      operator: ComparisonOperator;
+      value: number;
+    })
+  | (TokenPosition & { kind: 'generation'; operator: ComparisonOperator; value: number })
+  | (TokenPosition & { kind: 'flag'; value: QueryFlag });
+
+export interface QueryError {
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedQuery {
+  tokens: QueryToken[];
+  errors: QueryError[];
+  /** Plain text terms joined back together, for the name search */
+  text: string;
+  /** True when the query uses any operator, so it can't be a plain name search */
+  isStructured: boolean;
+}
+
+const STAT_ALIASES: Record<string, QueryStat> = {
+  hp: 'hp',
+  atk: 'attack',
+  attack: 'attack',
+  def: 'defense',
+  defense: 'defense',
+  spa: 'special-attack',
+  spatk: 'special-attack',
+  'special-attack': 'special-attack',
+  spd: 'special-defense',
+  spdef: 'special-defense',
+  'special-defense': 'special-defense',
+  spe: 'speed',
+  speed: 'speed',
+  bst: 'total',
+  total: 'total',
+};
+
+const FLAGS: QueryFlag[] = ['legendary', 'mythical'];
+
+const MAX_GENERATION = 9;
+
+const FILTER_PATTERN = /^([a-z-]+)(>=|<=|>|<|=|:)(.*)$/;
+
+/**
+ * Parses a whole-number token value
+ */
+const parseNumber = (value: string): number | null => {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : null;
+};
+
+/**
+ * Parses a single whitespace-separated term
+ */
+const parseTerm = (
+  raw: string,
+  start: number
+): { token?: QueryToken; error?: QueryError } => {
+  const end = start + raw.length;
+  const negated = raw.length > 1 && raw.startsWith('-');
+  const body = (negated ? raw.slice(1) : raw).toLowerCase();
+  const position = { start, end, negated };
+  const fail = (message: string) => ({ error: { start, end, message } });
+
+  if ((FLAGS as string[]).includes(body)) {
+    return { token: { ...position, kind: 'flag', value: body as QueryFlag } };
+  }
+
+  const match = body.match(FILTER_PATTERN);
+  if (!match) {
+    return { token: { ...position, kind: 'text', value: body } };
+  }
+
+  const [, key, rawOperator, value] = match;
+  const operator: ComparisonOperator = rawOperator === ':' ? '=' : (rawOperator as ComparisonOperator);
+  const isEquality = rawOperator === ':' || rawOperator === '=';
+
+  if (!value) {
+    return fail(t('query.missingValue', { filter: `${key}${rawOperator}` }));
+  }
+
+  if (key === 'type') {
+    if (!isEquality) return fail(t('query.typeOperator'));
+    if (!(POKEMON_TYPES as readonly string[]).includes(value)) {
+      return fail(t('query.unknownType', { value }));
+    }
+    return { token: { ...position, kind: 'type', value } };
+  }
+
+  if (key === 'ability') {
+    if (!isEquality) return fail(t('query.abilityOperator'));
+    return { token: { ...position, kind: 'ability', value: value.replace(/_/g, '-') } };
+  }
+
+  if (key === 'is') {
+    if (!isEquality || !(FLAGS as string[]).includes(value)) {
+      return fail(t('query.unknownFlag', { value }));
+    }
+    return { token: { ...position, kind: 'flag', value: value as QueryFlag } };
+  }
+
+  if (key === 'gen' || key === 'generation') {
+    const generation = parseNumber(value);
+    if (generation === null || generation < 1 || generation > MAX_GENERATION) {
+      return fail(t('query.generationRange', { max: MAX_GENERATION }));
+    }
+    return { token: { ...position, kind: 'generation', operator, value: generation } };
+  }
+
+  const stat = STAT_ALIASES[key];
+  if (stat) {
+    const amount = parseNumber(value);
+    if (amount === null) return fail(t('query.needsNumber', { key }));
+    return { token: { ...position, kind: 'stat', stat, operator, value: amount } };
+  }
+
+  return fail(t('query.unknownFilter', { key }));
+};
+
+/**
+ * Parses a search query into tokens and errors
+ * Example: "type:fire hp>=90 -legendary"
+ *
+ * @param query - Raw search text
+ */
+export const parseQuery = (query: string): ParsedQuery => {
+  const tokens: QueryToken[] = [];
+  const errors: QueryError[] = [];
+
+  for (const match of query.matchAll(/\S+/g)) {
+    const { token, error } = parseTerm(match[0], match.index ?? 0);
+    if (token) tokens.push(token);
+    if (error) errors.push(error);
+  }
+
+  const textTerms = tokens.filter((token) => token.kind === 'text' && !token.negated);
+
+  return {
+    tokens,
+    errors,
+    text: textTerms.map((token) => token.value).join(' '),
+    isStructured:
+      errors.length > 0 ||
+      tokens.some((token) => token.kind !== 'text' || token.negated),
+  };
+};
+
+/**
+ * Whether any token needs stat summaries (stats, abilities, generation, flags)
+ */
+export const queryNeedsSummaries = (parsed: ParsedQuery): boolean => {
+  return parsed.tokens.some((token) => token.kind !== 'text' && token.kind !== 'type');
+};
+
+/**
+ * Whether any token filters by type, which needs the type index
+ */
+export const queryNeedsTypeIndex = (parsed: ParsedQuery): boolean => {
+  return parsed.tokens.some((token) => token.kind === 'type');
+};
+
+const compare = (left: number, operator: ComparisonOperator, right: number): boolean => {
+  switch (operator) {
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '=':
+    default:
+      return left === right;
+  }
+};
+
+/**
+ * Evaluates one token, ignoring negation
+ */
+const matchesToken = (
+  pokemon: Pokemon,
+  token: QueryToken,
+  summary: PokemonStatSummary | undefined
+): boolean => {
+  switch (token.kind) {
+    case 'text':
+      return pokemon.name.includes(token.value);
+    case 'type':
+      return (pokemon.types ?? []).includes(token.value);
+    case 'ability':
+      return !!summary?.abilities.includes(token.value);
+    case 'stat': {
+      const value = token.stat === 'total' ? summary?.total : summary?.stats[token.stat];
+      return value !== undefined && compare(value, token.operator, token.value);
+    }
+    case 'generation':
+      return !!summary && compare(summary.generation, token.operator, token.value);
+    case 'flag':
+      return token.value === 'legendary' ? !!summary?.isLegendary : !!summary?.isMythical;
+    default:
+      return !!true;
+  }
+};
+
+/**
+ * Checks a Pokemon against every filter token (all must match).
+ * Positive text terms are left to the name search and skipped here.
+ *
+ * @param pokemon - List item (with types from the type index)
+ * @param parsed - Parsed query
+ * @param summaries - Stat summaries by ID; Pokemon without one fail data filters
+ */
+export const matchesQuery = (
+  pokemon: Pokemon,
+  parsed: ParsedQuery,
+  summaries: Record<number, PokemonStatSummary>
+): boolean => {
+  const summary = summaries[pokemon.id];
+
+  return parsed.tokens.every((token) => {
+    if (token.kind === 'text' && !token.negated) return !!true;
+
+    const matches = matchesToken(pokemon, token, summary);
+    return token.negated ? !matches : matches;
+  });
+};
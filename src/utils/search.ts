@@ -0,0 +1,150 @@
+/**
+ * Ranked name and dex-number search over a list of Pokemon.
+ * Supports exact, prefix, substring and typo-tolerant (fuzzy) matching.
+ */
+
+import { Pokemon } from '../types';
+
+const SCORE_EXACT = 100;
+const SCORE_PREFIX = 80;
+const SCORE_WORD_PREFIX = 65;
+const SCORE_SUBSTRING = 50;
+const SCORE_FUZZY = 30;
+
+const MIN_FUZZY_QUERY_LENGTH = 4;
+
+/**
+ * Lowercases and strips accents and everything but letters and digits
+ * Example: "Mr. Mime" -> "mrmime", "mr-mime" -> "mrmime", "Évoli" -> "evoli"
+ */
+export const compactName = (value: string): string => {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]/gu, '');
+};
+
+/**
+ * Parses a dex number query such as "25", "#25" or "#025"
+ */
+export const parseDexNumber = (query: string): number | null => {
+  const matches = query.trim().match(/^#?0*(\d{1,4})$/);
+  if (!matches) return null;
+
+  const dexNumber = parseInt(matches[1], 10);
+  return dexNumber > 0 ? dexNumber : null;
+};
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+export const editDistance = (a: string, b: string): number => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const matrix: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) matrix[i][0] = i;
+  for (let j = 0; j < cols; j++) matrix[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,
+        matrix[i][j - 1] + 1,
+        matrix[i - 1][j - 1] + cost
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        matrix[i][j] = Math.min(matrix[i][j], matrix[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return matrix[a.length][b.length];
+};
+
+/**
+ * Number of typos tolerated for a query of the given length
+ */
+const getMaxTypos = (length: number): number => {
+  if (length < MIN_FUZZY_QUERY_LENGTH) return 0;
+  if (length <= 5) return 1;
+  return 2;
+};
+
+/**
+ * Scores how well a Pokemon name matches a query (0 = no match)
+ *
+ * Shorter names rank higher within the same match tier so that
+ * "pika" puts "pikachu" ahead of "pikachu-rock-star".
+ */
+export const scoreNameMatch = (name: string, query: string): number => {
+  const target = compactName(name);
+  const needle = compactName(query);
+  if (!needle || !target) return 0;
+
+  const lengthPenalty = Math.min(target.length - needle.length, 10) / 10;
+
+  if (target === needle) return SCORE_EXACT;
+  if (target.startsWith(needle)) return SCORE_PREFIX - lengthPenalty;
+
+  const words = name.toLowerCase().split(/[-\s]+/).map(compactName);
+  if (words.slice(1).some((word) => word.startsWith(needle))) {
+    return SCORE_WORD_PREFIX - lengthPenalty;
+  }
+
+  if (target.includes(needle)) return SCORE_SUBSTRING - lengthPenalty;
+
+  const maxTypos = getMaxTypos(needle.length);
+  if (maxTypos === 0) return 0;
+
+  // Compare against the whole name and against a same-length prefix,
+  // so typos in partially typed names still match ("pikahc" -> "pikachu")
+  const distance = Math.min(
+    editDistance(needle, target),
+    editDistance(needle, target.slice(0, needle.length))
+  );
+
+  if (distance <= maxTypos) {
+    return SCORE_FUZZY - distance * 5 - lengthPenalty;
+  }
+
+  return 0;
+};
+
+/**
+ * Searches Pokemon by name or dex number and returns results by relevance
+ *
+ * @param pokemon - Pokemon to search through
+ * @param query - Raw user query (name fragment, "25" or "#025")
+ * @param localizedNames - Names in the device language by ID, matched alongside the API name
+ * @returns Matching Pokemon, best match first
+ */
+export const searchPokemon = (
+  pokemon: Pokemon[],
+  query: string,
+  localizedNames: Record<number, string> = {}
+): Pokemon[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return pokemon;
+
+  const dexNumber = parseDexNumber(trimmed);
+  if (dexNumber !== null) {
+    return pokemon.filter((p) => p.id === dexNumber);
+  }
+
+  return pokemon
+    .map((p) => {
+      const localizedName = localizedNames[p.id];
+      const score = Math.max(
+        scoreNameMatch(p.name, trimmed),
+        localizedName ? scoreNameMatch(localizedName, trimmed) : 0
+      );
+      return { pokemon: p, score };
+    })
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.pokemon.id - b.pokemon.id)
+    .map((result) => result.pokemon);
+};
@@ -0,0 +1,118 @@
+/**
+ * Sort options and comparators for Pokemon lists.
+ */
+
+import { Pokemon, PokemonStatSummary } from '../types';
+import { formatName } from './formatters';
+import { getLocaleTag, t } from '../i18n';
+
+export type SortOption = 'dex-asc' | 'dex-desc' | 'name-asc' | 'name-desc';
+
+/**
+ * Values that need stat summaries to sort by
+ */
+export type StatSortKey =
+  | 'total'
+  | 'hp'
+  | 'attack'
+  | 'defense'
+  | 'special-attack'
+  | 'special-defense'
+  | 'speed'
+  | 'height'
+  | 'weight';
+
+export type StatSortOption = `${StatSortKey}-desc`;
+
+export type ListSortOption = SortOption | StatSortOption;
+
+export const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'dex-asc', label: t('sort.dexAsc') },
+  { value: 'dex-desc', label: t('sort.dexDesc') },
+  { value: 'name-asc', label: t('sort.nameAsc') },
+  { value: 'name-desc', label: t('sort.nameDesc') },
+];
+
+export const LIST_SORT_OPTIONS: { value: ListSortOption; label: string }[] = [
+  ...SORT_OPTIONS,
+  { value: 'total-desc', label: t('sort.total') },
+  { value: 'hp-desc', label: t('stats.hp') },
+  { value: 'attack-desc', label: t('stats.attack') },
+  { value: 'defense-desc', label: t('stats.defense') },
+  { value: 'special-attack-desc', label: t('stats.specialAttack') },
+  { value: 'special-defense-desc', label: t('stats.specialDefense') },
+  { value: 'speed-desc', label: t('stats.speed') },
+  { value: 'height-desc', label: t('sort.height') },
+  { value: 'weight-desc', label: t('sort.weight') },
+];
+
+export const DEFAULT_SORT_OPTION: SortOption = 'dex-asc';
+
+export const isStatSortOption = (option: ListSortOption): option is StatSortOption => {
+  return !SORT_OPTIONS.some((entry) => entry.value === option);
+};
+
+/**
+ * Reads the value a stat sort orders by
+ */
+const getStatSortValue = (
+  summary: PokemonStatSummary | undefined,
+  key: StatSortKey
+): number | undefined => {
+  if (!summary) return undefined;
+
+  switch (key) {
+    case 'total':
+      return summary.total;
+    case 'height':
+      return summary.height;
+    case 'weight':
+      return summary.weight;
+    default:
+      return summary.stats[key];
+  }
+};
+
+/**
+ * Returns a sorted copy of the list
+ *
+ * @param pokemon - Pokemon to sort
+ * @param option - Sort option
+ * @param summaries - Stat summaries by ID, required for stat options
+ *   (Pokemon without a summary are placed last)
+ * @param localizedNames - Display names by ID for name options,
+ *   falling back to the formatted API name
+ */
+export const sortPokemon = (
+  pokemon: Pokemon[],
+  option: ListSortOption,
+  summaries: Record<number, PokemonStatSummary> = {},
+  localizedNames: Record<number, string> = {}
+): Pokemon[] => {
+  const sorted = [...pokemon];
+  const getName = (entry: Pokemon) => localizedNames[entry.id] ?? formatName(entry.name);
+  const compareNames = (a: Pokemon, b: Pokemon) =>
+    getName(a).localeCompare(getName(b), getLocaleTag());
+
+  if (isStatSortOption(option)) {
+    const key = option.replace(/-desc$/, '') as StatSortKey;
+
+    return sorted.sort((a, b) => {
+      const valueA = getStatSortValue(summaries[a.id], key) ?? -Infinity;
+      const valueB = getStatSortValue(summaries[b.id], key) ?? -Infinity;
+      return valueB - valueA || a.id - b.id;
+    });
+  }
+
+  switch (option) {
+    case 'dex-desc':
+      return sorted.sort((a, b) => b.id - a.id);
+    case 'name-asc':
+      return sorted.sort(compareNames);
+    case 'name-desc':
+      return sorted.sort((a, b) => compareNames(b, a));
+    case 'dex-asc':
+    default:
+      return sorted.sort((a, b) => a.id - b.id);
+  }
+};
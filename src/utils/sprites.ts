@@ -0,0 +1,148 @@
+/**
+ * Sprite helpers: shiny and female variants, gallery pages, and per-game sprites.
+ */
+
+import { PokemonSprites, SpriteSet } from '../types';
+import { formatName, toRomanNumeral } from './formatters';
+import { t } from '../i18n';
+
+export interface SpriteVariant {
+  shiny: boolean;
+  female: boolean;
+}
+
+export interface GallerySprite {
+  key: string;
+  label: string;
+  uri: string;
+}
+
+const MAX_GENERATION = 9;
+
+/**
+ * Per-game entries that aren't battle sprites
+ */
+const SKIPPED_GAMES = ['icons'];
+
+const getVariantKey = (
+  side: 'front' | 'back',
+  { shiny, female }: SpriteVariant
+): keyof SpriteSet => {
+  if (shiny && female) return `${side}_shiny_female`;
+  if (shiny) return `${side}_shiny`;
+  if (female) return `${side}_female`;
+  return `${side}_default`;
+};
+
+/**
+ * Picks a sprite in the requested variant. Female sprites only exist where
+ * the games show a difference, so they fall back to the default sprite.
+ */
+const pickSprite = (
+  set: Partial<SpriteSet> | undefined,
+  side: 'front' | 'back',
+  variant: SpriteVariant
+): string | null => {
+  if (!set) return null;
+
+  const sprite = set[getVariantKey(side, variant)];
+  if (sprite || !variant.female) return sprite ?? null;
+
+  return set[getVariantKey(side, { ...variant, female: !!false })] ?? null;
+};
+
+/**
+ * Converts a versions key to its generation number
+ * Example: "generation-iii" -> 3
+ */
+const getGenerationNumber = (key: string): number => {
+  for (let generation = 1; generation <= MAX_GENERATION; generation += 1) {
+    if (key === `generation-${toRomanNumeral(generation).toLowerCase()}`) {
+      return generation;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Whether a Pokemon has separate female sprites
+ */
+export const hasFemaleSprites = (sprites: PokemonSprites): boolean =>
+  !!(sprites.front_female || sprites.other?.home?.front_female);
+
+/**
+ * Whether any shiny sprite is available
+ */
+export const hasShinySprites = (sprites: PokemonSprites): boolean =>
+  !!(
+    sprites.front_shiny ||
+    sprites.other?.['official-artwork']?.front_shiny ||
+    sprites.other?.home?.front_shiny
+  );
+
+/**
+ * Builds the header gallery pages: artwork, HOME render, then front and back sprites
+ *
+ * @param sprites - Sprites from the Pokemon detail
+ * @param variant - Shiny and female selection
+ */
+export const getGallerySprites = (
+  sprites: PokemonSprites,
+  variant: SpriteVariant
+): GallerySprite[] => {
+  const artwork = sprites.other?.['official-artwork'];
+  const artworkUri = variant.shiny
+    ? artwork?.front_shiny ?? null
+    : artwork?.front_default ?? null;
+
+  const pages: (GallerySprite | null)[] = [
+    artworkUri ? { key: 'artwork', label: t('sprites.artwork'), uri: artworkUri } : null,
+    ...(
+      [
+        ['home', t('sprites.home'), pickSprite(sprites.other?.home, 'front', variant)],
+        ['front', t('sprites.front'), pickSprite(sprites, 'front', variant)],
+        ['back', t('sprites.back'), pickSprite(sprites, 'back', variant)],
+      ] as const
+    ).map(([key, label, uri]) => (uri ? { key, label, uri } : null)),
+  ];
+
+  return pages.filter((page): page is GallerySprite => page !== null);
+};
+
+/**
+ * Lists the front sprite from every game, oldest generation first.
+ * Games without the requested variant (e.g. shiny in Red/Blue) are left out.
+ *
+ * @param sprites - Sprites from the Pokemon detail
+ * @param variant - Shiny and female selection
+ */
+export const getGameSprites = (
+  sprites: PokemonSprites,
+  variant: SpriteVariant
+): GallerySprite[] => {
+  const versions = sprites.versions ?? {};
+
+  return Object.keys(versions)
+    .sort((a, b) => getGenerationNumber(a) - getGenerationNumber(b))
+    .flatMap((generationKey) => {
+      const generation = getGenerationNumber(generationKey);
+
+      return Object.entries(versions[generationKey])
+        .filter(([game]) => !SKIPPED_GAMES.includes(game))
+        .map(([game, set]) => {
+          const uri = pickSprite(set, 'front', variant);
+          return uri
+            ? {
+                key: `${generationKey}-${game}`,
+                label: t('sprites.gameLabel', {
+                  game: formatName(game),
+                  generation: toRomanNumeral(generation),
+                  number: generation,
+                }),
+                uri,
+              }
+            : null;
+        })
+        .filter((sprite): sprite is GallerySprite => sprite !== null);
+    });
+};
@@ -0,0 +1,64 @@
+/**
+ * Pokemon type list and type filter helpers.
+ */
+
+import { Pokemon, TypeFilterMode } from '../types';
+
+/**
+ * The 18 battle types, in the order PokeAPI lists them
+ */
+export const POKEMON_TYPES = [
+  'normal',
+  'fighting',
+  'flying',
+  'poison',
+  'ground',
+  'rock',
+  'bug',
+  'ghost',
+  'steel',
+  'fire',
+  'water',
+  'grass',
+  'electric',
+  'psychic',
+  'ice',
+  'dragon',
+  'dark',
+  'fairy',
+] as const;
+
+/**
+ * Checks whether a Pokemon matches the selected types
+ *
+ * @param pokemon - Pokemon to test (types must be populated)
+ * @param selectedTypes - Selected type names
+ * @param mode - "and" requires every type, "or" requires any
+ */
+export const matchesTypeFilter = (
+  pokemon: Pokemon,
+  selectedTypes: string[],
+  mode: TypeFilterMode
+): boolean => {
+  if (selectedTypes.length === 0) return true;
+
+  return mode === 'and'
+    ? selectedTypes.every((type) => pokemon.types.includes(type))
+    : selectedTypes.some((type) => pokemon.types.includes(type));
+};
+
+/**
+ * Fills in list item types from a reverse type index
+ *
+ * @param pokemon - List items to enrich
+ * @param typeIndex - Map of Pokemon ID to its types (slot order)
+ */
+export const applyTypeIndex = (
+  pokemon: Pokemon[],
+  typeIndex: Record<number, string[]>
+): Pokemon[] => {
+  return pokemon.map((p) => {
+    const types = typeIndex[p.id];
+    return types && p.types.length === 0 ? { ...p, types } : p;
+  });
+};
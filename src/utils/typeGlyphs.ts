@@ -0,0 +1,36 @@
+/**
+ * Glyphs that identify each Pokemon type by shape rather than color.
+ */
+
+/**
+ * One distinct text symbol per type, shown beside the type name in badges
+ */
+export const TYPE_GLYPHS: Record<string, string> = {
+  normal: '◯',
+  fire: '♨',
+  water: '≈',
+  electric: 'ϟ',
+  grass: '♣',
+  ice: '❄',
+  fighting: '⚔',
+  poison: '☠',
+  ground: '⛰',
+  flying: '➶',
+  psychic: '✺',
+  bug: '⁂',
+  rock: '◆',
+  ghost: '⚰',
+  dragon: '⚜',
+  dark: '☾',
+  steel: '⛓',
+  fairy: '✿',
+};
+
+/**
+ * Looks up a type's glyph, falling back to the normal type's
+ *
+ * @param type - Type name (e.g. "fire")
+ */
+export const getTypeGlyph = (type: string): string => {
+  return TYPE_GLYPHS[type.toLowerCase()] ?? TYPE_GLYPHS.normal;
+};
@@ -0,0 +1,103 @@
+/**
+ * Pure type effectiveness engine.
+ * Builds a type chart from PokeAPI damage relations and computes matchups,
+ * so any feature (detail screen, compare, search) can reuse the math.
+ */
+
+import { TypeDamageRelations } from '../types';
+import { POKEMON_TYPES } from './typeFilter';
+import { t } from '../i18n';
+
+/**
+ * Attacking type -> defending type -> damage multiplier.
+ * Missing entries are neutral (1x).
+ */
+export type TypeChart = Record<string, Record<string, number>>;
+
+export interface MatchupGroup {
+  multiplier: number;
+  label: string;
+  types: string[];
+}
+
+/**
+ * Display buckets for defensive matchups, strongest weakness first
+ */
+export const MATCHUP_BUCKETS: { multiplier: number; label: string }[] = [
+  { multiplier: 4, label: '4×' },
+  { multiplier: 2, label: '2×' },
+  { multiplier: 1, label: '1×' },
+  { multiplier: 0.5, label: '½×' },
+  { multiplier: 0.25, label: '¼×' },
+  { multiplier: 0, label: t('matchup.immune') },
+];
+
+/**
+ * Builds a type chart from the damage relations of each attacking type
+ *
+ * @param types - Type name and damage relations for every type
+ */
+export const buildTypeChart = (
+  types: { name: string; damage_relations: TypeDamageRelations }[]
+): TypeChart => {
+  const chart: TypeChart = {};
+
+  types.forEach(({ name, damage_relations: relations }) => {
+    const row: Record<string, number> = {};
+    relations.double_damage_to.forEach((type) => (row[type.name] = 2));
+    relations.half_damage_to.forEach((type) => (row[type.name] = 0.5));
+    relations.no_damage_to.forEach((type) => (row[type.name] = 0));
+    chart[name] = row;
+  });
+
+  return chart;
+};
+
+/**
+ * Damage multiplier of an attacking type against one or more defending types
+ * Example: ground vs ["fire", "flying"] -> 0
+ */
+export const getAttackMultiplier = (
+  chart: TypeChart,
+  attackingType: string,
+  defendingTypes: string[]
+): number => {
+  const row = chart[attackingType] ?? {};
+  return defendingTypes.reduce(
+    (multiplier, defendingType) => multiplier * (row[defendingType] ?? 1),
+    1
+  );
+};
+
+/**
+ * Multiplier of every attacking type against the given defending types
+ */
+export const getDefensiveMultipliers = (
+  chart: TypeChart,
+  defendingTypes: string[]
+): Record<string, number> => {
+  const multipliers: Record<string, number> = {};
+
+  POKEMON_TYPES.forEach((attackingType) => {
+    multipliers[attackingType] = getAttackMultiplier(chart, attackingType, defendingTypes);
+  });
+
+  return multipliers;
+};
+
+/**
+ * Groups defensive multipliers into display buckets (4x ... immune).
+ * Empty buckets are omitted.
+ */
+export const groupDefensiveMatchups = (
+  chart: TypeChart,
+  defendingTypes: string[]
+): MatchupGroup[] => {
+  const multipliers = getDefensiveMultipliers(chart, defendingTypes);
+
+  return MATCHUP_BUCKETS.map(({ multiplier, label }) => ({
+    multiplier,
+    label,
+    types: POKEMON_TYPES.filter((type) => multipliers[type] === multiplier),
+  })).filter((group) => group.types.length > 0);
+};
@@ -0,0 +1,73 @@
+/**
+ * Locale-aware number formatting and metric/imperial conversion for
+ * heights and weights. PokeAPI reports height in decimeters and weight
+ * in hectograms.
+ */
+
+import { UnitPreference, UnitSystem } from '../types';
+import { getLocaleTag, usesImperialUnits } from '../i18n';
+
+const INCHES_PER_DECIMETER = 3.937007874;
+const POUNDS_PER_HECTOGRAM = 0.2204622622;
+
+/**
+ * Resolves the "follow the device" preference to a concrete system
+ *
+ * @param preference - Units preference from settings
+ */
+export const resolveUnitSystem = (preference: UnitPreference): UnitSystem => {
+  if (preference !== 'locale') return preference;
+  return usesImperialUnits() ? 'imperial' : 'metric';
+};
+
+/**
+ * Formats a number with the device locale's separators
+ * Example: 1234.5 -> "1,234.5" (en-US), "1.234,5" (de-DE)
+ *
+ * @param value - Number to format
+ * @param fractionDigits - Fixed number of decimals
+ */
+export const formatNumber = (value: number, fractionDigits = 0): string => {
+  try {
+    return new Intl.NumberFormat(getLocaleTag(), {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(value);
+  } catch {
+    return value.toFixed(fractionDigits);
+  }
+};
+
+/**
+ * Formats a height for display
+ * Example: 17 -> "1.7 m" or "5 ft 7 in"
+ *
+ * @param decimeters - Height as reported by PokeAPI
+ * @param system - Measurement system to display in
+ */
+export const formatHeight = (decimeters: number, system: UnitSystem): string => {
+  if (system === 'metric') {
+    return `${formatNumber(decimeters / 10, 1)} m`;
+  }
+
+  const totalInches = Math.round(decimeters * INCHES_PER_DECIMETER);
+  const feet = Math.floor(totalInches / 12);
+  const inches = totalInches % 12;
+
+  return `${formatNumber(feet)} ft ${inches} in`;
+};
+
+/**
+ * Formats a weight for display
+ * Example: 905 -> "90.5 kg" or "199.5 lbs"
+ *
+ * @param hectograms - Weight as reported by PokeAPI
+ * @param system - Measurement system to display in
+ */
+export const formatWeight = (hectograms: number, system: UnitSystem): string => {
+  if (system === 'metric') {
+    return `${formatNumber(hectograms / 10, 1)} kg`;
+  }
+
+  return `${formatNumber(hectograms * POUNDS_PER_HECTOGRAM, 1)} lbs`;
+};